@@ -1,23 +1,55 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { DojoState, MindMapNode, MindMapLink, ChatMessage, ConversationMode } from './types';
-import { generateDojoResponse, analyzeInteraction, generateGraphUpdates } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo, useReducer } from 'react';
+import { DojoState, MindMapNode, ChatMessage, ConversationMode, SavedSession, Scenario, BrainResponse, VocabEntry, TurnAudio } from './types';
+import { generateDojoResponse, streamDojoReply, analyzeInteraction, generateGraphUpdates, judgeTangent, correctUserTurn, generateTopicOpener, findDuplicateNodes, PromptContext } from './services/geminiService';
+import { getFocusNodeId, getNodeLabel } from './services/focusScoring';
+import { isAbortError } from './services/llmProvider';
+import { GraphEdit, findMergeCandidates, groupsFromPairs, pairsFromGroups } from './services/graphEditing';
+import { ConversationEvent, ConversationState, conversationReducer, recordEvent, replayEvents, startConversation } from './services/conversationStore';
 import MindMap from './components/MindMap';
 import ChatInterface from './components/ChatInterface';
-import VoiceWidget from './components/VoiceWidget';
+import VoiceWidget, { VoiceWidgetHandle } from './components/VoiceWidget';
 import EnglishTranscript from './components/EnglishTranscript';
+import TangentGauge from './components/TangentGauge';
+import DeliveryDashboard from './components/DeliveryDashboard';
+import SessionLibrary from './components/SessionLibrary';
+import ExportMenu from './components/ExportMenu';
+import SettingsPanel from './components/SettingsPanel';
+import ScenarioLibrary from './components/ScenarioLibrary';
+import ModeSelector, { SessionStartOptions } from './components/ModeSelector';
+import SessionReportPanel from './components/SessionReportPanel';
+import GuidanceTimeline from './components/GuidanceTimeline';
+import { toGuidance } from './services/guidance';
+import { toCorrection } from './services/correction';
+import VocabularyNotebook from './components/VocabularyNotebook';
+import { VocabDraft, addVocabEntry, getDueEntries, loadVocabulary, proposeVocabulary, sentenceContaining } from './services/vocabularyStore';
+import { generateSessionReport, reportToMarkdown } from './services/sessionReport';
+import { createMessageId, messageIdsForNode, nodeIdsForMessage } from './services/messageLinks';
+import { VoiceTurn } from './services/turnSegmenter';
+import { computeDeliveryMetrics } from './services/deliveryMetrics';
+import { createSessionId, persistSessionState, loadSession, saveSession, getLastSessionId, deriveSessionTitle, listTurnAudio, saveTurnAudio, deleteTurnAudio, turnAudioId } from './services/sessionStore';
+import { AudioClip } from './services/turnRecorder';
+import { getLockState, getSecrets, getSettings, validateSettings } from './services/settingsStore';
+import { ExportFormat, downloadSession, downloadFile, importSessionJson } from './services/sessionExport';
 import { TRANSLATIONS, Language, LabelSet } from './constants/translations';
 
+// Run the duplicate-merging pass after this many incoming nodes
+const AUTO_MERGE_EVERY = 6;
+// Re-recordings kept per learner turn, next to the session take
+const MAX_RETAKES = 3;
+
 const INITIAL_NODES: MindMapNode[] = [
   { id: 'Context', label: 'Context', group: 1, type: 'root', status: 'active', description: 'The starting point of our conversation.' }
 ];
 
+// mode: null until the start flow (ModeSelector) or a scenario picks one
 const INITIAL_STATE: DojoState = {
-  mode: 'adaptive',
+  mode: null,
   currentTopic: 'Context',
   mindMapNodes: INITIAL_NODES,
   mindMapLinks: [],
   conversationHistory: [
       { 
+          id: createMessageId(),
           role: 'model', 
           text: "Hello! I'm ContextDojo. I'm ready to practice. What's on your mind today?",
           translatedText: "Hello! I'm ContextDojo. I'm ready to practice. What's on your mind today?",
@@ -27,269 +59,606 @@ const INITIAL_STATE: DojoState = {
   lastGuidance: null,
 };
 
+declare global {
+  interface Window {
+    contextDojo?: {
+      events: () => ConversationEvent[];
+      replay: () => ConversationState;
+    };
+  }
+}
+
 function App() {
-  const [dojoState, setDojoState] = useState<DojoState>(INITIAL_STATE);
+  // Conversation state is a reducer over typed events (services/conversationStore); `dispatch` also
+  // records each event so the current session's log can be replayed from the console.
+  const [conversation, applyEvent] = useReducer(conversationReducer, INITIAL_STATE, startConversation);
+  const eventLogRef = useRef<ConversationEvent[]>([{ type: 'SessionLoaded', state: INITIAL_STATE }]);
+  const dispatch = useCallback((event: ConversationEvent) => {
+      recordEvent(eventLogRef.current, event);
+      applyEvent(event);
+  }, []);
+  const { session: dojoState, streamingUser, streamingAgent, graphUndo } = conversation;
+
+  // `contextDojo.events()` returns the log, `contextDojo.replay()` rebuilds the state it leads to (dev builds only)
+  useEffect(() => {
+      if (!import.meta.env.DEV) return;
+      window.contextDojo = {
+          events: () => [...eventLogRef.current],
+          replay: () => replayEvents(eventLogRef.current),
+      };
+      return () => { delete window.contextDojo; };
+  }, []);
   const [isProcessing, setIsProcessing] = useState(false);
   const [openSection, setOpenSection] = useState<string | null>('transcript');
+
+  // Session Persistence
+  const [sessionId, setSessionId] = useState<string>(() => createSessionId());
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Opens straight away when keys are locked or missing, before the first request fails on them
+  const [isSettingsOpen, setIsSettingsOpen] = useState(() =>
+      getLockState().locked || Object.keys(validateSettings(getSettings(), getSecrets())).length > 0);
+  const [isScenarioLibraryOpen, setIsScenarioLibraryOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [isNotebookOpen, setIsNotebookOpen] = useState(false);
+  const [vocabulary, setVocabulary] = useState<VocabEntry[]>(() => loadVocabulary());
   
   // Language State
   const [uiLanguage, setUiLanguage] = useState<Language>('en');
   const labels: LabelSet = TRANSLATIONS[uiLanguage];
 
-  // Streaming States
-  const [streamingUser, setStreamingUser] = useState<string>('');
-  const [streamingAgent, setStreamingAgent] = useState<string>('');
-  
-  // We use a Ref to accumulate the Agent's text during streaming, 
-  // so we have the full text ready when onTurnComplete fires.
-  const streamingAgentRef = useRef<string>('');
-
-  // --- DOWNLOAD HANDLER ---
-  const handleDownload = () => {
-      const timestamp = new Date().toISOString().split('T')[0];
-      const content = dojoState.conversationHistory.map(msg => {
-          return `[${msg.timestamp.toLocaleTimeString()}] ${msg.role.toUpperCase()}:\nOriginal: ${msg.text}\nEnglish: ${msg.translatedText || msg.text}\n`;
-      }).join('\n-------------------\n');
-      
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `ContextDojo_Session_${timestamp}.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  // The learner turn the next voice reply answers, so its analysis lands on that turn
+  const lastVoiceUserTurnRef = useRef<ChatMessage | null>(null);
+
+  // Text-mode reply stream, cancellable from the chat input
+  const [isTextStreaming, setIsTextStreaming] = useState(false);
+  const [chatError, setChatError] = useState<string | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
+
+  // Live voice session, used to steer the agent from the map
+  const voiceRef = useRef<VoiceWidgetHandle>(null);
+  const [isVoiceConnected, setIsVoiceConnected] = useState(false);
+
+  // Latest committed state, for memoized handlers
+  const dojoStateRef = useRef<DojoState>(INITIAL_STATE);
+  useEffect(() => {
+      dojoStateRef.current = dojoState;
+  }, [dojoState]);
+
+  // Mind map merging. The undo stack lives in the conversation state (graph only; messages are never rolled back).
+  const [isMergingNodes, setIsMergingNodes] = useState(false);
+  const nodesSinceMergeRef = useRef(0);
+
+  // --- SESSION PERSISTENCE ---
+  // Resume the last session once on mount, before autosave is allowed to write anything.
+  useEffect(() => {
+      const lastId = getLastSessionId();
+      if (!lastId) {
+          setIsHydrated(true);
+          return;
+      }
+      loadSession(lastId)
+          .then(session => {
+              if (session) {
+                  setSessionId(session.id);
+                  dispatch({ type: 'SessionLoaded', state: session.state });
+              }
+          })
+          .catch(err => console.error("Failed to resume session:", err))
+          .finally(() => setIsHydrated(true));
+  }, []);
+
+  // Autosave (debounced). Sessions without any user turn are not worth keeping.
+  useEffect(() => {
+      if (!isHydrated) return;
+      if (!dojoState.conversationHistory.some(m => m.role === 'user')) return;
+
+      const timer = setTimeout(() => {
+          persistSessionState(sessionId, dojoState).catch(err => console.error("Autosave failed:", err));
+      }, 500);
+      return () => clearTimeout(timer);
+  }, [dojoState, sessionId, isHydrated]);
+
+  // --- TURN AUDIO ---
+  // Recorded takes of the open session's learner turns, by message id. Tagged with the session so a
+  // recording that finishes after a session switch can't land in the new one.
+  const [turnAudio, setTurnAudio] = useState<{ sessionId: string; takes: Record<string, TurnAudio[]> }>({ sessionId: '', takes: {} });
+
+  useEffect(() => {
+      let cancelled = false;
+      listTurnAudio(sessionId)
+          .then(all => {
+              if (cancelled) return;
+              const takes: Record<string, TurnAudio[]> = {};
+              all.sort((a, b) => a.take - b.take).forEach(t => { (takes[t.messageId] ||= []).push(t); });
+              setTurnAudio({ sessionId, takes });
+          })
+          .catch(err => console.error("Failed to load turn audio:", err));
+      return () => { cancelled = true; };
+  }, [sessionId]);
+
+  const storeTake = useCallback((forSessionId: string, messageId: string, clip: AudioClip, take: number, replacesId?: string) => {
+      const entry: TurnAudio = { id: turnAudioId(forSessionId, messageId, take), sessionId: forSessionId, messageId, take, ...clip };
+      setTurnAudio(prev => prev.sessionId !== forSessionId ? prev : {
+          sessionId: prev.sessionId,
+          takes: { ...prev.takes, [messageId]: [...(prev.takes[messageId] || []).filter(t => t.id !== replacesId), entry] },
+      });
+      saveTurnAudio(entry).catch(err => console.error("Failed to save turn audio:", err));
+  }, []);
+
+  // Re-recordings sit next to the session take; only the latest few are kept
+  const handleRecordTake = (messageId: string, clip: AudioClip) => {
+      const takes = turnAudio.sessionId === sessionId ? turnAudio.takes[messageId] || [] : [];
+      const retakes = takes.filter(t => t.take > 0);
+      const dropped = retakes.length >= MAX_RETAKES ? retakes[0] : undefined;
+      if (dropped) deleteTurnAudio(dropped.id).catch(err => console.error("Failed to delete turn audio:", err));
+      storeTake(sessionId, messageId, clip, takes.length ? takes[takes.length - 1].take + 1 : 1, dropped?.id);
+  };
+
+  const clearStreaming = () => {
+      replyAbortRef.current?.abort();
+      dispatch({ type: 'StreamCleared' });
+      lastVoiceUserTurnRef.current = null;
+  };
+
+  const handleOpenSession = (session: SavedSession) => {
+      setSessionId(session.id);
+      dispatch({ type: 'SessionLoaded', state: session.state });
+      clearStreaming();
+      setIsLibraryOpen(false);
+  };
+
+  const handleDeleteSession = (id: string) => {
+      if (id === sessionId) handleReset();
+  };
+
+  // --- EXPORT / IMPORT ---
+  const handleExport = async (format: ExportFormat) => {
+      const stored = await loadSession(sessionId).catch(() => null);
+      const title = stored?.title || deriveSessionTitle(dojoState);
+      downloadSession(format, dojoState, title, stored?.createdAt);
+  };
+
+  // Imported sessions become a new library entry rather than overwriting the current one
+  const handleImport = async (file: File) => {
+      try {
+          const imported = importSessionJson(await file.text());
+          const session: SavedSession = {
+              id: createSessionId(),
+              title: imported.title,
+              titleEdited: true,
+              createdAt: imported.createdAt,
+              updatedAt: new Date(),
+              state: imported.state,
+          };
+          await saveSession(session);
+          handleOpenSession(session);
+      } catch (err) {
+          console.error("Import failed:", err);
+          alert(`${labels.importFailed}: ${err instanceof Error ? err.message : err}`);
+      }
+  };
+
+  // --- END OF SESSION REPORT ---
+  const handleEndSession = async () => {
+      clearStreaming();
+      setIsGeneratingReport(true);
+      try {
+          const report = await generateSessionReport(dojoState);
+          dispatch({ type: 'ReportReady', report });
+          setIsReportOpen(true);
+      } catch (err) {
+          console.error("Report generation failed:", err);
+      } finally {
+          setIsGeneratingReport(false);
+      }
+  };
+
+  const handleExportReport = () => {
+      if (!dojoState.report) return;
+      const date = new Date().toISOString().split('T')[0];
+      downloadFile(reportToMarkdown(dojoState.report), `ContextDojo_Report_${date}.md`, 'text/markdown');
   };
 
   // --- SMART GRAPH UPDATE ---
-  const triggerGraphUpdate = async (conversationText: string) => {
+  // `messageIds` are the turns the text came from; every node the update touches is linked to them.
+  // State comes from the ref, since the memoized voice handlers call this long after they were created.
+  const triggerGraphUpdate = async (conversationText: string, messageIds: string[]) => {
+      const session = dojoStateRef.current;
       // Only pass Active nodes for context to avoid confusing the AI with potential nodes
-      const activeLabels = dojoState.mindMapNodes
-          .filter(n => n.status === 'active')
+      const activeLabels = session.mindMapNodes
+          .filter(n => n.status === 'active' && n.type !== 'marker')
           .map(n => n.label);
       
-      const updates = await generateGraphUpdates(conversationText, activeLabels);
+      // Tangent judgement runs alongside the graph update, against the topic we were focused on
+      const focusTopic = getNodeLabel(session.mindMapNodes, getFocusNodeId(session.focusHistory));
+      const [result, tangent] = await Promise.all([
+          generateGraphUpdates(conversationText, activeLabels),
+          judgeTangent(conversationText, focusTopic, session.sessionGoal),
+      ]);
+      const updates = result.source === 'model' ? result.data : { nodes: [] };
       
-      if (updates && updates.nodes && updates.nodes.length > 0) {
-          setDojoState(prev => {
-              const nextNodes = [...prev.mindMapNodes];
-              const nextLinks = [...prev.mindMapLinks];
-              
-              updates.nodes.forEach(n => {
-                  if (!n.label) return; // Skip invalid
-                  
-                  const existingNodeIndex = nextNodes.findIndex(ex => ex.label.toLowerCase() === n.label.toLowerCase());
-
-                  if (existingNodeIndex !== -1) {
-                      // Node exists
-                      const existingNode = nextNodes[existingNodeIndex];
-                      
-                      // If existing was potential and new is active, upgrade it
-                      if (existingNode.status === 'potential' && n.status === 'active') {
-                           nextNodes[existingNodeIndex] = { ...existingNode, status: 'active', description: n.description };
-                      } else if (n.description) {
-                           // Update description if newer
-                           nextNodes[existingNodeIndex] = { ...existingNode, description: n.description };
-                      }
-                  } else {
-                      // Create New Node
-                      const newNode: MindMapNode = {
-                          id: n.label,
-                          label: n.label,
-                          type: n.type,
-                          status: n.status as 'active' | 'potential',
-                          group: 2,
-                          description: n.description
-                      };
-                      nextNodes.push(newNode);
-                      
-                      // Create Link
-                      const parentNode = nextNodes.find(ex => ex.label.toLowerCase() === (n.parent || '').toLowerCase()) 
-                                         || nextNodes.find(ex => ex.label === 'Context'); 
-                      
-                      if (parentNode) {
-                          // Check if link exists
-                          const linkExists = nextLinks.some(l => 
-                              (l.source === parentNode.id && l.target === newNode.id) ||
-                              (l.source === newNode.id && l.target === parentNode.id)
-                          );
-                          if (!linkExists) {
-                              nextLinks.push({ source: parentNode.id, target: newNode.id });
-                          }
-                      }
-                  }
-              });
+      dispatch({
+          type: 'GraphUpdated',
+          messageIds,
+          nodes: updates.nodes,
+          tangent: tangent.source === 'model' ? tangent.data : null,
+          driftHint: labels.driftHint,
+          at: new Date(),
+      });
 
-              return { ...prev, mindMapNodes: nextNodes, mindMapLinks: nextLinks };
-          });
+      nodesSinceMergeRef.current += updates.nodes.length;
+  };
+
+  // --- MIND MAP EDITING ---
+  // Edits that change nothing (e.g. a move that would create a cycle) leave no undo step
+  const handleGraphEdit = (edit: GraphEdit) => {
+      dispatch({ type: 'GraphEdited', edit, at: new Date() });
+  };
+
+  const handleUndoGraph = () => {
+      dispatch({ type: 'GraphUndone' });
+  };
+
+  // Asks the model which of `mapNodes` name the same topic; the lexical check stands in when it can't answer.
+  // The map can change while the model thinks, so only pairs whose nodes are both still there get merged.
+  const runMergePass = async (mapNodes: MindMapNode[]) => {
+      const nodes = mapNodes.filter(n => n.type !== 'root' && n.type !== 'marker');
+      if (nodes.length < 2) return;
+      setIsMergingNodes(true);
+      try {
+          const result = await findDuplicateNodes(nodes, () => ({ groups: groupsFromPairs(findMergeCandidates(nodes)) }));
+          const currentIds = new Set(dojoStateRef.current.mindMapNodes.map(n => n.id));
+          const pairs = pairsFromGroups(result.data.groups, nodes)
+              .filter(p => currentIds.has(p.keepId) && currentIds.has(p.dropId));
+          if (pairs.length === 0) return;
+          dispatch({ type: 'NodesMerged', pairs });
+      } catch (err) {
+          console.error("Merging similar nodes failed:", err);
+      } finally {
+          setIsMergingNodes(false);
+      }
+  };
+
+  const handleMergeSimilar = () => runMergePass(dojoStateRef.current.mindMapNodes);
+
+  // The automatic pass runs on the map the incoming nodes landed on, once enough of them have come in
+  useEffect(() => {
+      if (nodesSinceMergeRef.current < AUTO_MERGE_EVERY) return;
+      nodesSinceMergeRef.current = 0;
+      runMergePass(dojoState.mindMapNodes);
+  }, [dojoState.mindMapNodes]);
+
+  // The merge counter and the last reply error belong to one session
+  useEffect(() => {
+      setChatError(null);
+      nodesSinceMergeRef.current = 0;
+  }, [sessionId]);
+
+  // --- MESSAGE <-> NODE LINKS ---
+  // A selected node points both transcripts at its turns; a hovered turn lights up its nodes on the map
+  const [selectedMapNodeId, setSelectedMapNodeId] = useState<string | null>(null);
+  const [hoveredMessageId, setHoveredMessageId] = useState<string | null>(null);
+
+  const linkedMessageIds = useMemo(() => selectedMapNodeId
+      ? messageIdsForNode(selectedMapNodeId, dojoState.mindMapNodes, dojoState.conversationHistory)
+      : [], [selectedMapNodeId, dojoState.mindMapNodes, dojoState.conversationHistory]);
+
+  const hoveredNodeIds = useMemo(() => {
+      const message = hoveredMessageId && dojoState.conversationHistory.find(m => m.id === hoveredMessageId);
+      return message ? nodeIdsForMessage(message, dojoState.mindMapNodes) : [];
+  }, [hoveredMessageId, dojoState.mindMapNodes, dojoState.conversationHistory]);
+
+  const handleMapNodeSelect = useCallback((node: MindMapNode | null) => setSelectedMapNodeId(node?.id ?? null), []);
+
+  // --- PRACTICE-LANGUAGE CORRECTION ---
+  // Runs alongside the reply: it only needs the learner's own words. Callers don't wait for it,
+  // so a failure (e.g. a missing or locked key) is caught here and shown on the turn.
+  const requestCorrection = async (userMsg: ChatMessage, session: PromptContext) => {
+      try {
+          const result = await correctUserTurn(userMsg.text, session);
+          if (result.source !== 'model') {
+              dispatch({ type: 'CorrectionUnavailable', messageId: userMsg.id });
+              return;
+          }
+          const correction = toCorrection(result.data, userMsg.text);
+          if (!correction) return;
+          dispatch({ type: 'CorrectionReady', messageId: userMsg.id, correction });
+      } catch (err) {
+          console.error("Correction failed:", err);
+          dispatch({ type: 'CorrectionUnavailable', messageId: userMsg.id });
+      }
+  };
+
+  // --- VOCABULARY NOTEBOOK ---
+  const handleSaveVocabulary = (term: string, message: ChatMessage) => {
+      setVocabulary(addVocabEntry({
+          term,
+          gloss: message.translatedText || '',
+          sourceSentence: sentenceContaining(message.text, term),
+          sessionId,
+      }));
+  };
+
+  // Suggests new words from the agent's reply, plus the turn's key concept when it was said verbatim
+  const proposeVocabularyFrom = (brainData: BrainResponse, userText: string, agentText: string, fromSessionId: string) => {
+      const drafts: VocabDraft[] = (brainData.new_vocabulary || []).map(v => ({
+          term: v.term,
+          gloss: v.gloss,
+          sourceSentence: sentenceContaining(agentText, v.term),
+          sessionId: fromSessionId,
+      }));
+      const concept = brainData.key_concept;
+      if (concept) {
+          const spokenIn = [userText, agentText].find(t => t.toLowerCase().includes(concept.toLowerCase()));
+          if (spokenIn) {
+              drafts.push({
+                  term: concept,
+                  gloss: spokenIn === userText ? brainData.english_user_translation : brainData.english_agent_translation,
+                  sourceSentence: sentenceContaining(spokenIn, concept),
+                  sessionId: fromSessionId,
+              });
+          }
       }
+      if (drafts.length) setVocabulary(proposeVocabulary(drafts));
   };
 
   // --- TEXT CHAT HANDLER ---
+  // Streams the reply into the chat bubble, then fills in translations/guidance via analysis.
   const handleSendMessage = useCallback(async (text: string) => {
     if (!dojoState.mode) return;
 
-    const userMsg: ChatMessage = { role: 'user', text, timestamp: new Date() };
-    setDojoState(prev => ({
-      ...prev,
-      conversationHistory: [...prev.conversationHistory, userMsg]
-    }));
+    const userMsg: ChatMessage = { id: createMessageId(), role: 'user', text, timestamp: new Date() };
+    dispatch({ type: 'UserTurnCommitted', id: userMsg.id, text, at: userMsg.timestamp });
+    setChatError(null);
     setIsProcessing(true);
+    requestCorrection(userMsg, dojoState);
+
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    setIsTextStreaming(true);
 
     try {
       const currentHistory = [...dojoState.conversationHistory, userMsg];
-      const brainData = await generateDojoResponse(text, currentHistory, dojoState.mode);
-
-      const updatedUserMsg: ChatMessage = { ...userMsg, translatedText: brainData.english_user_translation };
-      const newDojoMsg: ChatMessage = { 
-        role: 'model', 
-        text: brainData.reply_text || "", 
-        translatedText: brainData.english_agent_translation,
-        timestamp: new Date() 
-      };
 
-      setDojoState(prev => {
-          const newHistory = [...prev.conversationHistory];
-          newHistory[newHistory.length - 1] = updatedUserMsg;
-          return {
-              ...prev,
-              conversationHistory: [...newHistory, newDojoMsg],
-              lastGuidance: brainData.coach_guidance || null,
-          };
-      });
+      let replyText: string;
+      try {
+          replyText = await streamDojoReply(
+              text,
+              currentHistory,
+              dojoState,
+              chunk => dispatch({ type: 'AgentChunk', text: chunk }),
+              controller.signal
+          );
+      } catch (streamErr) {
+          if (isAbortError(streamErr)) return;
+          // Stream failed outright: fall back to the one-shot structured call
+          console.warn("Reply stream failed, falling back:", streamErr);
+          dispatch({ type: 'StreamCleared' });
+          const fallback = await generateDojoResponse(text, currentHistory, dojoState);
+          // A canned fallback isn't a reply: commit nothing and let the learner retry
+          if (fallback.source !== 'model' || !fallback.data.reply_text) {
+              console.error("Reply unavailable:", fallback.source === 'model' ? 'empty reply' : fallback.error);
+              setChatError(labels.replyFailed);
+              return;
+          }
+          replyText = fallback.data.reply_text;
+      }
+
+      const newDojoMsg: ChatMessage = { id: createMessageId(), role: 'model', text: replyText, timestamp: new Date() };
+      setIsTextStreaming(false);
+      dispatch({ type: 'AgentTurnCommitted', id: newDojoMsg.id, text: replyText, at: newDojoMsg.timestamp });
+
+      const analysis = await analyzeInteraction(text, replyText, [...currentHistory, newDojoMsg], dojoState.mode);
+
+      // A fallback has no real translations or guidance, so leave the turn untranslated
+      if (analysis.source === 'model') {
+          const brainData = analysis.data;
+          dispatch({
+              type: 'AnalysisReady',
+              userMessageId: userMsg.id,
+              agentMessageId: newDojoMsg.id,
+              analysis: brainData,
+              guidance: toGuidance(brainData),
+          });
+          proposeVocabularyFrom(brainData, text, replyText, sessionId);
+      } else {
+          console.warn("Analysis unavailable:", analysis.error);
+      }
 
       // Update Graph
-      triggerGraphUpdate(`User: ${text}\nAgent: ${brainData.reply_text}`);
+      triggerGraphUpdate(`User: ${text}\nAgent: ${replyText}`, [userMsg.id, newDojoMsg.id]);
 
     } catch (err) {
       console.error("Error in loop:", err);
+      setChatError(labels.replyFailed);
     } finally {
+      if (replyAbortRef.current === controller) replyAbortRef.current = null;
+      dispatch({ type: 'StreamCleared' });
+      setIsTextStreaming(false);
       setIsProcessing(false);
     }
-  }, [dojoState.conversationHistory, dojoState.mode, dojoState.mindMapNodes]); 
+  }, [dojoState, sessionId, labels]); 
+
+  const handleCancelReply = useCallback(() => {
+      replyAbortRef.current?.abort();
+  }, []);
+
+  // --- STEERING FROM THE MAP ---
+  // A picked potential node becomes active under the current focus, then the conversation is nudged toward it:
+  // a generated opener in text mode, a contextual update to the live agent in voice mode. The map only
+  // records the steer once the nudge goes out; without a model opener there is nothing to send.
+  const handleSteerToNode = async (node: MindMapNode) => {
+      const steer = (message: { id: string; text: string } | null) => dispatch({
+          type: 'SteeredToNode',
+          nodeId: node.id,
+          reason: labels.steeredTo,
+          message,
+          at: new Date(),
+      });
+
+      if (isVoiceConnected) {
+          steer({ id: createMessageId(), text: `${labels.steeredTo}: ${node.label}` });
+          voiceRef.current?.sendContextualUpdate(
+              `The learner wants to move the conversation toward "${node.label}"` +
+              `${node.description ? ` (${node.description})` : ''}. Bring it up naturally in your next turn.`
+          );
+          return;
+      }
+
+      setIsProcessing(true);
+      setChatError(null);
+      const result = await generateTopicOpener(node, dojoState.conversationHistory, dojoState);
+      setIsProcessing(false);
+      if (result.source !== 'model') {
+          console.error("Topic opener unavailable:", result.error);
+          setChatError(labels.openerFailed);
+          return;
+      }
+      steer(null);
+      handleSendMessage(result.data.opener);
+  };
 
   // --- VOICE HANDLERS (Memoized to prevent Widget re-renders) ---
   
   // 1. Visual Stream Update
   const handleVoiceUserTranscript = useCallback((text: string) => {
-      setStreamingUser(text);
+      dispatch({ type: 'UserTurnStarted', text });
   }, []);
 
   // 2. Agent Stream Update
   const handleVoiceAgentResponse = useCallback((text: string) => {
-      streamingAgentRef.current += text;
-      setStreamingAgent(prev => prev + text);
-  }, []);
-
-  // 3. Commit User Turn (Immediate when Agent Interrupts or Session signals end of turn)
-  const handleVoiceUserTurnComplete = useCallback((text: string) => {
-      setStreamingUser(''); // Clear streaming UI as we commit to history
-      
-      if (!text) return;
-
-      const userMsg: ChatMessage = { 
-          role: 'user', 
-          text: text, 
-          translatedText: undefined, // Pending Gemini analysis
-          timestamp: new Date() 
-      };
-      
-      setDojoState(prev => ({
-          ...prev,
-          conversationHistory: [...prev.conversationHistory, userMsg]
-      }));
+      dispatch({ type: 'AgentChunk', text });
   }, []);
 
-  // 4. Commit Agent Turn (End of cycle)
-  const handleAgentTurnComplete = useCallback(async () => {
-      const finalText = streamingAgentRef.current;
-      setStreamingAgent('');
-      streamingAgentRef.current = '';
-
-      if (!finalText) {
-          // Sometimes 11Labs might send audio but empty text if it was non-verbal? 
-          // Just return to be safe.
-          return;
-      }
-
-      const agentMsg: ChatMessage = { role: 'model', text: finalText, timestamp: new Date() };
-      
-      // A. Add Agent Msg to history state immediately
-      let currentHistoryForAnalysis: ChatMessage[] = [];
-      setDojoState(state => {
-          const updatedHist = [...state.conversationHistory, agentMsg];
-          currentHistoryForAnalysis = updatedHist; // Capture for use in async
-          return { ...state, conversationHistory: updatedHist };
-      });
+  // 3. Commit User Turn (the segmenter ends it when the agent answers or the learner goes quiet)
+  const handleVoiceUserTurnComplete = useCallback((turn: VoiceTurn, audio: Promise<AudioClip | null>) => {
+      const { text, ...timing } = turn;
+      const userMsg: ChatMessage = { id: createMessageId(), role: 'user', text, timing, timestamp: turn.startedAt };
+      dispatch({ type: 'UserTurnCommitted', id: userMsg.id, text, at: userMsg.timestamp, timing });
+      audio.then(clip => clip && storeTake(sessionId, userMsg.id, clip, 0));
+
+      lastVoiceUserTurnRef.current = userMsg;
+      requestCorrection(userMsg, dojoStateRef.current);
+  }, [sessionId, storeTake]);
+
+  // 4. Context for the local voice agent, read when it answers rather than when the session started
+  const getVoiceAgentContext = useCallback(() => ({
+      history: dojoStateRef.current.conversationHistory,
+      session: dojoStateRef.current,
+  }), []);
+
+  // 5. Commit Agent Turn (End of cycle). A cut-off reply keeps only what was actually said.
+  const handleAgentTurnComplete = useCallback(async (turn: VoiceTurn) => {
+      const { text: finalText, ...timing } = turn;
+      const agentMsg: ChatMessage = { id: createMessageId(), role: 'model', text: finalText, timing, timestamp: turn.startedAt };
+      dispatch({ type: 'AgentTurnCommitted', id: agentMsg.id, text: finalText, at: agentMsg.timestamp, timing });
+
+      // The learner turn this reply answers. A second reply to the same turn leaves its translation alone.
+      const userTurn = lastVoiceUserTurnRef.current;
+      lastVoiceUserTurnRef.current = null;
+      const historyForAnalysis = [...dojoStateRef.current.conversationHistory, agentMsg];
 
       setIsProcessing(true);
       try {
-          // B. Find the last user message to analyze context
-          let lastUserText = "User input";
-          for (let i = currentHistoryForAnalysis.length - 1; i >= 0; i--) {
-              if (currentHistoryForAnalysis[i].role === 'user') {
-                  lastUserText = currentHistoryForAnalysis[i].text;
-                  break;
-              }
-          }
+          // Context for the analysis: the answered turn, or the latest thing the learner said
+          const lastUserText = userTurn?.text
+              || [...historyForAnalysis].reverse().find(m => m.role === 'user')?.text
+              || "User input";
 
-          // C. Run Gemini Analysis
-          const brainData = await analyzeInteraction(
+          const analysis = await analyzeInteraction(
               lastUserText, 
               finalText, 
-              currentHistoryForAnalysis, 
-              dojoState.mode || 'adaptive'
+              historyForAnalysis, 
+              dojoStateRef.current.mode || 'adaptive'
           );
+          const brainData = analysis.data;
           
-          // D. Update History with Translations
-          setDojoState(prev => {
-              const newHist = [...prev.conversationHistory];
-              
-              // Find matching user message to update translation
-              const userIdx = newHist.map(m => m.role).lastIndexOf('user');
-              if (userIdx !== -1) {
-                  // Only update if it doesn't have translation yet
-                  const msg = newHist[userIdx];
-                  if (!msg.translatedText) {
-                       newHist[userIdx] = { ...msg, translatedText: brainData.english_user_translation };
-                  }
-              }
-              
-              // Find matching agent message
-              const agentIdx = newHist.map(m => m.role).lastIndexOf('model');
-              if (agentIdx !== -1) {
-                   newHist[agentIdx] = { ...newHist[agentIdx], translatedText: brainData.english_agent_translation };
-              }
-              
-              return {
-                  ...prev,
-                  conversationHistory: newHist,
-                  lastGuidance: brainData.coach_guidance || null
-              };
-          });
+          // Translations go onto these two turns by id, however many turns have been added since
+          if (analysis.source === 'model') {
+              dispatch({
+                  type: 'AnalysisReady',
+                  userMessageId: userTurn?.id || null,
+                  agentMessageId: agentMsg.id,
+                  analysis: brainData,
+                  guidance: toGuidance(brainData),
+              });
+          }
+
+          if (analysis.source === 'model') proposeVocabularyFrom(brainData, lastUserText, finalText, sessionId);
 
           // E. Update Graph
-          await triggerGraphUpdate(`User: ${lastUserText}\nAgent: ${finalText}`);
+          await triggerGraphUpdate(`User: ${lastUserText}\nAgent: ${finalText}`, userTurn ? [userTurn.id, agentMsg.id] : [agentMsg.id]);
 
       } catch (err) {
           console.error("Analysis Error", err);
       } finally {
           setIsProcessing(false);
       }
-  }, [dojoState.mode]); 
+  }, [sessionId, labels]); 
 
+  // Starts a fresh session; the previous one stays in the library. mode: null brings back the start flow.
   const handleReset = () => {
-    setDojoState({
-        ...INITIAL_STATE,
-        conversationHistory: [] 
+    setSessionId(createSessionId());
+    dispatch({ type: 'SessionLoaded', state: { ...INITIAL_STATE, conversationHistory: [] } });
+    clearStreaming();
+    setOpenSection('transcript');
+  };
+
+  const handleStartSession = ({ mode, practiceLanguage, uiLanguage: chosenUiLanguage, goal }: SessionStartOptions) => {
+    setUiLanguage(chosenUiLanguage);
+    dispatch({
+        type: 'SessionStarted',
+        mode,
+        practiceLanguage,
+        goal: goal || null,
+        greeting: { ...INITIAL_STATE.conversationHistory[0], id: createMessageId(), timestamp: new Date() },
+    });
+  };
+
+  // Mid-session switch: logged as a system turn and as a marker node hanging off the latest active topic
+  const handleSwitchMode = (to: Exclude<ConversationMode, null>) => {
+    const from = dojoState.mode;
+    if (from === to) return;
+    const at = new Date();
+    dispatch({
+        type: 'ModeSwitched',
+        to,
+        messageId: createMessageId(),
+        messageText: `${labels.modeSwitched}: ${from} → ${to}`,
+        markerLabel: `${labels.mode}: ${to}`,
+        markerDescription: `${labels.modeSwitched} ${at.toLocaleTimeString()} (${from} → ${to})`,
+        at,
+    });
+  };
+
+  // Starts a new session framed by the scenario: the persona opens, and the root node carries the scenario title
+  const handleStartScenario = (scenario: Scenario) => {
+    setSessionId(createSessionId());
+    dispatch({
+        type: 'SessionLoaded',
+        state: {
+            ...INITIAL_STATE,
+            mode: scenario.mode,
+            scenario,
+            currentTopic: scenario.title,
+            mindMapNodes: [{ ...INITIAL_NODES[0], label: scenario.title, description: scenario.setting || INITIAL_NODES[0].description }],
+            conversationHistory: [{ id: createMessageId(), role: 'model', text: scenario.openingLine, timestamp: new Date() }],
+        },
     });
-    setStreamingUser('');
-    setStreamingAgent('');
-    streamingAgentRef.current = '';
+    clearStreaming();
+    setIsScenarioLibraryOpen(false);
     setOpenSection('transcript');
   };
 
+  const latestFocus = dojoState.focusHistory?.[dojoState.focusHistory.length - 1];
+  // Only voice turns are timed, so text sessions have no delivery metrics
+  const deliveryMetrics = useMemo(
+      () => computeDeliveryMetrics(dojoState.conversationHistory, dojoState.practiceLanguage),
+      [dojoState.conversationHistory, dojoState.practiceLanguage]
+  );
+
   const toggleSection = (section: string) => {
       setOpenSection(prev => prev === section ? null : section);
   };
@@ -330,15 +699,84 @@ function App() {
                </button>
             </div>
 
+            {dojoState.mode && (
+                <select
+                    value={dojoState.mode}
+                    onChange={(e) => handleSwitchMode(e.target.value as Exclude<ConversationMode, null>)}
+                    title={labels.mode}
+                    className="text-xs font-medium bg-slate-800 text-slate-200 px-2 py-1.5 rounded-md border border-slate-700 outline-none"
+                >
+                    <option value="adaptive">{labels.modeAdaptive}</option>
+                    <option value="topical">{labels.modeTopical}</option>
+                    <option value="social">{labels.modeSocial}</option>
+                    <option value="debate">{labels.modeDebate}</option>
+                </select>
+            )}
+
             <button 
-                onClick={handleDownload}
+                onClick={() => setIsScenarioLibraryOpen(true)}
                 className="flex items-center gap-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded-md border border-slate-700 transition-colors"
             >
                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
-                  <path d="M10.75 2.75a.75.75 0 0 0-1.5 0v8.614L6.295 8.235a.75.75 0 1 0-1.09 1.03l4.25 4.5a.75.75 0 0 0 1.09 0l4.25-4.5a.75.75 0 0 0-1.09-1.03l-2.955 3.129V2.75Z" />
-                  <path d="M3.5 12.75a.75.75 0 0 0-1.5 0v2.5A2.75 2.75 0 0 0 4.75 18h10.5A2.75 2.75 0 0 0 18 15.25v-2.5a.75.75 0 0 0-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5Z" />
+                  <path d="M10 9a3 3 0 1 0 0-6 3 3 0 0 0 0 6ZM6 8a2 2 0 1 1-4 0 2 2 0 0 1 4 0ZM1.49 15.326a.78.78 0 0 1-.358-.442 3 3 0 0 1 4.308-3.516 6.484 6.484 0 0 0-1.905 3.959c-.023.222-.014.442.025.654a4.97 4.97 0 0 1-2.07-.655ZM16.44 15.98a4.97 4.97 0 0 0 2.07-.654.78.78 0 0 0 .357-.442 3 3 0 0 0-4.308-3.517 6.484 6.484 0 0 1 1.907 3.96 2.32 2.32 0 0 1-.026.654ZM18 8a2 2 0 1 1-4 0 2 2 0 0 1 4 0ZM5.304 16.19a.844.844 0 0 1-.277-.71 5 5 0 0 1 9.947 0 .843.843 0 0 1-.277.71A6.975 6.975 0 0 1 10 18a6.974 6.974 0 0 1-4.696-1.81Z" />
+                </svg>
+                {dojoState.scenario ? dojoState.scenario.title : labels.scenarios}
+            </button>
+
+            {dojoState.conversationHistory.some(m => m.role === 'user') && (
+                <button 
+                    onClick={handleEndSession}
+                    disabled={isGeneratingReport}
+                    className="text-xs font-medium bg-emerald-700/80 hover:bg-emerald-600 disabled:opacity-60 text-white px-3 py-1.5 rounded-md transition-colors"
+                >
+                    {isGeneratingReport ? labels.generatingReport : labels.endSession}
+                </button>
+            )}
+            {dojoState.report && (
+                <button 
+                    onClick={() => setIsReportOpen(true)}
+                    title={labels.coachingReport}
+                    className="p-1.5 text-emerald-400 hover:text-emerald-300 rounded-md hover:bg-slate-800 transition-colors"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                      <path d="M15.5 2A1.5 1.5 0 0 0 14 3.5v13a1.5 1.5 0 0 0 1.5 1.5h1a1.5 1.5 0 0 0 1.5-1.5v-13A1.5 1.5 0 0 0 16.5 2h-1ZM9.5 6A1.5 1.5 0 0 0 8 7.5v9A1.5 1.5 0 0 0 9.5 18h1a1.5 1.5 0 0 0 1.5-1.5v-9A1.5 1.5 0 0 0 10.5 6h-1ZM3.5 10A1.5 1.5 0 0 0 2 11.5v5A1.5 1.5 0 0 0 3.5 18h1A1.5 1.5 0 0 0 6 16.5v-5A1.5 1.5 0 0 0 4.5 10h-1Z" />
+                    </svg>
+                </button>
+            )}
+
+            <button 
+                onClick={() => setIsNotebookOpen(true)}
+                title={labels.vocabularyNotebook}
+                className="relative p-1.5 text-slate-400 hover:text-amber-300 rounded-md hover:bg-slate-800 transition-colors"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M10.75 16.82A7.462 7.462 0 0 1 15 15.5c.71 0 1.396.098 2.046.282A.75.75 0 0 0 18 15.06v-11a.75.75 0 0 0-.546-.721A9.006 9.006 0 0 0 15 3a8.963 8.963 0 0 0-4.25 1.065V16.82ZM9.25 4.065A8.963 8.963 0 0 0 5 3c-.85 0-1.673.118-2.454.339A.75.75 0 0 0 2 4.06v11a.75.75 0 0 0 .954.721A7.506 7.506 0 0 1 5 15.5c1.579 0 3.042.487 4.25 1.32V4.065Z" />
+                </svg>
+                {getDueEntries(vocabulary).length > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-[9px] font-bold text-slate-900 flex items-center justify-center">
+                        {getDueEntries(vocabulary).length}
+                    </span>
+                )}
+            </button>
+
+            <ExportMenu onExport={handleExport} onImport={handleImport} labels={labels} />
+            <button 
+                onClick={() => setIsLibraryOpen(true)}
+                className="flex items-center gap-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded-md border border-slate-700 transition-colors"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M2 4.5A2.5 2.5 0 0 1 4.5 2h11a2.5 2.5 0 0 1 0 5h-11A2.5 2.5 0 0 1 2 4.5ZM2.75 9.083a.75.75 0 0 0 0 1.5h14.5a.75.75 0 0 0 0-1.5H2.75ZM2.75 12.663a.75.75 0 0 0 0 1.5h14.5a.75.75 0 0 0 0-1.5H2.75ZM2.75 16.25a.75.75 0 0 0 0 1.5h14.5a.75.75 0 1 0 0-1.5H2.75Z" />
+                </svg>
+                {labels.sessions}
+            </button>
+            <button 
+                onClick={() => setIsSettingsOpen(true)}
+                title={labels.settings}
+                className="p-1.5 text-slate-400 hover:text-white rounded-md hover:bg-slate-800 transition-colors"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path fillRule="evenodd" d="M7.84 1.804A1 1 0 0 1 8.82 1h2.36a1 1 0 0 1 .98.804l.331 1.652a6.993 6.993 0 0 1 1.929 1.115l1.598-.54a1 1 0 0 1 1.186.447l1.18 2.044a1 1 0 0 1-.205 1.251l-1.267 1.113a7.047 7.047 0 0 1 0 2.228l1.267 1.113a1 1 0 0 1 .206 1.25l-1.18 2.045a1 1 0 0 1-1.187.447l-1.598-.54a6.993 6.993 0 0 1-1.929 1.115l-.33 1.652a1 1 0 0 1-.98.804H8.82a1 1 0 0 1-.98-.804l-.331-1.652a6.993 6.993 0 0 1-1.929-1.115l-1.598.54a1 1 0 0 1-1.186-.447l-1.18-2.044a1 1 0 0 1 .205-1.251l1.267-1.114a7.05 7.05 0 0 1 0-2.227L1.821 7.773a1 1 0 0 1-.206-1.25l1.18-2.045a1 1 0 0 1 1.187-.447l1.598.54A6.992 6.992 0 0 1 7.51 3.456l.33-1.652ZM10 13a3 3 0 1 0 0-6 3 3 0 0 0 0 6Z" clipRule="evenodd" />
                 </svg>
-                {labels.save}
             </button>
             <button 
                 onClick={handleReset}
@@ -350,6 +788,14 @@ function App() {
       </header>
 
       <main className="flex-1 p-4 md:p-6 lg:p-8 overflow-hidden">
+        {!dojoState.mode ? (
+          <ModeSelector
+              onStart={handleStartSession}
+              onOpenScenarios={() => setIsScenarioLibraryOpen(true)}
+              uiLanguage={uiLanguage}
+              labels={labels}
+          />
+        ) : (
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 h-full max-w-7xl mx-auto">
           
           {/* Left Col: Analysis Accordion */}
@@ -376,10 +822,19 @@ function App() {
                 
                 {openSection === 'map' && (
                     <div className="flex-1 min-h-0 relative overflow-hidden rounded-b-xl animate-fade-in flex flex-col">
-                       {/* Map Container now manages its own scrolling */}
+                       {/* Map Container manages its own zoom and pan */}
                        <MindMap 
                           nodes={dojoState.mindMapNodes} 
                           links={dojoState.mindMapLinks} 
+                          onSteer={handleSteerToNode}
+                          canSteer={!isProcessing && !streamingAgent && !streamingUser}
+                          onEdit={handleGraphEdit}
+                          onMergeSimilar={handleMergeSimilar}
+                          isMerging={isMergingNodes}
+                          onUndo={handleUndoGraph}
+                          canUndo={graphUndo.length > 0}
+                          onNodeSelect={handleMapNodeSelect}
+                          hoverNodeIds={hoveredNodeIds}
                           labels={labels}
                         />
                     </div>
@@ -424,23 +879,65 @@ function App() {
                            history={dojoState.conversationHistory} 
                            streamingAgent={streamingAgent}
                            streamingUser={streamingUser}
+                           highlightedMessageIds={linkedMessageIds}
+                           onMessageHover={setHoveredMessageId}
                            labels={labels}
                        />
                     </div>
                 )}
             </div>
 
+            {/* Accordion Item 3: Guidance Timeline */}
+            <div className={`flex flex-col transition-all duration-300 ease-in-out rounded-xl border ${openSection === 'guidance' ? 'flex-[2] border-slate-700 bg-slate-900/50' : 'flex-none border-transparent hover:bg-slate-800/50'}`}>
+               <button 
+                    onClick={() => toggleSection('guidance')}
+                    className="w-full flex items-center justify-between p-4 focus:outline-none"
+                >
+                    <div className="flex items-center gap-3">
+                        <div className={`p-1.5 rounded-md ${openSection === 'guidance' ? 'bg-amber-500/20 text-amber-400' : 'bg-slate-800 text-slate-400'}`}>
+                           <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                             <path fillRule="evenodd" d="M4.848 2.771A49.144 49.144 0 0 1 12 2.25c2.43 0 4.817.178 7.152.52 1.978.292 3.348 2.024 3.348 3.97v6.02c0 1.946-1.37 3.678-3.348 3.97a48.901 48.901 0 0 1-3.476.383.39.39 0 0 0-.297.17l-2.755 4.133a.75.75 0 0 1-1.248 0l-2.755-4.133a.39.39 0 0 0-.297-.17 48.9 48.9 0 0 1-3.476-.384c-1.978-.29-3.348-2.024-3.348-3.97V6.741c0-1.946 1.37-3.68 3.348-3.97ZM6.75 8.25a.75.75 0 0 1 .75-.75h9a.75.75 0 0 1 0 1.5h-9a.75.75 0 0 1-.75-.75Zm.75 2.25a.75.75 0 0 0 0 1.5H12a.75.75 0 0 0 0-1.5H7.5Z" clipRule="evenodd" />
+                           </svg>
+                        </div>
+                        <span className={`font-semibold text-sm ${openSection === 'guidance' ? 'text-white' : 'text-slate-400'}`}>{labels.guidanceTimeline}</span>
+                    </div>
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className={`w-4 h-4 text-slate-500 transition-transform ${openSection === 'guidance' ? 'rotate-180' : ''}`}>
+                       <path strokeLinecap="round" strokeLinejoin="round" d="m19.5 8.25-7.5 7.5-7.5-7.5" />
+                    </svg>
+                </button>
+                
+                {openSection === 'guidance' && (
+                    <div className="flex-1 min-h-0 rounded-b-xl overflow-hidden animate-fade-in">
+                       <GuidanceTimeline history={dojoState.conversationHistory} labels={labels} />
+                    </div>
+                )}
+            </div>
+
           </div>
 
           {/* Right Col: Chat & Voice */}
           <div className="lg:col-span-4 h-full min-h-0 flex flex-col gap-4">
+             <TangentGauge
+                  score={latestFocus ? latestFocus.score : 0}
+                  history={(dojoState.focusHistory || []).map(f => f.score)}
+                  hint={latestFocus?.redirect}
+                  labels={labels}
+             />
+
              <VoiceWidget 
+                  ref={voiceRef}
+                  onConnectionChange={setIsVoiceConnected}
                   onUserTranscript={handleVoiceUserTranscript}
                   onAgentResponse={handleVoiceAgentResponse}
                   onUserTurnComplete={handleVoiceUserTurnComplete}
                   onTurnComplete={handleAgentTurnComplete}
+                  getAgentContext={getVoiceAgentContext}
+                  practiceLanguage={dojoState.practiceLanguage}
+                  onOpenSettings={() => setIsSettingsOpen(true)}
                   labels={labels}
              />
+
+             {deliveryMetrics.turns.length > 0 && <DeliveryDashboard metrics={deliveryMetrics} labels={labels} />}
              
              <div className="flex-1 overflow-hidden shadow-2xl rounded-2xl border border-slate-800 bg-slate-900/80 backdrop-blur-md">
                  <ChatInterface 
@@ -449,13 +946,65 @@ function App() {
                    isLoading={isProcessing}
                    streamingMessage={streamingAgent}
                    streamingUserText={streamingUser}
+                   onCancel={isTextStreaming ? handleCancelReply : undefined}
+                   onSaveVocabulary={handleSaveVocabulary}
+                   highlightedMessageIds={linkedMessageIds}
+                   onMessageHover={setHoveredMessageId}
+                   turnAudio={turnAudio.sessionId === sessionId ? turnAudio.takes : undefined}
+                   canRecordTake={!isVoiceConnected}
+                   onRecordTake={handleRecordTake}
+                   error={chatError}
+                   onDismissError={() => setChatError(null)}
                    labels={labels}
                  />
              </div>
           </div>
 
         </div>
+        )}
       </main>
+
+      {isLibraryOpen && (
+          <SessionLibrary
+              currentSessionId={sessionId}
+              onOpenSession={handleOpenSession}
+              onDeleteSession={handleDeleteSession}
+              onClose={() => setIsLibraryOpen(false)}
+              labels={labels}
+          />
+      )}
+
+      {isScenarioLibraryOpen && (
+          <ScenarioLibrary
+              activeScenarioId={dojoState.scenario?.id}
+              onStartScenario={handleStartScenario}
+              onClose={() => setIsScenarioLibraryOpen(false)}
+              labels={labels}
+          />
+      )}
+
+      {isReportOpen && dojoState.report && (
+          <SessionReportPanel
+              report={dojoState.report}
+              history={dojoState.conversationHistory}
+              onExport={handleExportReport}
+              onClose={() => setIsReportOpen(false)}
+              labels={labels}
+          />
+      )}
+
+      {isNotebookOpen && (
+          <VocabularyNotebook
+              entries={vocabulary}
+              onChange={setVocabulary}
+              onClose={() => setIsNotebookOpen(false)}
+              labels={labels}
+          />
+      )}
+
+      {isSettingsOpen && (
+          <SettingsPanel onClose={() => setIsSettingsOpen(false)} labels={labels} />
+      )}
     </div>
   );
 }
@@ -1,6 +1,10 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { ChatMessage, TurnAudio } from '../types';
 import { LabelSet } from '../constants/translations';
+import GuidanceNote from './GuidanceNote';
+import CorrectionDiff from './CorrectionDiff';
+import TurnAudioControls from './TurnAudioControls';
+import { AudioClip } from '../services/turnRecorder';
 
 interface ChatInterfaceProps {
   history: ChatMessage[];
@@ -8,6 +12,15 @@ interface ChatInterfaceProps {
   isLoading: boolean;
   streamingMessage?: string | null; // Agent streaming
   streamingUserText?: string | null; // User streaming
+  onCancel?: () => void; // Present while a text reply is streaming
+  onSaveVocabulary?: (term: string, message: ChatMessage) => void;
+  highlightedMessageIds?: string[]; // Turns linked to the selected map node
+  onMessageHover?: (messageId: string | null) => void;
+  turnAudio?: Record<string, TurnAudio[]>; // Recorded takes by message id
+  canRecordTake?: boolean;
+  onRecordTake?: (messageId: string, clip: AudioClip) => void;
+  error?: string | null; // Why the last reply or opener failed
+  onDismissError?: () => void;
   labels: LabelSet;
 }
 
@@ -17,10 +30,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   isLoading, 
   streamingMessage,
   streamingUserText,
+  onCancel,
+  onSaveVocabulary,
+  highlightedMessageIds,
+  onMessageHover,
+  turnAudio,
+  canRecordTake = true,
+  onRecordTake,
+  error,
+  onDismissError,
   labels
 }) => {
   const [input, setInput] = useState('');
   const endOfMsgRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const highlighted = useMemo(() => new Set(highlightedMessageIds), [highlightedMessageIds]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,9 +53,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setInput('');
   };
 
+  // Saves the text selected inside the bubble, or asks for a word when nothing is selected
+  const handleSaveWord = (msg: ChatMessage) => {
+    if (!onSaveVocabulary) return;
+    const selected = window.getSelection()?.toString().trim();
+    const term = selected && msg.text.includes(selected)
+      ? selected
+      : window.prompt(labels.saveWordPrompt, '')?.trim();
+    if (term) onSaveVocabulary(term, msg);
+  };
+
   useEffect(() => {
     endOfMsgRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [history, streamingMessage, streamingUserText]);
+  }, [history, streamingMessage, streamingUserText, error]);
+
+  // Jump to the first linked turn when the selection changes, not on every new message
+  const firstHighlighted = highlightedMessageIds?.[0];
+  useEffect(() => {
+    if (!firstHighlighted) return;
+    listRef.current
+      ?.querySelector(`[data-message-id="${CSS.escape(firstHighlighted)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [firstHighlighted]);
+
+  const hoverProps = (msg: ChatMessage) => onMessageHover ? {
+    onMouseEnter: () => onMessageHover(msg.id),
+    onMouseLeave: () => onMessageHover(null),
+  } : {};
 
   return (
     <div className="flex flex-col h-full">
@@ -39,7 +87,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         <h3 className="text-slate-200 font-semibold text-sm tracking-wide">Transcript</h3>
       </div>
       
-      <div className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
         {history.length === 0 && !streamingUserText && (
            <div className="flex flex-col items-center justify-center h-full text-center p-8 opacity-50">
                <div className="text-4xl mb-4">👋</div>
@@ -48,23 +96,72 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         )}
         
         {/* Render History */}
-        {history.map((msg, idx) => (
+        {history.map(msg => msg.role === 'system' ? (
+          <div
+            key={msg.id}
+            data-message-id={msg.id}
+            {...hoverProps(msg)}
+            className={`flex items-center gap-3 text-[10px] uppercase tracking-wider ${highlighted.has(msg.id) ? 'text-sky-300' : 'text-amber-400/80'}`}
+          >
+            <div className="flex-1 border-t border-dashed border-amber-500/30" />
+            <span>{msg.text}</span>
+            <div className="flex-1 border-t border-dashed border-amber-500/30" />
+          </div>
+        ) : (
           <div
-            key={idx}
+            key={msg.id}
+            data-message-id={msg.id}
+            {...hoverProps(msg)}
             className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
           >
-            <span className="text-[10px] text-slate-500 mb-1 px-1 uppercase tracking-wider">
-                {msg.role === 'user' ? labels.you : labels.dojo}
-            </span>
+            <div className={`flex items-center gap-1.5 mb-1 px-1 group ${msg.role === 'user' ? 'flex-row-reverse' : ''}`}>
+              <span className="text-[10px] text-slate-500 uppercase tracking-wider">
+                  {msg.role === 'user' ? labels.you : labels.dojo}
+              </span>
+              {msg.timing?.interrupted && (
+                <span className="text-[10px] text-amber-400/80 italic" title={labels.interruptedHint}>{labels.interrupted}</span>
+              )}
+              {onSaveVocabulary && (
+                <button
+                  onMouseDown={(e) => e.preventDefault()} // keep the text selection alive
+                  onClick={() => handleSaveWord(msg)}
+                  title={labels.saveToNotebook}
+                  className="text-slate-600 hover:text-amber-300 transition-colors"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                    <path fillRule="evenodd" d="M10 2c-1.716 0-3.408.106-5.07.31C3.806 2.45 3 3.414 3 4.517V17.25a.75.75 0 0 0 1.075.676L10 15.082l5.925 2.844A.75.75 0 0 0 17 17.25V4.517c0-1.103-.806-2.068-1.93-2.207A41.403 41.403 0 0 0 10 2Z" clipRule="evenodd" />
+                  </svg>
+                </button>
+              )}
+            </div>
             <div
               className={`max-w-[85%] rounded-2xl px-5 py-3 text-sm leading-relaxed shadow-sm ${
                 msg.role === 'user'
                   ? 'bg-gradient-to-br from-blue-600 to-blue-700 text-white rounded-tr-none'
                   : 'bg-slate-800 border border-slate-700 text-slate-200 rounded-tl-none'
-              }`}
+              } ${highlighted.has(msg.id) ? 'ring-2 ring-sky-400/70 ring-offset-2 ring-offset-slate-900' : ''}`}
             >
               {msg.text}
             </div>
+            {/* Spoken learner turns can be played back and re-recorded */}
+            {msg.role === 'user' && onRecordTake && (msg.timing || turnAudio?.[msg.id]) && (
+              <TurnAudioControls
+                takes={turnAudio?.[msg.id] || []}
+                canRecord={canRecordTake}
+                onRecorded={clip => onRecordTake(msg.id, clip)}
+                align="right"
+                labels={labels}
+              />
+            )}
+            {msg.correction && (
+              <CorrectionDiff originalText={msg.text} correction={msg.correction} labels={labels} />
+            )}
+            {msg.correctionUnavailable && !msg.correction && (
+              <span className="text-[10px] text-slate-500 mt-1 px-1">{labels.correctionUnavailable}</span>
+            )}
+            {msg.guidance && (
+              <GuidanceNote guidance={msg.guidance} align={msg.role === 'user' ? 'right' : 'left'} labels={labels} />
+            )}
           </div>
         ))}
 
@@ -100,6 +197,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
              </div>
           </div>
         )}
+
+        {error && (
+          <div role="alert" className="flex items-start justify-between gap-3 rounded-xl px-4 py-3 text-xs bg-rose-900/20 border border-rose-800 text-rose-200">
+            <span>{error}</span>
+            {onDismissError && (
+              <button onClick={onDismissError} className="shrink-0 text-rose-300 hover:text-white">{labels.dismiss}</button>
+            )}
+          </div>
+        )}
         <div ref={endOfMsgRef} />
       </div>
 
@@ -113,15 +219,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             className="w-full bg-slate-950 border border-slate-700 text-slate-200 rounded-xl pl-4 pr-12 py-3 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 placeholder-slate-600 text-sm shadow-inner transition-all"
             disabled={isLoading || !!streamingMessage || !!streamingUserText}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim() || !!streamingMessage || !!streamingUserText}
-            className="absolute right-2 p-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition-colors flex items-center justify-center"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
-              <path d="M3.105 2.289a.75.75 0 0 0-.826.95l1.414 4.925A1.5 1.5 0 0 0 5.135 9.25h6.115a.75.75 0 0 1 0 1.5H5.135a1.5 1.5 0 0 0-1.442 1.086l-1.414 4.926a.75.75 0 0 0 .826.95 28.896 28.896 0 0 0 15.293-7.154.75.75 0 0 0 0-1.115A28.897 28.897 0 0 0 3.105 2.289Z" />
-            </svg>
-          </button>
+          {onCancel ? (
+            <button
+              type="button"
+              onClick={onCancel}
+              title={labels.stopGenerating}
+              className="absolute right-2 p-1.5 bg-rose-600 hover:bg-rose-500 text-white rounded-lg transition-colors flex items-center justify-center"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                <path d="M5.25 3A2.25 2.25 0 0 0 3 5.25v9.5A2.25 2.25 0 0 0 5.25 17h9.5A2.25 2.25 0 0 0 17 14.75v-9.5A2.25 2.25 0 0 0 14.75 3h-9.5Z" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isLoading || !input.trim() || !!streamingMessage || !!streamingUserText}
+              className="absolute right-2 p-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white rounded-lg transition-colors flex items-center justify-center"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                <path d="M3.105 2.289a.75.75 0 0 0-.826.95l1.414 4.925A1.5 1.5 0 0 0 5.135 9.25h6.115a.75.75 0 0 1 0 1.5H5.135a1.5 1.5 0 0 0-1.442 1.086l-1.414 4.926a.75.75 0 0 0 .826.95 28.896 28.896 0 0 0 15.293-7.154.75.75 0 0 0 0-1.115A28.897 28.897 0 0 0 3.105 2.289Z" />
+              </svg>
+            </button>
+          )}
         </div>
       </form>
     </div>
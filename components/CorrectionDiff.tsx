@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Correction, CorrectionCategory } from '../types';
+import { LabelSet } from '../constants/translations';
+import { diffWords } from '../services/correction';
+
+interface CorrectionDiffProps {
+  originalText: string;
+  correction: Correction;
+  labels: LabelSet;
+}
+
+const CATEGORY_STYLES: Record<CorrectionCategory, string> = {
+  grammar: 'border-amber-500/50 text-amber-300',
+  word_choice: 'border-violet-500/50 text-violet-300',
+  register: 'border-pink-500/50 text-pink-300',
+};
+
+// Inline diff of the learner's turn against the corrected version, with the individual errors below
+const CorrectionDiff: React.FC<CorrectionDiffProps> = ({ originalText, correction, labels }) => {
+  const [expanded, setExpanded] = useState(false);
+  const segments = diffWords(originalText, correction.correctedText);
+
+  const categoryLabels: Record<CorrectionCategory, string> = {
+    grammar: labels.correctionGrammar,
+    word_choice: labels.correctionWordChoice,
+    register: labels.correctionRegister,
+  };
+
+  return (
+    <div className="max-w-[85%] mt-1.5 rounded-xl border border-slate-700 bg-slate-900/80 px-3 py-2 text-xs">
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-400">{labels.betterVersion}</span>
+        {correction.errors.length > 0 && (
+          <button
+            onClick={() => setExpanded(e => !e)}
+            className="text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider"
+          >
+            {correction.errors.length} {labels.correctionsFound}
+          </button>
+        )}
+      </div>
+
+      <p className="leading-relaxed text-slate-300">
+        {segments.map((seg, i) => {
+          if (seg.type === 'removed') return <del key={i} className="text-rose-400/80 decoration-rose-400/60">{seg.text}</del>;
+          if (seg.type === 'added') return <ins key={i} className="no-underline text-emerald-300 bg-emerald-900/30 rounded-sm">{seg.text}</ins>;
+          return <span key={i}>{seg.text}</span>;
+        })}
+      </p>
+
+      {expanded && (
+        <ul className="mt-2 space-y-1.5 border-t border-slate-800 pt-2 animate-fade-in">
+          {correction.errors.map((err, i) => (
+            <li key={i} className="flex flex-col gap-0.5">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={`text-[9px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider ${CATEGORY_STYLES[err.category]}`}>
+                  {categoryLabels[err.category]}
+                </span>
+                <span className="text-rose-400/80 line-through">{err.original}</span>
+                <span className="text-slate-500">→</span>
+                <span className="text-emerald-300">{err.corrected}</span>
+              </div>
+              <span className="text-slate-400">{err.explanation}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionDiff;
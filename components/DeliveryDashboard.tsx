@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { LabelSet } from '../constants/translations';
+import { DeliveryMetrics, formatSeconds } from '../services/deliveryMetrics';
+
+interface DeliveryDashboardProps {
+  metrics: DeliveryMetrics;
+  labels: LabelSet;
+}
+
+const BAR_HEIGHT = 36;
+const MAX_BARS = 24;
+// Comfortable conversational pace for learners; faster bars turn amber
+const FAST_WPM = 170;
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="flex flex-col min-w-0" title={hint}>
+    <span className="text-[10px] text-slate-500 uppercase tracking-wider truncate">{label}</span>
+    <span className="text-sm font-semibold text-slate-100 tabular-nums">{value}</span>
+  </div>
+);
+
+// Pace, pauses, fillers and talk share for the learner's voice turns
+const DeliveryDashboard: React.FC<DeliveryDashboardProps> = ({ metrics, labels }) => {
+  const [expanded, setExpanded] = useState(false);
+  const recent = metrics.turns.slice(-MAX_BARS);
+  const maxWpm = Math.max(FAST_WPM, ...recent.map(t => t.wpm || 0));
+  const sharePercent = metrics.talkRatio === null ? null : Math.round(metrics.talkRatio * 100);
+  const topFillers = Object.entries(metrics.fillers)
+    .flatMap(([lang, counts]) => Object.entries(counts).map(([filler, count]) => ({ lang, filler, count })))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 6);
+  const showLanguage = Object.keys(metrics.fillers).length > 1;
+
+  return (
+    <div className="flex flex-col gap-2 p-3 bg-slate-800 rounded-xl shadow-lg border border-slate-700">
+      <button onClick={() => setExpanded(e => !e)} className="flex items-center justify-between text-left">
+        <h3 className="text-slate-400 text-xs font-semibold uppercase tracking-wider">{labels.delivery}</h3>
+        <span className="text-[10px] text-slate-500">{expanded ? labels.showLess : labels.showMore}</span>
+      </button>
+
+      <div className="grid grid-cols-4 gap-2">
+        <Stat label={labels.deliveryPace} value={metrics.averageWpm === null ? '–' : `${metrics.averageWpm}`} hint={labels.deliveryPaceHint} />
+        <Stat
+          label={labels.deliveryPause}
+          value={metrics.averagePauseMs === null ? '–' : formatSeconds(metrics.averagePauseMs)}
+          hint={labels.deliveryPauseHint}
+        />
+        <Stat label={labels.deliveryFillers} value={`${metrics.fillerCount}`} hint={`${metrics.fillersPer100Words.toFixed(1)} ${labels.deliveryPer100Words}`} />
+        <Stat
+          label={labels.deliveryLongest}
+          value={metrics.longestMonologue ? formatSeconds(metrics.longestMonologue.durationMs) : '–'}
+          hint={metrics.longestMonologue ? `${metrics.longestMonologue.words} ${labels.deliveryWords}` : undefined}
+        />
+      </div>
+
+      {sharePercent !== null && (
+        <div className="flex flex-col gap-1" title={`${labels.you} ${formatSeconds(metrics.userTalkMs)} · ${labels.dojo} ${formatSeconds(metrics.agentTalkMs)}`}>
+          <div className="flex justify-between text-[10px] text-slate-500">
+            <span>{labels.you} {sharePercent}%</span>
+            <span>{labels.deliveryTalkRatio}</span>
+            <span>{labels.dojo} {100 - sharePercent}%</span>
+          </div>
+          <div className="flex h-1.5 rounded-full overflow-hidden bg-slate-700">
+            <div className="bg-blue-500" style={{ width: `${sharePercent}%` }} />
+            <div className="bg-emerald-500/70 flex-1" />
+          </div>
+        </div>
+      )}
+
+      {expanded && (
+        <>
+          <div className="flex flex-col gap-1">
+            <span className="text-[10px] text-slate-500 uppercase tracking-wider">{labels.deliveryPerTurn}</span>
+            <div className="flex items-end gap-0.5" style={{ height: BAR_HEIGHT }}>
+              {recent.map((turn, i) => {
+                const height = turn.wpm ? Math.max(2, (turn.wpm / maxWpm) * BAR_HEIGHT) : 2;
+                const pause = turn.pauseBeforeMs === null ? '–' : formatSeconds(turn.pauseBeforeMs);
+                return (
+                  <div
+                    key={turn.messageId}
+                    title={`#${metrics.turns.length - recent.length + i + 1}: ${turn.wpm ?? '–'} ${labels.deliveryWpm} · ${labels.deliveryPause} ${pause} · ${labels.deliveryFillers} ${turn.fillerCount}`}
+                    className={`flex-1 rounded-sm ${turn.wpm === null ? 'bg-slate-600' : turn.wpm > FAST_WPM ? 'bg-amber-400' : 'bg-sky-400'} ${turn.interrupted ? 'opacity-50' : ''}`}
+                    style={{ height }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+
+          {topFillers.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {topFillers.map(({ lang, filler, count }) => (
+                <span key={`${lang}:${filler}`} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-300">
+                  {filler} ×{count}{showLanguage && <span className="text-slate-500"> · {lang}</span>}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryDashboard;
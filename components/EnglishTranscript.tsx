@@ -1,11 +1,14 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import { ChatMessage } from '../types';
 import { LabelSet } from '../constants/translations';
+import GuidanceNote from './GuidanceNote';
 
 interface EnglishTranscriptProps {
   history: ChatMessage[];
   streamingAgent?: string;
   streamingUser?: string;
+  highlightedMessageIds?: string[]; // Turns linked to the selected map node
+  onMessageHover?: (messageId: string | null) => void;
   labels: LabelSet;
 }
 
@@ -13,9 +16,13 @@ const EnglishTranscript: React.FC<EnglishTranscriptProps> = ({
     history, 
     streamingAgent, 
     streamingUser,
+    highlightedMessageIds,
+    onMessageHover,
     labels 
 }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const highlighted = useMemo(() => new Set(highlightedMessageIds), [highlightedMessageIds]);
 
   // Auto-scroll whenever history or streaming text changes
   useEffect(() => {
@@ -24,6 +31,20 @@ const EnglishTranscript: React.FC<EnglishTranscriptProps> = ({
     }
   }, [history.length, streamingAgent, streamingUser]);
 
+  // Jump to the first linked turn when the selection changes (or the panel opens with one)
+  const firstHighlighted = highlightedMessageIds?.[0];
+  useEffect(() => {
+    if (!firstHighlighted) return;
+    listRef.current
+      ?.querySelector(`[data-message-id="${CSS.escape(firstHighlighted)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [firstHighlighted]);
+
+  const hoverProps = (msg: ChatMessage) => onMessageHover ? {
+    onMouseEnter: () => onMessageHover(msg.id),
+    onMouseLeave: () => onMessageHover(null),
+  } : {};
+
   return (
     <div className="flex flex-col h-full w-full bg-slate-900/50 rounded-b-xl border-t border-slate-800 backdrop-blur-sm">
        {/* Header */}
@@ -36,7 +57,7 @@ const EnglishTranscript: React.FC<EnglishTranscriptProps> = ({
        </div>
 
        {/* Scrollable Area */}
-       <div className="flex-1 overflow-y-auto p-4 space-y-4 font-mono text-sm scrollbar-thin scrollbar-thumb-slate-700">
+       <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-4 font-mono text-sm scrollbar-thin scrollbar-thumb-slate-700">
           {history.length === 0 && !streamingAgent && !streamingUser && (
               <div className="h-full flex flex-col items-center justify-center text-slate-600 italic">
                   <p>{labels.waitingForConv}</p>
@@ -44,13 +65,27 @@ const EnglishTranscript: React.FC<EnglishTranscriptProps> = ({
           )}
           
           {/* Historical Messages */}
-          {history.map((msg, idx) => (
-             <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+          {history.map(msg => msg.role === 'system' ? (
+             <div
+                key={msg.id}
+                data-message-id={msg.id}
+                {...hoverProps(msg)}
+                className={`text-center text-[10px] uppercase tracking-wider py-1 ${highlighted.has(msg.id) ? 'text-sky-300' : 'text-amber-400/80'}`}
+             >
+                — {msg.text} —
+             </div>
+          ) : (
+             <div
+                key={msg.id}
+                data-message-id={msg.id}
+                {...hoverProps(msg)}
+                className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
+             >
                 <div className={`max-w-[95%] p-3 rounded-lg border shadow-sm ${
                     msg.role === 'user' 
                     ? 'border-slate-700 bg-slate-800/80 text-slate-200' 
                     : 'border-indigo-900/40 bg-indigo-950/30 text-indigo-100'
-                }`}>
+                } ${highlighted.has(msg.id) ? 'ring-2 ring-sky-400/70' : ''}`}>
                    <p className="leading-relaxed whitespace-pre-wrap">
                        {msg.translatedText || msg.text}
                    </p>
@@ -58,6 +93,9 @@ const EnglishTranscript: React.FC<EnglishTranscriptProps> = ({
                 <span className="text-[10px] text-slate-600 mt-1.5 px-1 font-medium tracking-wide">
                     {msg.role === 'user' ? `${labels.userRole} (En)` : `${labels.dojoRole} (En)`}
                 </span>
+                {msg.guidance && (
+                    <GuidanceNote guidance={msg.guidance} align={msg.role === 'user' ? 'right' : 'left'} labels={labels} />
+                )}
              </div>
           ))}
 
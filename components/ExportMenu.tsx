@@ -0,0 +1,68 @@
+import React, { useState, useRef } from 'react';
+import { ExportFormat } from '../services/sessionExport';
+import { LabelSet } from '../constants/translations';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  onImport: (file: File) => void;
+  labels: LabelSet;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, onImport, labels }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const options: { id: ExportFormat; label: string }[] = [
+    { id: 'json', label: labels.exportJson },
+    { id: 'markdown', label: labels.exportMarkdown },
+    { id: 'srt', label: labels.exportSrt },
+    { id: 'vtt', label: labels.exportVtt },
+  ];
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = ''; // Allow re-importing the same file
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded-md border border-slate-700 transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+          <path d="M10.75 2.75a.75.75 0 0 0-1.5 0v8.614L6.295 8.235a.75.75 0 1 0-1.09 1.03l4.25 4.5a.75.75 0 0 0 1.09 0l4.25-4.5a.75.75 0 0 0-1.09-1.03l-2.955 3.129V2.75Z" />
+          <path d="M3.5 12.75a.75.75 0 0 0-1.5 0v2.5A2.75 2.75 0 0 0 4.75 18h10.5A2.75 2.75 0 0 0 18 15.25v-2.5a.75.75 0 0 0-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5Z" />
+        </svg>
+        {labels.save}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-30 py-1 animate-fade-in">
+          {options.map(opt => (
+            <button
+              key={opt.id}
+              onClick={() => { onExport(opt.id); setIsOpen(false); }}
+              className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-slate-700"
+            >
+              {opt.label}
+            </button>
+          ))}
+          <div className="border-t border-slate-700 my-1" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-slate-700"
+          >
+            {labels.importJson}
+          </button>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+    </div>
+  );
+};
+
+export default ExportMenu;
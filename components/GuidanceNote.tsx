@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Guidance, GuidanceCategory } from '../types';
+import { LabelSet } from '../constants/translations';
+
+export const GUIDANCE_STYLES: Record<GuidanceCategory, string> = {
+  tone: 'border-pink-500/50 text-pink-300 bg-pink-900/20',
+  clarity: 'border-sky-500/50 text-sky-300 bg-sky-900/20',
+  grammar: 'border-amber-500/50 text-amber-300 bg-amber-900/20',
+  engagement: 'border-emerald-500/50 text-emerald-300 bg-emerald-900/20',
+};
+
+export const guidanceCategoryLabel = (category: GuidanceCategory, labels: LabelSet): string => ({
+  tone: labels.guidanceTone,
+  clarity: labels.guidanceClarity,
+  grammar: labels.guidanceGrammar,
+  engagement: labels.guidanceEngagement,
+}[category]);
+
+interface GuidanceNoteProps {
+  guidance: Guidance;
+  align?: 'left' | 'right';
+  labels: LabelSet;
+}
+
+// Annotation icon shown next to a message; click to read the coach's note for that turn
+const GuidanceNote: React.FC<GuidanceNoteProps> = ({ guidance, align = 'right', labels }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className={`flex flex-col mt-1 ${align === 'right' ? 'items-end' : 'items-start'}`}>
+      <button
+        onClick={() => setOpen(o => !o)}
+        title={labels.showGuidance}
+        className={`p-0.5 rounded text-indigo-300 hover:text-indigo-200 hover:bg-indigo-500/20 transition-colors ${open ? 'bg-indigo-500/20' : ''}`}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+          <path fillRule="evenodd" d="M18 10a8 8 0 1 1-16 0 8 8 0 0 1 16 0Zm-7-4a1 1 0 1 1-2 0 1 1 0 0 1 2 0ZM9 9a.75.75 0 0 0 0 1.5h.253a.25.25 0 0 1 .244.304l-.459 2.066A1.75 1.75 0 0 0 10.747 15H11a.75.75 0 0 0 0-1.5h-.253a.25.25 0 0 1-.244-.304l.459-2.066A1.75 1.75 0 0 0 9.253 9H9Z" clipRule="evenodd" />
+        </svg>
+      </button>
+      {open && (
+        <div className="mt-1 max-w-[85%] p-2 rounded-lg border border-indigo-500/40 bg-slate-800/95 text-xs text-slate-200 leading-snug animate-fade-in font-sans">
+          <span className={`inline-block mb-1 text-[9px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider ${GUIDANCE_STYLES[guidance.category]}`}>
+            {guidanceCategoryLabel(guidance.category, labels)}
+          </span>
+          <p>{guidance.text}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuidanceNote;
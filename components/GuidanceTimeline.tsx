@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ChatMessage, GuidanceCategory } from '../types';
+import { LabelSet } from '../constants/translations';
+import { GUIDANCE_CATEGORIES, collectGuidance } from '../services/guidance';
+import { GUIDANCE_STYLES, guidanceCategoryLabel } from './GuidanceNote';
+
+interface GuidanceTimelineProps {
+  history: ChatMessage[];
+  labels: LabelSet;
+}
+
+const GuidanceTimeline: React.FC<GuidanceTimelineProps> = ({ history, labels }) => {
+  // Empty selection = show every category
+  const [selected, setSelected] = useState<GuidanceCategory[]>([]);
+
+  const entries = collectGuidance(history, selected.length ? selected : undefined);
+  const counts = collectGuidance(history).reduce<Record<string, number>>((acc, e) => {
+    acc[e.guidance.category] = (acc[e.guidance.category] || 0) + 1;
+    return acc;
+  }, {});
+
+  const toggle = (category: GuidanceCategory) => {
+    setSelected(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full bg-slate-900/50 rounded-b-xl border-t border-slate-800">
+      <div className="flex-none px-4 py-3 bg-slate-900/80 border-b border-slate-800 flex flex-wrap gap-2 items-center">
+        <button
+          onClick={() => setSelected([])}
+          className={`text-[10px] px-2.5 py-1 rounded-full border uppercase tracking-wider transition-colors ${
+            selected.length === 0 ? 'border-slate-400 text-white bg-slate-700' : 'border-slate-700 text-slate-400 hover:text-slate-200'
+          }`}
+        >
+          {labels.allCategories}
+        </button>
+        {GUIDANCE_CATEGORIES.map(category => (
+          <button
+            key={category}
+            onClick={() => toggle(category)}
+            className={`text-[10px] px-2.5 py-1 rounded-full border uppercase tracking-wider transition-opacity ${GUIDANCE_STYLES[category]} ${
+              selected.includes(category) ? '' : 'opacity-50 hover:opacity-80'
+            }`}
+          >
+            {guidanceCategoryLabel(category, labels)} · {counts[category] || 0}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 scrollbar-thin scrollbar-thumb-slate-700">
+        {entries.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-slate-600 italic text-sm">
+            {labels.noGuidanceYet}
+          </div>
+        ) : (
+          <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+            {entries.map(({ guidance, message, messageIndex }) => (
+              <li key={messageIndex} className="pl-4 relative">
+                <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-indigo-400" />
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`text-[9px] px-1.5 py-0.5 rounded-full border uppercase tracking-wider ${GUIDANCE_STYLES[guidance.category]}`}>
+                    {guidanceCategoryLabel(guidance.category, labels)}
+                  </span>
+                  <span className="text-[10px] text-slate-500">
+                    #{messageIndex + 1} · {message.timestamp.toLocaleTimeString()}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 italic truncate">"{message.translatedText || message.text}"</p>
+                <p className="text-sm text-slate-200 leading-snug mt-0.5">{guidance.text}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuidanceTimeline;
@@ -0,0 +1,190 @@
+import React, { useMemo, useRef, useState } from 'react';
+import MindMap from './MindMap';
+import { TRANSLATIONS } from '../constants/translations';
+import { generateBenchmarkGraph, sliceGraph } from '../fixtures/benchmarkGraph';
+
+// Developer page (open the app with ?benchmark=map) that stress-tests the mind map renderer with 500 nodes.
+// It is not part of the learner UI, so its strings are not translated.
+
+const NODE_COUNT = 500;
+const GROW_BATCH = 25;
+const HIGHLIGHT_CLICKS = 40;
+const SETTLE_MS = 3000;
+const LONG_FRAME_MS = 50;
+const LAYOUT_SEQUENCE = ['radial', 'tree', 'timeline', 'cluster', 'force'];
+
+interface PhaseResult {
+  phase: string;
+  runs: number;
+  median: number;  // ms from the state change to the next painted frame
+  p95: number;
+  max: number;
+  longFrames: number; // frames over LONG_FRAME_MS while the phase ran
+  domAdded: number;   // elements inserted into the map; highlighting should add none
+}
+
+// Resolves after the frame following the next one, i.e. once React has committed and the browser has painted
+const nextPaint = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+};
+
+// Frame intervals and DOM insertions for the duration of one phase
+const startProbe = (host: HTMLElement) => {
+  const frames: number[] = [];
+  let last = performance.now();
+  let frameId = requestAnimationFrame(function loop(t) {
+    frames.push(t - last);
+    last = t;
+    frameId = requestAnimationFrame(loop);
+  });
+
+  let added = 0;
+  const observer = new MutationObserver(records => {
+    records.forEach(r => r.addedNodes.forEach(n => { if (n.nodeType === Node.ELEMENT_NODE) added++; }));
+  });
+  observer.observe(host, { childList: true, subtree: true });
+
+  return () => {
+    cancelAnimationFrame(frameId);
+    observer.disconnect();
+    return { longFrames: frames.filter(f => f > LONG_FRAME_MS).length, added };
+  };
+};
+
+const summarize = (phase: string, samples: number[], probe: { longFrames: number; added: number }): PhaseResult => ({
+  phase,
+  runs: samples.length,
+  median: percentile(samples, 50),
+  p95: percentile(samples, 95),
+  max: samples.length ? Math.max(...samples) : 0,
+  longFrames: probe.longFrames,
+  domAdded: probe.added,
+});
+
+const MapBenchmark: React.FC = () => {
+  const fullGraph = useMemo(() => generateBenchmarkGraph(NODE_COUNT), []);
+  const [graph, setGraph] = useState(() => sliceGraph(fullGraph, 1));
+  const [results, setResults] = useState<PhaseResult[]>([]);
+  const [status, setStatus] = useState('');
+  const hostRef = useRef<HTMLDivElement>(null);
+
+  const timed = async (change: () => void) => {
+    const start = performance.now();
+    change();
+    await nextPaint();
+    return performance.now() - start;
+  };
+
+  const run = async () => {
+    const host = hostRef.current;
+    if (!host) return;
+    const collected: PhaseResult[] = [];
+    setResults([]);
+    setGraph(sliceGraph(fullGraph, 1));
+    await nextPaint();
+
+    // 1. The map grows the way a long session does, one graph update at a time
+    setStatus('Growing to 500 nodes…');
+    let probe = startProbe(host);
+    const growth: number[] = [];
+    for (let count = GROW_BATCH; count <= NODE_COUNT; count += GROW_BATCH) {
+      growth.push(await timed(() => setGraph(sliceGraph(fullGraph, count))));
+    }
+    collected.push(summarize(`grow (+${GROW_BATCH} nodes per update)`, growth, probe()));
+
+    // 2. The force layout settles with everything on screen
+    setStatus('Settling…');
+    probe = startProbe(host);
+    await wait(SETTLE_MS);
+    collected.push(summarize(`settle (${SETTLE_MS / 1000}s)`, [], probe()));
+
+    // 3. Clicking nodes should only restyle, never rebuild
+    setStatus('Highlighting paths…');
+    probe = startProbe(host);
+    const clicks: number[] = [];
+    const mapNodes = Array.from(host.querySelectorAll<SVGGElement>('g.map-node'));
+    for (let i = 0; i < HIGHLIGHT_CLICKS && mapNodes.length; i++) {
+      const target = mapNodes[(i * 37) % mapNodes.length];
+      clicks.push(await timed(() => target.dispatchEvent(new MouseEvent('click', { bubbles: true }))));
+    }
+    collected.push(summarize('highlight (click a node)', clicks, probe()));
+
+    // 4. Layout switches, through the map's own layout picker
+    setStatus('Switching layouts…');
+    probe = startProbe(host);
+    const switches: number[] = [];
+    const picker = host.querySelector('select');
+    for (const layout of LAYOUT_SEQUENCE) {
+      if (!picker) break;
+      switches.push(await timed(() => {
+        picker.value = layout;
+        picker.dispatchEvent(new Event('change', { bubbles: true }));
+      }));
+      await wait(800); // Let the transition play out so its frames are counted
+    }
+    collected.push(summarize('layout switch', switches, probe()));
+
+    console.table(collected);
+    setResults(collected);
+    setStatus('Done');
+  };
+
+  const fmt = (ms: number) => ms.toFixed(1);
+
+  return (
+    <div className="h-screen flex flex-col bg-slate-950 text-slate-200">
+      <div className="p-4 border-b border-slate-800 flex flex-col gap-3">
+        <div className="flex items-center gap-4">
+          <h1 className="text-sm font-semibold tracking-wide">Mind map benchmark · {graph.nodes.length}/{NODE_COUNT} nodes</h1>
+          <button
+            onClick={run}
+            disabled={status !== '' && status !== 'Done'}
+            className="text-xs font-medium bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white px-3 py-1.5 rounded-md"
+          >
+            Run
+          </button>
+          <span className="text-xs text-slate-500">{status}</span>
+        </div>
+        {results.length > 0 && (
+          <table className="text-xs text-left">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="pr-6 font-medium">Phase</th>
+                <th className="pr-6 font-medium">Runs</th>
+                <th className="pr-6 font-medium">Median ms</th>
+                <th className="pr-6 font-medium">p95 ms</th>
+                <th className="pr-6 font-medium">Max ms</th>
+                <th className="pr-6 font-medium">Frames &gt; {LONG_FRAME_MS}ms</th>
+                <th className="font-medium">Elements added</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {results.map(r => (
+                <tr key={r.phase}>
+                  <td className="pr-6 font-sans">{r.phase}</td>
+                  <td className="pr-6">{r.runs}</td>
+                  <td className="pr-6">{r.runs ? fmt(r.median) : '–'}</td>
+                  <td className="pr-6">{r.runs ? fmt(r.p95) : '–'}</td>
+                  <td className="pr-6">{r.runs ? fmt(r.max) : '–'}</td>
+                  <td className="pr-6">{r.longFrames}</td>
+                  <td>{r.domAdded}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div ref={hostRef} className="flex-1 min-h-0">
+        <MindMap nodes={graph.nodes} links={graph.links} labels={TRANSLATIONS.en} />
+      </div>
+    </div>
+  );
+};
+
+export default MapBenchmark;
@@ -2,32 +2,361 @@ import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as d3 from 'd3';
 import { MindMapNode, MindMapLink } from '../types';
 import { LabelSet } from '../constants/translations';
+import { EditableNodeType, GraphEdit } from '../services/graphEditing';
+import { ROOT_NODE_ID, buildChildrenMap, buildParentMap, getAncestry, linkEndpointId } from '../services/graphUtils';
+import {
+  MapLayout,
+  MAP_LAYOUTS,
+  NODE_HEIGHT,
+  Point,
+  clusterCenters,
+  computeStaticLayout,
+  isForceLayout,
+  nodeWidth,
+} from '../services/mapLayouts';
+import { NODE_COLORS as COLORS } from '../constants/mapStyles';
+import {
+  MapExportFormat,
+  MAP_FORMAT_META,
+  LegendItem,
+  buildStandaloneSvg,
+  svgToPngBlob,
+  exportMapMermaid,
+  exportMapGraphMl,
+  exportMapOpml,
+} from '../services/mapExport';
+import { downloadFile } from '../services/sessionExport';
 
 interface MindMapProps {
   nodes: MindMapNode[];
   links: MindMapLink[];
+  onSteer?: (node: MindMapNode) => void; // Picks a potential node as the next topic
+  canSteer?: boolean;
+  onEdit?: (edit: GraphEdit) => void;
+  onMergeSimilar?: () => void;
+  isMerging?: boolean;
+  onUndo?: () => void;
+  canUndo?: boolean;
+  onNodeSelect?: (node: MindMapNode | null) => void; // Lets the transcripts follow the selection
+  hoverNodeIds?: string[]; // Nodes of the message under the pointer; lit up with their path to the root
   labels: LabelSet;
 }
 
-const COLORS = {
-  root: '#ffffff',
-  concept: '#38bdf8', // Light Blue
-  entity: '#c084fc',  // Purple
-  action: '#4ade80',  // Green
-  emotion: '#fb7185', // Rose
-  default: '#94a3b8'  // Slate
+type EditMode = 'rename' | 'add' | 'merge' | 'move';
+
+const EDITABLE_TYPES: EditableNodeType[] = ['concept', 'entity', 'action', 'emotion'];
+
+const LAYOUT_KEY = 'contextdojo_map_layout';
+const LAYOUT_TRANSITION_MS = 600;
+const ZOOM_TRANSITION_MS = 450;
+const ZOOM_EXTENT: [number, number] = [0.15, 3];
+const MAX_FIT_SCALE = 1.2; // Fitting a small map shouldn't blow the pills up
+const ZOOM_STEP = 1.3;
+
+const ENTER_TRANSITION_MS = 400;
+const EXIT_TRANSITION_MS = 250;
+const GENTLE_REHEAT = 0.3; // Alpha for updates to a settled force layout
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 110;
+const MINIMAP_MARGIN = 40;
+
+type MapDatum = d3.SimulationNodeDatum & MindMapNode & { width: number; height: number };
+
+interface MapLinkDatum {
+  id: string;
+  source: MapDatum;
+  target: MapDatum;
+}
+
+// Long-lived D3 state behind the map; updates join new data into these layers instead of rebuilding them
+interface MapScene {
+  svg: d3.Selection<SVGSVGElement, unknown, null, undefined>;
+  guides: d3.Selection<SVGGElement, unknown, null, undefined>;
+  linkLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  nodeLayer: d3.Selection<SVGGElement, unknown, null, undefined>;
+  link: d3.Selection<SVGPathElement, MapLinkDatum, SVGGElement, unknown>;
+  node: d3.Selection<SVGGElement, MapDatum, SVGGElement, unknown>;
+  simulation: d3.Simulation<MapDatum, MapLinkDatum>;
+  drag: d3.DragBehavior<SVGGElement, MapDatum, MapDatum | d3.SubjectPosition>;
+  width: number; // Panel width the force layouts are clamped to
+  linkIds: Set<string>;
+  render: () => void;
+}
+
+// Tiers flow top to bottom; radial and clustered maps use straight spokes; timeline neighbours arc over the axis
+const linkPathFor = (layout: MapLayout) => ({ source, target }: MapLinkDatum): string => {
+  const sx = source.x!, sy = source.y!, tx = target.x!, ty = target.y!;
+  if (layout === 'radial' || layout === 'cluster') {
+    return `M${sx},${sy}L${tx},${ty}`;
+  }
+  if (layout === 'timeline' && Math.abs(ty - sy) < NODE_HEIGHT * 2) {
+    const lift = Math.min(80, Math.abs(tx - sx) / 3);
+    return `M${sx},${sy - source.height / 2} Q${(sx + tx) / 2},${Math.min(sy, ty) - NODE_HEIGHT / 2 - lift} ${tx},${ty - target.height / 2}`;
+  }
+  // Cubic Bezier from the bottom of the parent pill to the top of the child
+  const sourceY = sy + source.height / 2;
+  const targetY = ty - target.height / 2;
+  return `M${sx},${sourceY} C${sx},${(sourceY + targetY) / 2} ${tx},${(sourceY + targetY) / 2} ${tx},${targetY}`;
 };
 
-const MindMap: React.FC<MindMapProps> = ({ nodes, links, labels }) => {
+const loadLayout = (): MapLayout => {
+  const stored = localStorage.getItem(LAYOUT_KEY) as MapLayout | null;
+  return stored && MAP_LAYOUTS.includes(stored) ? stored : 'force';
+};
+
+const MindMap: React.FC<MindMapProps> = ({
+  nodes,
+  links,
+  onSteer,
+  canSteer = true,
+  onEdit,
+  onMergeSimilar,
+  isMerging = false,
+  onUndo,
+  canUndo = false,
+  onNodeSelect,
+  hoverNodeIds,
+  labels
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [selectedNode, setSelectedNode] = useState<MindMapNode | null>(null);
 
-  // Keep track of simulation instance
-  const simulationRef = useRef<d3.Simulation<d3.SimulationNodeDatum, undefined> | null>(null);
+  // Editing state for the detail card
+  const [editMode, setEditMode] = useState<EditMode | null>(null);
+  const [draftLabel, setDraftLabel] = useState('');
+  const [draftType, setDraftType] = useState<EditableNodeType>('concept');
+  const [targetId, setTargetId] = useState('');
+  // Adding from the toolbar with nothing selected hangs the node off the root
+  const [isAddingToRoot, setIsAddingToRoot] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [layout, setLayout] = useState<MapLayout>(loadLayout);
+
+  // Drag-to-reparent runs inside the D3 effect, so it reads the latest callback from a ref
+  const onEditRef = useRef(onEdit);
+  useEffect(() => { onEditRef.current = onEdit; }, [onEdit]);
+
+  const onNodeSelectRef = useRef(onNodeSelect);
+  useEffect(() => { onNodeSelectRef.current = onNodeSelect; }, [onNodeSelect]);
+  useEffect(() => { onNodeSelectRef.current?.(selectedNode); }, [selectedNode?.id]);
+  // A closed map has nothing selected
+  useEffect(() => () => onNodeSelectRef.current?.(null), []);
+
+  // Keep the card in sync after renames, merges and deletes
+  useEffect(() => {
+      if (!selectedNode) return;
+      const current = nodes.find(n => n.id === selectedNode.id) || null;
+      if (current !== selectedNode) setSelectedNode(current);
+  }, [nodes]);
+
+  const closeEditor = () => {
+      setEditMode(null);
+      setIsAddingToRoot(false);
+      setDraftLabel('');
+      setTargetId('');
+  };
+
+  const startEdit = (mode: EditMode) => {
+      setEditMode(mode);
+      setDraftLabel(mode === 'rename' && selectedNode ? selectedNode.label : '');
+      setDraftType('concept');
+      setTargetId('');
+  };
+
+  const submitEdit = () => {
+      if (!onEdit || !editMode) return;
+      const parentId = isAddingToRoot ? ROOT_NODE_ID : selectedNode?.id;
+      if (editMode === 'add' && parentId && draftLabel.trim()) {
+          onEdit({ kind: 'add', parentId, label: draftLabel, nodeType: draftType });
+      } else if (editMode === 'rename' && selectedNode && draftLabel.trim()) {
+          onEdit({ kind: 'rename', nodeId: selectedNode.id, label: draftLabel });
+      } else if (editMode === 'merge' && selectedNode && targetId) {
+          // The selected node folds into the one picked from the list
+          onEdit({ kind: 'merge', keepId: targetId, dropId: selectedNode.id });
+      } else if (editMode === 'move' && selectedNode && targetId) {
+          onEdit({ kind: 'move', nodeId: selectedNode.id, parentId: targetId });
+      } else {
+          return;
+      }
+      closeEditor();
+  };
+
+  // Nodes the selected node may be merged into / moved under
+  const editTargets = useMemo(() => {
+      if (!selectedNode) return { merge: [], move: [] } as { merge: MindMapNode[]; move: MindMapNode[] };
+      const parents = buildParentMap(links);
+      const insideBranch = (n: MindMapNode) => getAncestry(n.id, parents).includes(selectedNode.id);
+      return {
+          merge: nodes.filter(n => n.id !== selectedNode.id && n.type !== 'root' && n.type !== 'marker'),
+          move: nodes.filter(n => !insideBranch(n)),
+      };
+  }, [selectedNode, nodes, links]);
+
+  // --- ZOOM & NAVIGATION ---
+  const minimapRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef(
+      d3.zoom<SVGSVGElement, unknown>()
+          .scaleExtent(ZOOM_EXTENT)
+          .extent(function () {
+              const { width, height } = this.getBoundingClientRect();
+              return [[0, 0], [width, height]];
+          })
+  );
+  const hasFittedRef = useRef(false);
+  // Rendered nodes and, for precomputed layouts, where they are heading.
+  // Node data outlives renders: D3 keeps x/y/vx/vy on it, so an update only nudges the layout.
+  const datumsRef = useRef<Map<string, MapDatum>>(new Map());
+  const layoutTargetsRef = useRef<Map<string, Point>>(new Map());
+  const pendingCenterRef = useRef<string | null>(null);
+
+  const restingPosition = (id: string): Point | null => {
+      const d = datumsRef.current.get(id);
+      return layoutTargetsRef.current.get(id) || (d ? { x: d.x ?? 0, y: d.y ?? 0 } : null);
+  };
+
+  const fitToScreen = () => {
+      const svgEl = svgRef.current;
+      if (!svgEl || datumsRef.current.size === 0) return;
+      const boxes = [...datumsRef.current.values()].map(d => ({ ...restingPosition(d.id)!, w: d.width, h: d.height }));
+      const minX = Math.min(...boxes.map(b => b.x - b.w / 2));
+      const maxX = Math.max(...boxes.map(b => b.x + b.w / 2));
+      const minY = Math.min(...boxes.map(b => b.y - b.h / 2));
+      const maxY = Math.max(...boxes.map(b => b.y + b.h / 2));
+      const { width, height } = svgEl.getBoundingClientRect();
+      if (!width || !height) return;
+      const k = Math.max(ZOOM_EXTENT[0], Math.min(MAX_FIT_SCALE, 0.9 * Math.min(width / (maxX - minX), height / (maxY - minY))));
+      const transform = d3.zoomIdentity
+          .translate(width / 2, height / 2)
+          .scale(k)
+          .translate(-(minX + maxX) / 2, -(minY + maxY) / 2);
+      zoomRef.current.transform(d3.select(svgEl).transition("zoom").duration(ZOOM_TRANSITION_MS), transform);
+  };
+
+  const zoomBy = (factor: number) => {
+      if (!svgRef.current) return;
+      zoomRef.current.scaleBy(d3.select(svgRef.current).transition("zoom").duration(ZOOM_TRANSITION_MS / 2), factor);
+  };
+
+  const centerOn = (id: string) => {
+      const p = restingPosition(id);
+      if (!svgRef.current || !p) return;
+      zoomRef.current.translateTo(d3.select(svgRef.current).transition("zoom").duration(ZOOM_TRANSITION_MS), p.x, p.y);
+  };
+
+  // Selects a node and brings it into view once the map has redrawn with the new highlight
+  const focusNode = (id: string) => {
+      const node = nodes.find(n => n.id === id);
+      if (!node) return;
+      if (selectedNode?.id === id) {
+          centerOn(id);
+          return;
+      }
+      pendingCenterRef.current = id;
+      setSelectedNode(node);
+      closeEditor();
+  };
+
+  // --- SEARCH ---
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState(0);
+  const searchMatches = useMemo(() => {
+      const query = searchQuery.trim().toLowerCase();
+      if (!query) return [];
+      return nodes
+          .filter(n => n.label.toLowerCase().includes(query) || (n.description || '').toLowerCase().includes(query))
+          .map(n => n.id);
+  }, [searchQuery, nodes]);
+  const searchRef = useRef({ active: false, matches: new Set<string>() });
+
+  // Matches get a halo and everything else fades; applied to the live nodes so typing doesn't re-run the layout
+  const applySearchHighlight = () => {
+      if (!svgRef.current) return;
+      const { active, matches } = searchRef.current;
+      d3.select(svgRef.current)
+          .selectAll<SVGGElement, { id: string }>("g.map-node-body")
+          .style("opacity", d => active && !matches.has(d.id) ? 0.25 : null)
+          .select("rect.map-node-halo")
+          .attr("visibility", d => matches.has(d.id) ? "visible" : "hidden");
+  };
+
+  useEffect(() => {
+      searchRef.current = { active: searchQuery.trim().length > 0, matches: new Set(searchMatches) };
+      applySearchHighlight();
+  }, [searchMatches, searchQuery]);
+
+  const handleSearchChange = (value: string) => {
+      setSearchQuery(value);
+      setSearchIndex(0);
+      const query = value.trim().toLowerCase();
+      const first = query && nodes.find(n => n.label.toLowerCase().includes(query) || (n.description || '').toLowerCase().includes(query));
+      if (first) centerOn(first.id);
+  };
+
+  // Enter / Shift+Enter step through the matches, Escape clears the search
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Escape') {
+          handleSearchChange('');
+          return;
+      }
+      if (e.key !== 'Enter' || searchMatches.length === 0) return;
+      e.preventDefault();
+      const step = e.shiftKey ? -1 : 1;
+      const next = (searchIndex + step + searchMatches.length) % searchMatches.length;
+      setSearchIndex(next);
+      focusNode(searchMatches[next]);
+  };
+
+  // Arrow keys walk the tree: up to the parent, down to the first child, left/right between siblings
+  const handleMapKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if ((e.target as HTMLElement).closest('input, select, textarea')) return;
+      const parents = buildParentMap(links);
+      const children = buildChildrenMap(nodes, links);
+      const current = selectedNode?.id;
+      let next: string | undefined;
+
+      switch (e.key) {
+          case 'ArrowUp':
+              next = current ? parents.get(current) : ROOT_NODE_ID;
+              break;
+          case 'ArrowDown':
+              next = current ? children.get(current)?.[0] : ROOT_NODE_ID;
+              break;
+          case 'ArrowLeft':
+          case 'ArrowRight': {
+              if (!current) {
+                  next = ROOT_NODE_ID;
+                  break;
+              }
+              const siblings = children.get(parents.get(current) || '') || [];
+              next = siblings[siblings.indexOf(current) + (e.key === 'ArrowLeft' ? -1 : 1)];
+              break;
+          }
+          case 'Escape':
+              handleBgClick();
+              break;
+          case '+':
+          case '=':
+              zoomBy(ZOOM_STEP);
+              break;
+          case '-':
+              zoomBy(1 / ZOOM_STEP);
+              break;
+          case '0':
+              fitToScreen();
+              break;
+          default:
+              return;
+      }
+      e.preventDefault();
+      if (next) focusNode(next);
+  };
   
-  // Cache positions to prevent "jumping" on updates
-  const nodePositions = useRef<Map<string, {x: number, y: number, vx: number, vy: number}>>(new Map());
+  // --- SCENE ---
+  const sceneRef = useRef<MapScene | null>(null);
+  const layoutRef = useRef(layout);
+  const nodesRef = useRef(nodes);
+  useEffect(() => { nodesRef.current = nodes; }, [nodes]);
 
   // Helper to compute tree depth for vertical positioning
   const computeDepths = (nodeList: MindMapNode[], linkList: MindMapLink[]) => {
@@ -92,234 +421,593 @@ const MindMap: React.FC<MindMapProps> = ({ nodes, links, labels }) => {
   };
 
   // Compute highlighting set
+  // The selected node's path plus the paths of the hovered message's nodes
   const highlightSet = useMemo(() => {
-      if (!selectedNode) return new Set<string>();
-      return getPathToRoot(selectedNode.id, links);
-  }, [selectedNode, links]);
+      const lit = new Set<string>();
+      const roots = [...(selectedNode ? [selectedNode.id] : []), ...(hoverNodeIds || [])];
+      roots.forEach(id => getPathToRoot(id, links).forEach(n => lit.add(n)));
+      return lit;
+  }, [selectedNode, hoverNodeIds, links]);
+
+  // Restyles the existing elements for the current selection; nothing is re-created or re-laid out
+  const applyHighlight = () => {
+      const scene = sceneRef.current;
+      if (!scene) return;
+      const lit = (id: string) => highlightSet.has(id);
 
+      scene.link
+          .attr("stroke", d => lit(d.source.id) && lit(d.target.id) ? "#38bdf8" : "#334155")
+          .attr("stroke-width", d => lit(d.source.id) && lit(d.target.id) ? 2 : 1);
+
+      const body = scene.node.select<SVGGElement>("g.map-node-body")
+          .attr("opacity", d => highlightSet.size > 0 && !lit(d.id) ? 0.2 : 1);
+      body.select("rect.map-node-pill")
+          .attr("fill", d => lit(d.id) ? (COLORS as any)[d.type] + '40' : "#1e293b") // Transparent bg when active
+          .attr("stroke", d => lit(d.id) ? "#e0f2fe" : (COLORS as any)[d.type] || COLORS.default)
+          .attr("stroke-width", d => lit(d.id) ? 2 : d.status === 'potential' ? 1 : 2)
+          .attr("stroke-dasharray", d => d.status === 'potential' ? "4 2" : "none");
+      body.select("text")
+          .attr("fill", d => lit(d.id) ? "#ffffff" : d.status === 'potential' ? "#94a3b8" : "#f1f5f9")
+          .attr("font-weight", d => d.status === 'active' || lit(d.id) ? "600" : "400");
+  };
+
+  // --- 1. SETUP (once) ---
+  // Layers, zoom, minimap and the simulation are created on mount and reused by every update
   useEffect(() => {
-    if (!svgRef.current || !containerRef.current) return;
+    if (!svgRef.current || !minimapRef.current) return;
+    const svg = d3.select(svgRef.current);
+
+    // d3-zoom keeps the current transform on the svg element, so the view survives remounts
+    const g = svg.append("g").attr("transform", d3.zoomTransform(svgRef.current).toString());
+    // Layout guides: the timeline axis with its time captions, or the type names of the clusters
+    const guides = g.append("g").attr("pointer-events", "none");
+    const linkLayer = g.append("g");
+    const nodeLayer = g.append("g");
+
+    // --- MINIMAP ---
+    // Whole map scaled into the corner box, with the visible area outlined. Dragging on it pans the view.
+    const minimap = d3.select(minimapRef.current);
+    const miniNodes = minimap.append("g");
+    const miniViewport = minimap.append("rect")
+        .attr("fill", "#38bdf8")
+        .attr("fill-opacity", 0.08)
+        .attr("stroke", "#38bdf8")
+        .attr("stroke-width", 1);
+    const mini = { k: 1, x: 0, y: 0 };
+
+    const updateMiniViewport = () => {
+        if (!svgRef.current) return;
+        const t = d3.zoomTransform(svgRef.current);
+        const { width, height } = svgRef.current.getBoundingClientRect();
+        miniViewport
+            .attr("x", (-t.x / t.k) * mini.k + mini.x)
+            .attr("y", (-t.y / t.k) * mini.k + mini.y)
+            .attr("width", (width / t.k) * mini.k)
+            .attr("height", (height / t.k) * mini.k);
+    };
+
+    const updateMinimap = () => {
+        const datums = [...datumsRef.current.values()];
+        if (datums.length === 0) return;
+        const minX = Math.min(...datums.map(d => d.x! - d.width / 2)) - MINIMAP_MARGIN;
+        const maxX = Math.max(...datums.map(d => d.x! + d.width / 2)) + MINIMAP_MARGIN;
+        const minY = Math.min(...datums.map(d => d.y! - d.height / 2)) - MINIMAP_MARGIN;
+        const maxY = Math.max(...datums.map(d => d.y! + d.height / 2)) + MINIMAP_MARGIN;
+        mini.k = Math.min(MINIMAP_WIDTH / (maxX - minX), MINIMAP_HEIGHT / (maxY - minY));
+        mini.x = (MINIMAP_WIDTH - (maxX - minX) * mini.k) / 2 - minX * mini.k;
+        mini.y = (MINIMAP_HEIGHT - (maxY - minY) * mini.k) / 2 - minY * mini.k;
+        miniNodes.selectAll<SVGRectElement, MapDatum>("rect")
+            .data(datums, d => d.id)
+            .join("rect")
+            .attr("x", d => (d.x! - d.width / 2) * mini.k + mini.x)
+            .attr("y", d => (d.y! - d.height / 2) * mini.k + mini.y)
+            .attr("width", d => Math.max(2, d.width * mini.k))
+            .attr("height", d => Math.max(2, d.height * mini.k))
+            .attr("rx", 2)
+            .attr("fill", d => (COLORS as any)[d.type] || COLORS.default)
+            .attr("fill-opacity", d => d.status === 'potential' ? 0.4 : 0.9);
+        updateMiniViewport();
+    };
+
+    // Ticks and tweens fire far more often than the minimap needs redrawing
+    let minimapFrame = 0;
+    const scheduleMinimap = () => {
+        if (minimapFrame) return;
+        minimapFrame = requestAnimationFrame(() => {
+            minimapFrame = 0;
+            updateMinimap();
+        });
+    };
+
+    // --- ZOOM ---
+    const zoom = zoomRef.current;
+    zoom.on("zoom", (event) => {
+        g.attr("transform", event.transform.toString());
+        updateMiniViewport();
+    });
+    svg.call(zoom).on("dblclick.zoom", null);
+
+    minimap.call(
+        d3.drag<SVGSVGElement, unknown>()
+            .container(function () { return this; })
+            .on("start drag", (event) => {
+                zoom.translateTo(svg, (event.x - mini.x) / mini.k, (event.y - mini.y) / mini.k);
+            })
+    );
+
+    const simulation = d3.forceSimulation<MapDatum, MapLinkDatum>()
+        .force("charge", d3.forceManyBody().strength(-300))
+        .force("collide", d3.forceCollide().radius(60).iterations(2))
+        .stop();
+
+    // Drag a node onto another to re-parent it. On release the layout pulls it back into place.
+    const drag = d3.drag<SVGGElement, MapDatum>()
+        .filter((event, d) => !!onEditRef.current && d.type !== 'root' && !event.ctrlKey && !event.button)
+        .on("start", (event, d) => {
+            if (!isForceLayout(layoutRef.current)) return;
+            d.fx = d.x;
+            d.fy = d.y;
+        })
+        .on("drag", (event, d) => {
+            if (isForceLayout(layoutRef.current)) {
+                d.fx = event.x;
+                d.fy = event.y;
+                simulation.alpha(0.1).restart();
+            } else {
+                d.x = event.x;
+                d.y = event.y;
+                scene.render();
+            }
+        })
+        .on("end", (event, d) => {
+            const target = [...datumsRef.current.values()].find(o =>
+                o.id !== d.id &&
+                Math.abs(o.x! - event.x) < o.width / 2 &&
+                Math.abs(o.y! - event.y) < o.height / 2
+            );
+            if (isForceLayout(layoutRef.current)) {
+                d.fx = null;
+                d.fy = null;
+            } else {
+                const home = layoutTargetsRef.current.get(d.id);
+                if (home) {
+                    d.x = home.x;
+                    d.y = home.y;
+                    scene.render();
+                }
+            }
+            if (target) onEditRef.current?.({ kind: 'move', nodeId: d.id, parentId: target.id });
+        });
+
+    const scene: MapScene = {
+        svg,
+        guides,
+        linkLayer,
+        nodeLayer,
+        link: linkLayer.selectAll<SVGPathElement, MapLinkDatum>("path"),
+        node: nodeLayer.selectAll<SVGGElement, MapDatum>("g.map-node"),
+        simulation,
+        drag,
+        width: containerRef.current?.clientWidth || 800,
+        linkIds: new Set(),
+        render: () => {
+            scene.link.attr("d", linkPathFor(layoutRef.current));
+            scene.node.attr("transform", d => `translate(${d.x},${d.y})`);
+            scheduleMinimap();
+        },
+    };
+
+    // Simulation Tick
+    simulation.on("tick", () => {
+      const padding = 20;
+      datumsRef.current.forEach(d => {
+          // Clamp X to stay in container; d.y is constrained by ForceY
+          d.x = Math.max(d.width / 2 + padding, Math.min(scene.width - d.width / 2 - padding, d.x!));
+      });
+      scene.render();
+    });
+
+    sceneRef.current = scene;
+
+    return () => {
+      simulation.stop();
+      svg.interrupt("layout");
+      cancelAnimationFrame(minimapFrame);
+      svg.on(".zoom", null);
+      svg.selectAll("*").remove();
+      minimap.on(".drag", null);
+      minimap.selectAll("*").remove();
+      sceneRef.current = null;
+      // A remounted scene frames the map again
+      hasFittedRef.current = false;
+    };
+  }, []);
+
+  // --- 2. DATA & LAYOUT ---
+  // Enter/update/exit join: new nodes grow out of their parent, removed ones fade, the rest keep their place
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene || !containerRef.current) return;
     if (nodes.length === 0) return;
 
     const containerWidth = containerRef.current.clientWidth || 800;
+    const forceLayout = isForceLayout(layout);
+    const wasForceLayout = isForceLayout(layoutRef.current);
+    const layoutChanged = layoutRef.current !== layout;
+    layoutRef.current = layout;
+    scene.width = containerWidth;
+    // Frame the whole map on first load and whenever the layout changes
+    const needsFit = layoutChanged || !hasFittedRef.current;
+    hasFittedRef.current = true;
     
-    // --- 1. COMPUTE DEPTHS FOR LAYOUT ---
+    // --- COMPUTE DEPTHS FOR LAYOUT ---
     const { depths, maxDepth } = computeDepths(nodes, links);
     
     // Calculate Dynamic Height based on tree depth
     const Y_SPACING = 120; // Vertical space between tiers
-    const MIN_HEIGHT = 400;
+    const MIN_HEIGHT = 400; // Space the force layouts spread over; the viewport zooms to whatever they need
     const PADDING_TOP = 60;
     const PADDING_BOTTOM = 60;
+    const PADDING_SIDE = 40;
     
-    const requiredHeight = Math.max(MIN_HEIGHT, (maxDepth * Y_SPACING) + PADDING_TOP + PADDING_BOTTOM);
+    const requiredHeight = layout === 'cluster'
+        ? Math.max(MIN_HEIGHT, containerWidth * 0.75)
+        : Math.max(MIN_HEIGHT, (maxDepth * Y_SPACING) + PADDING_TOP + PADDING_BOTTOM);
 
-    // Resize SVG container dynamically
-    const svg = d3.select(svgRef.current);
-    svg.attr("height", requiredHeight);
-
-    // --- 2. DATA PREPARATION ---
-    const simulationNodes = nodes.map(n => {
-        const oldPos = nodePositions.current.get(n.id);
-        const depth = depths[n.id] ?? 0;
-        return { 
-            ...n, 
-            // Start near their target depth so they don't fly across screen
-            x: oldPos ? oldPos.x : containerWidth / 2, 
-            y: oldPos ? oldPos.y : (depth * Y_SPACING) + PADDING_TOP,
-            vx: oldPos ? oldPos.vx : 0,
-            vy: oldPos ? oldPos.vy : 0
+    // Precomputed layouts are shifted so their bounding box starts inside the padding, centred when narrower than the panel
+    const staticLayout = forceLayout ? null : computeStaticLayout(layout, nodes, links);
+    const targets = new Map<string, Point>();
+    let offset = { x: 0, y: 0 };
+    if (staticLayout) {
+        const boxes = nodes
+            .filter(n => staticLayout.positions.has(n.id))
+            .map(n => ({ ...staticLayout.positions.get(n.id)!, w: nodeWidth(n.label) }));
+        const minX = Math.min(...boxes.map(b => b.x - b.w / 2), staticLayout.axis?.x1 ?? Infinity);
+        const maxX = Math.max(...boxes.map(b => b.x + b.w / 2), staticLayout.axis?.x2 ?? -Infinity);
+        const minY = Math.min(...boxes.map(b => b.y - NODE_HEIGHT / 2));
+        const contentWidth = maxX - minX + PADDING_SIDE * 2;
+        offset = {
+            x: PADDING_SIDE - minX + Math.max(0, (containerWidth - contentWidth) / 2),
+            y: PADDING_TOP - minY,
         };
-    }) as d3.SimulationNodeDatum[];
-
-    const simulationLinks = links.map(l => ({
-        source: typeof l.source === 'object' ? (l.source as any).id : l.source,
-        target: typeof l.target === 'object' ? (l.target as any).id : l.target
-    }));
-
-    svg.selectAll("*").remove(); 
-
-    // --- 3. DEFINITIONS ---
-    const defs = svg.append("defs");
-    // Standard arrow
-    defs.append("marker")
-        .attr("id", "arrowhead")
-        .attr("viewBox", "0 -5 10 10")
-        .attr("refX", 18) // Distance adapted for Rect
-        .attr("refY", 0)
-        .attr("markerWidth", 5)
-        .attr("markerHeight", 5)
-        .attr("orient", "auto")
-        .append("path")
-        .attr("d", "M0,-5L10,0L0,5")
-        .attr("fill", "#64748b");
-
-    // Active Arrow
-    defs.append("marker")
-        .attr("id", "arrowhead-active")
-        .attr("viewBox", "0 -5 10 10")
-        .attr("refX", 18) 
-        .attr("refY", 0)
-        .attr("markerWidth", 6)
-        .attr("markerHeight", 6)
-        .attr("orient", "auto")
-        .append("path")
-        .attr("d", "M0,-5L10,0L0,5")
-        .attr("fill", "#38bdf8");
-
-    // --- 4. SIMULATION ---
-    const simulation = d3.forceSimulation(simulationNodes)
-      .force("link", d3.forceLink(simulationLinks).id((d: any) => d.id).distance(100)) 
-      .force("charge", d3.forceManyBody().strength(-300)) 
-      .force("collide", d3.forceCollide().radius(60).iterations(2))
-      // STRICT Y-FORCE for Chronology/Tree structure
-      .force("y", d3.forceY((d: any) => {
-          const dDepth = depths[d.id] ?? 0;
-          return (dDepth * Y_SPACING) + PADDING_TOP; 
-      }).strength(2.5)) 
-      // Gentle X-Force to center
-      .force("x", d3.forceX(containerWidth / 2).strength(0.08));
-
-    simulationRef.current = simulation;
-
-    // --- 5. RENDER ELEMENTS ---
-    const g = svg.append("g"); 
-
-    // Links (Curves)
-    const link = g.append("g")
-      .selectAll("path")
-      .data(simulationLinks)
-      .join("path")
-      .attr("fill", "none")
-      .attr("stroke", (d: any) => {
-          const s = d.source.id || d.source;
-          const t = d.target.id || d.target;
-          if (highlightSet.has(s) && highlightSet.has(t)) return "#38bdf8"; 
-          return "#334155";
-      })
-      .attr("stroke-width", (d: any) => {
-          const s = d.source.id || d.source;
-          const t = d.target.id || d.target;
-          if (highlightSet.has(s) && highlightSet.has(t)) return 2;
-          return 1;
-      });
+        staticLayout.positions.forEach((p, id) => targets.set(id, { x: p.x + offset.x, y: p.y + offset.y }));
+    }
+    layoutTargetsRef.current = targets;
 
-    // Nodes (Groups)
-    const node = g.append("g")
-      .selectAll("g")
-      .data(simulationNodes)
-      .join("g")
-      .attr("class", "cursor-pointer transition-opacity duration-300")
-      .attr("opacity", (d: any) => {
-           if (selectedNode && !highlightSet.has(d.id)) return 0.2;
-           return 1;
-      })
-      .on("click", (event, d: any) => {
-          event.stopPropagation();
-          const original = nodes.find(n => n.id === d.id);
-          if (original) setSelectedNode(original);
-      });
-      // Removing drag behavior to maintain strict chronological Y-positions
+    // --- DATA PREPARATION ---
+    // Known nodes keep their position and velocity; new ones start on their parent
+    const previous = datumsRef.current;
+    const parents = buildParentMap(links);
+    const datums = new Map<string, MapDatum>();
+    nodes.forEach(n => {
+        const old = previous.get(n.id);
+        const base = { ...n, width: nodeWidth(n.label), height: NODE_HEIGHT };
+        if (old) {
+            datums.set(n.id, { ...base, x: old.x, y: old.y, vx: old.vx, vy: old.vy, fx: old.fx, fy: old.fy });
+            return;
+        }
+        const parentId = parents.get(n.id) || '';
+        const parent = datums.get(parentId) || previous.get(parentId);
+        const target = targets.get(n.id);
+        datums.set(n.id, {
+            ...base,
+            x: parent?.x ?? target?.x ?? containerWidth / 2,
+            y: parent?.y ?? target?.y ?? (depths[n.id] ?? 0) * Y_SPACING + PADDING_TOP,
+            vx: 0,
+            vy: 0,
+        });
+    });
+    datumsRef.current = datums;
+    const simulationNodes = [...datums.values()];
 
-    // --- CAPSULE SHAPE ---
-    // We render Text first to measure it, OR just approximate with padding
-    // Let's use fixed height rects with padding based on text length estimation
-    
-    node.each(function(d: any) {
-        const el = d3.select(this);
-        const charCount = d.label.length;
-        const rectWidth = Math.max(100, charCount * 7 + 24); // Dynamic width
-        const rectHeight = 36;
-        
-        // Save width for tick updates
-        d.width = rectWidth;
-        d.height = rectHeight;
-
-        el.append("rect")
-            .attr("rx", 18) // Pill shape
-            .attr("ry", 18)
-            .attr("x", -rectWidth / 2)
-            .attr("y", -rectHeight / 2)
-            .attr("width", rectWidth)
-            .attr("height", rectHeight)
-            .attr("fill", (d: any) => {
-                if (highlightSet.has(d.id)) return (COLORS as any)[d.type] + '40'; // Transparent bg when active
-                return "#1e293b"; // Dark slate
-            })
-            .attr("stroke", (d: any) => {
-                if (highlightSet.has(d.id)) return "#e0f2fe"; 
-                return (COLORS as any)[d.type] || COLORS.default;
-            })
-            .attr("stroke-width", (d: any) => {
-                if (highlightSet.has(d.id)) return 2;
-                return d.status === 'potential' ? 1 : 2;
-            })
-            .attr("stroke-dasharray", (d: any) => d.status === 'potential' ? "4 2" : "none");
-
-        el.append("text")
-            .text(d.label)
-            .attr("dy", "0.35em")
-            .attr("text-anchor", "middle")
-            .attr("fill", (d: any) => {
-                if (highlightSet.has(d.id)) return "#ffffff";
-                return d.status === 'potential' ? "#94a3b8" : "#f1f5f9";
-            })
-            .attr("font-size", "12px")
-            .attr("font-weight", (d: any) => d.status === 'active' || highlightSet.has(d.id) ? "600" : "400")
-            .style("pointer-events", "none");
+    const linkData = new Map<string, MapLinkDatum>();
+    links.forEach(l => {
+        const source = datums.get(linkEndpointId(l.source));
+        const target = datums.get(linkEndpointId(l.target));
+        if (!source || !target) return;
+        const id = `${source.id}->${target.id}`;
+        linkData.set(id, { id, source, target });
     });
+    const simulationLinks = [...linkData.values()];
 
-    // Simulation Tick
-    simulation.on("tick", () => {
-      const padding = 20;
-      
-      node.each((d: any) => {
-          // Clamp X to stay in container
-          const w = d.width || 100;
-          d.x = Math.max(w/2 + padding, Math.min(containerWidth - w/2 - padding, d.x));
-          
-          // d.y is constrained by ForceY primarily, but we update cache
-          nodePositions.current.set(d.id, { x: d.x, y: d.y, vx: d.vx, vy: d.vy });
-      });
+    const structureChanged = simulationNodes.length !== previous.size
+        || simulationNodes.some(d => !previous.has(d.id))
+        || simulationLinks.length !== scene.linkIds.size
+        || simulationLinks.some(l => !scene.linkIds.has(l.id));
+    scene.linkIds = new Set(linkData.keys());
 
-      // Update Curved Links (Bezier for tree-like feel)
-      link.attr("d", (d: any) => {
-        const sourceX = d.source.x;
-        const sourceY = d.source.y + (d.source.height / 2); // Start from bottom of pill
-        const targetX = d.target.x;
-        const targetY = d.target.y - (d.target.height / 2); // End at top of pill
-        
-        // Cubic Bezier for smooth vertical flow
-        return `M${sourceX},${sourceY} 
-                C${sourceX},${(sourceY + targetY) / 2} 
-                 ${targetX},${(sourceY + targetY) / 2} 
-                 ${targetX},${targetY}`;
-      });
+    // --- GUIDES ---
+    const clusters = layout === 'cluster' ? clusterCenters(nodes, containerWidth, requiredHeight) : null;
+    scene.guides.selectAll("*").remove();
+    if (staticLayout?.axis) {
+        scene.guides.append("line")
+            .attr("x1", staticLayout.axis.x1 + offset.x)
+            .attr("x2", staticLayout.axis.x2 + offset.x)
+            .attr("y1", staticLayout.axis.y + offset.y)
+            .attr("y2", staticLayout.axis.y + offset.y)
+            .attr("stroke", "#334155")
+            .attr("stroke-dasharray", "2 4");
+    }
+    const captions = staticLayout
+        ? staticLayout.captions.map(c => ({ ...c, x: c.x + offset.x, y: c.y + offset.y }))
+        : clusters ? [...clusters].filter(([type]) => type !== 'root').map(([type, p]) => ({ ...p, text: type })) : [];
+    scene.guides.selectAll("text")
+        .data(captions)
+        .join("text")
+        .text(c => c.text)
+        .attr("x", c => c.x)
+        .attr("y", c => c.y)
+        .attr("text-anchor", "middle")
+        .attr("fill", clusters ? "#334155" : "#64748b")
+        .attr("font-size", clusters ? "14px" : "10px")
+        .attr("font-weight", clusters ? "700" : "400")
+        .style("text-transform", clusters ? "uppercase" : null);
 
-      node.attr("transform", (d: any) => `translate(${d.x},${d.y})`);
-      
-      // Auto-scroll to bottom on first load or significant change
-      if (containerRef.current && nodes.length > 1) {
-          // Only scroll if user isn't actively scrolling up? 
-          // For now, let's just gently ensure bottom is visible if it's new
-          // containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    // --- LINKS ---
+    // Exiting elements are tagged so a node re-added mid-fade gets a fresh element
+    scene.link = scene.linkLayer.selectAll<SVGPathElement, MapLinkDatum>("path:not(.exiting)")
+      .data(simulationLinks, d => d.id)
+      .join(
+          enter => enter.append("path")
+              .attr("fill", "none")
+              .attr("opacity", 0)
+              .call(e => e.transition("enter").duration(ENTER_TRANSITION_MS).attr("opacity", 1)),
+          update => update,
+          exit => exit
+              .classed("exiting", true)
+              .call(e => e.transition("exit").duration(EXIT_TRANSITION_MS).attr("opacity", 0).remove())
+      );
+
+    // --- NODES ---
+    scene.node = scene.nodeLayer.selectAll<SVGGElement, MapDatum>("g.map-node:not(.exiting)")
+      .data(simulationNodes, d => d.id)
+      .join(
+          enter => {
+              const g = enter.append("g")
+                  .attr("class", "map-node")
+                  .attr("opacity", 0)
+                  .on("click", (event, d) => {
+                      event.stopPropagation();
+                      const original = nodesRef.current.find(n => n.id === d.id);
+                      if (original) {
+                          setSelectedNode(original);
+                          closeEditor();
+                      }
+                  })
+                  .call(scene.drag);
+              g.transition("enter").duration(ENTER_TRANSITION_MS).attr("opacity", 1);
+
+              // --- CAPSULE SHAPE ---
+              // Width comes from nodeWidth() so the precomputed layouts space pills by what is drawn
+              const body = g.append("g").attr("class", "map-node-body cursor-pointer transition-opacity duration-300");
+              // Search halo, toggled by applySearchHighlight
+              body.append("rect")
+                  .attr("class", "map-node-halo")
+                  .attr("rx", 22)
+                  .attr("fill", "none")
+                  .attr("stroke", "#fbbf24")
+                  .attr("stroke-width", 2)
+                  .attr("visibility", "hidden");
+              body.append("rect")
+                  .attr("class", "map-node-pill")
+                  .attr("rx", 18) // Pill shape
+                  .attr("ry", 18);
+              body.append("text")
+                  .attr("dy", "0.35em")
+                  .attr("text-anchor", "middle")
+                  .attr("font-size", "12px")
+                  .style("pointer-events", "none");
+              return g;
+          },
+          update => update,
+          exit => exit
+              .classed("exiting", true)
+              .call(e => e.transition("exit").duration(EXIT_TRANSITION_MS).attr("opacity", 0).remove())
+      );
+
+    // Labels and sizes follow renames; colours and weights are left to applyHighlight
+    const body = scene.node.select<SVGGElement>("g.map-node-body");
+    body.select("rect.map-node-halo")
+        .attr("x", d => -d.width / 2 - 4)
+        .attr("y", d => -d.height / 2 - 4)
+        .attr("width", d => d.width + 8)
+        .attr("height", d => d.height + 8);
+    body.select("rect.map-node-pill")
+        .attr("x", d => -d.width / 2)
+        .attr("y", d => -d.height / 2)
+        .attr("width", d => d.width)
+        .attr("height", d => d.height);
+    body.select("text").text(d => d.label);
+
+    applyHighlight();
+    applySearchHighlight();
+
+    // --- LAYOUT ---
+    const simulation = scene.simulation;
+    if (forceLayout) {
+        const isFresh = simulation.nodes().length === 0;
+        simulation.nodes(simulationNodes)
+          .force("link", d3.forceLink<MapDatum, MapLinkDatum>(simulationLinks).id(d => d.id).distance(100));
+
+        if (clusters) {
+            // Pull each type towards its own centre; links only loosely hold the branches together
+            (simulation.force("link") as d3.ForceLink<MapDatum, MapLinkDatum>).strength(0.05);
+            simulation
+              .force("x", d3.forceX<MapDatum>(d => clusters.get(d.type)?.x ?? containerWidth / 2).strength(0.3))
+              .force("y", d3.forceY<MapDatum>(d => clusters.get(d.type)?.y ?? requiredHeight / 2).strength(0.3));
+        } else {
+            simulation
+              // STRICT Y-FORCE for Chronology/Tree structure
+              .force("y", d3.forceY<MapDatum>(d => {
+                  const dDepth = depths[d.id] ?? 0;
+                  return (dDepth * Y_SPACING) + PADDING_TOP; 
+              }).strength(2.5)) 
+              // Gentle X-Force to center
+              .force("x", d3.forceX<MapDatum>(containerWidth / 2).strength(0.08));
+        }
+
+        if (needsFit) {
+            simulation.on("end.fit", () => {
+                simulation.on("end.fit", null);
+                fitToScreen();
+            });
+        }
+
+        // A fresh layout starts hot; structural changes reheat gently so placed nodes barely move
+        if (isFresh || layoutChanged || !wasForceLayout) {
+            simulation.alpha(1).restart();
+        } else if (structureChanged) {
+            simulation.alpha(Math.max(simulation.alpha(), GENTLE_REHEAT)).restart();
+        } else {
+            scene.render();
+        }
+    } else {
+        simulation.stop();
+        scene.render();
+        if (needsFit) fitToScreen();
+
+        // Glide from where the nodes are to the computed positions
+        const from = new Map(simulationNodes.map(d => [d.id, { x: d.x!, y: d.y! }]));
+        const moved = simulationNodes.some(d => {
+            const to = targets.get(d.id);
+            return to && (Math.abs(to.x - d.x!) > 0.5 || Math.abs(to.y - d.y!) > 0.5);
+        });
+        if (moved) {
+            scene.svg.transition("layout")
+                .duration(LAYOUT_TRANSITION_MS)
+                .ease(d3.easeCubicInOut)
+                .tween("layout", () => (t: number) => {
+                    simulationNodes.forEach(d => {
+                        const a = from.get(d.id)!;
+                        const b = targets.get(d.id) || a;
+                        d.x = a.x + (b.x - a.x) * t;
+                        d.y = a.y + (b.y - a.y) * t;
+                    });
+                    scene.render();
+                });
+        }
+    }
+  }, [nodes, links, layout]); 
+
+  // --- 3. HIGHLIGHT ---
+  useEffect(() => {
+    applyHighlight();
+    // Keyboard and search selections are centred once the highlight is in place
+    if (pendingCenterRef.current) {
+        centerOn(pendingCenterRef.current);
+        pendingCenterRef.current = null;
+    }
+  }, [highlightSet]);
+
+  const layoutOptions: Record<MapLayout, string> = {
+    force: labels.layoutForce,
+    radial: labels.layoutRadial,
+    tree: labels.layoutTree,
+    timeline: labels.layoutTimeline,
+    cluster: labels.layoutCluster,
+  };
+
+  const handleLayoutChange = (next: MapLayout) => {
+      setLayout(next);
+      localStorage.setItem(LAYOUT_KEY, next);
+  };
+
+  const handleBgClick = () => {
+      setSelectedNode(null);
+      closeEditor();
+  };
+
+  // --- EXPORT ---
+  const exportOptions: { id: MapExportFormat; label: string }[] = [
+    { id: 'png', label: labels.exportPng },
+    { id: 'svg', label: labels.exportSvg },
+    { id: 'mermaid', label: labels.exportMermaid },
+    { id: 'graphml', label: labels.exportGraphMl },
+    { id: 'opml', label: labels.exportOpml },
+  ];
+
+  const handleExport = async (format: MapExportFormat) => {
+      setIsExportOpen(false);
+      const title = nodes.find(n => n.id === ROOT_NODE_ID)?.label || 'Context';
+      const { ext, mime } = MAP_FORMAT_META[format];
+      const filename = `ContextDojo_Map_${new Date().toISOString().split('T')[0]}.${ext}`;
+
+      try {
+          if (format === 'mermaid') return downloadFile(exportMapMermaid(nodes, links), filename, mime);
+          if (format === 'graphml') return downloadFile(exportMapGraphMl(nodes, links, title), filename, mime);
+          if (format === 'opml') return downloadFile(exportMapOpml(nodes, links, title), filename, mime);
+
+          if (!svgRef.current) return;
+          const presentTypes = new Set(nodes.map(n => n.type));
+          const legend: LegendItem[] = [
+              { label: labels.legendDiscussed, color: '#e2e8f0' },
+              { label: labels.legendRecommendation, color: '#94a3b8', dashed: true },
+              ...(['concept', 'entity', 'action', 'emotion', 'marker'] as const)
+                  .filter(t => presentTypes.has(t))
+                  .map(t => ({ label: t, color: COLORS[t] })),
+          ];
+          const { svg, width, height } = buildStandaloneSvg(svgRef.current, legend, title);
+          if (format === 'svg') return downloadFile(svg, filename, mime);
+          downloadFile(await svgToPngBlob(svg, width, height), filename, mime);
+      } catch (err) {
+          alert(`${labels.exportFailed}: ${err instanceof Error ? err.message : err}`);
       }
-    });
+  };
 
-    return () => {
-      simulation.stop();
-    };
-  }, [nodes, links, highlightSet]); 
+  const inputClass = "bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-white w-full focus:border-blue-500 outline-none";
+  const actionClass = "text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider";
 
-  const handleBgClick = () => setSelectedNode(null);
+  const renderEditor = () => (
+      <form
+          onSubmit={(e) => { e.preventDefault(); submitEdit(); }}
+          className="flex flex-col gap-2 pt-2 border-t border-slate-700/60"
+      >
+          {(editMode === 'add' || editMode === 'rename') && (
+              <div className="flex gap-2">
+                  <input
+                      autoFocus
+                      type="text"
+                      value={draftLabel}
+                      onChange={(e) => setDraftLabel(e.target.value)}
+                      placeholder={labels.nodeLabel}
+                      className={inputClass}
+                  />
+                  {editMode === 'add' && (
+                      <select value={draftType} onChange={(e) => setDraftType(e.target.value as EditableNodeType)} className={`${inputClass} w-28`}>
+                          {EDITABLE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                  )}
+              </div>
+          )}
+          {(editMode === 'merge' || editMode === 'move') && (
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass}>
+                  <option value="">{editMode === 'merge' ? labels.mergeInto : labels.moveUnder}…</option>
+                  {(editMode === 'merge' ? editTargets.merge : editTargets.move).map(n => (
+                      <option key={n.id} value={n.id}>{n.label}</option>
+                  ))}
+              </select>
+          )}
+          <div className="flex justify-end gap-2">
+              <button type="button" onClick={closeEditor} className="text-xs font-medium text-slate-400 hover:text-white px-3 py-1 rounded-md hover:bg-slate-700">
+                  {labels.cancel}
+              </button>
+              <button type="submit" className="text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded-md">
+                  {labels.done}
+              </button>
+          </div>
+      </form>
+  );
 
   return (
     <div 
         ref={containerRef} 
         onClick={handleBgClick}
-        className="w-full h-full min-h-[400px] overflow-y-auto overflow-x-hidden bg-slate-900 border-t border-slate-700 relative scrollbar-thin scrollbar-thumb-slate-700"
+        onKeyDown={handleMapKeyDown}
+        tabIndex={0}
+        aria-label={labels.mapKeyboardHint}
+        className="w-full h-full min-h-[400px] overflow-hidden bg-slate-900 border-t border-slate-700 relative focus:outline-none"
     >
-      <div className="absolute top-3 left-3 flex flex-col gap-2 pointer-events-none opacity-90 z-10 sticky">
+      <div className="absolute top-3 left-3 flex flex-col gap-2 pointer-events-none opacity-90 z-10">
           <div className="flex items-center gap-2">
               <span className="w-2.5 h-2.5 rounded-full bg-sky-400 shadow-[0_0_8px_rgba(56,189,248,0.8)]"></span>
               <span className="text-[10px] text-slate-300 font-bold tracking-wide uppercase">{labels.legendDiscussed}</span>
@@ -330,13 +1018,126 @@ const MindMap: React.FC<MindMapProps> = ({ nodes, links, labels }) => {
           </div>
       </div>
 
-      <svg ref={svgRef} className="w-full block min-h-full"></svg>
+      <div onClick={(e) => e.stopPropagation()} className="absolute top-3 right-3 z-10 flex items-center gap-1 bg-slate-800/90 border border-slate-700 rounded-lg p-1 backdrop-blur-sm">
+          <div className="relative flex items-center">
+              <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  onKeyDown={handleSearchKeyDown}
+                  placeholder={labels.searchMap}
+                  className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-[11px] text-white w-32 focus:w-44 transition-all focus:border-blue-500 outline-none"
+              />
+              {searchQuery.trim() && (
+                  <span className="absolute right-2 text-[9px] text-slate-500 pointer-events-none">
+                      {searchMatches.length ? `${Math.min(searchIndex, searchMatches.length - 1) + 1}/${searchMatches.length}` : '0'}
+                  </span>
+              )}
+          </div>
+          <select
+              value={layout}
+              onChange={(e) => handleLayoutChange(e.target.value as MapLayout)}
+              title={labels.mapLayout}
+              className="bg-transparent text-[10px] font-medium text-slate-300 hover:text-white uppercase tracking-wider px-1 py-1 rounded hover:bg-slate-700 outline-none cursor-pointer"
+          >
+              {MAP_LAYOUTS.map(l => <option key={l} value={l} className="bg-slate-800 normal-case">{layoutOptions[l]}</option>)}
+          </select>
+          <div className="relative">
+              <button
+                  onClick={() => setIsExportOpen(o => !o)}
+                  title={labels.exportMap}
+                  className="p-1 text-slate-300 hover:text-white rounded hover:bg-slate-700"
+              >
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                      <path d="M10.75 2.75a.75.75 0 0 0-1.5 0v8.614L6.295 8.235a.75.75 0 1 0-1.09 1.03l4.25 4.5a.75.75 0 0 0 1.09 0l4.25-4.5a.75.75 0 0 0-1.09-1.03l-2.955 3.129V2.75Z" />
+                      <path d="M3.5 12.75a.75.75 0 0 0-1.5 0v2.5A2.75 2.75 0 0 0 4.75 18h10.5A2.75 2.75 0 0 0 18 15.25v-2.5a.75.75 0 0 0-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5Z" />
+                  </svg>
+              </button>
+              {isExportOpen && (
+                  <div className="absolute right-0 mt-2 w-44 bg-slate-800 border border-slate-700 rounded-lg shadow-2xl z-30 py-1 animate-fade-in">
+                      {exportOptions.map(opt => (
+                          <button
+                              key={opt.id}
+                              onClick={() => handleExport(opt.id)}
+                              className="w-full text-left px-3 py-2 text-xs text-slate-200 hover:bg-slate-700"
+                          >
+                              {opt.label}
+                          </button>
+                      ))}
+                  </div>
+              )}
+          </div>
+          {onEdit && (
+              <>
+                  <button
+                      onClick={() => { setSelectedNode(null); setIsAddingToRoot(true); startEdit('add'); }}
+                      title={labels.addNode}
+                      className="text-[10px] font-medium text-slate-300 hover:text-white px-2 py-1 rounded hover:bg-slate-700 uppercase tracking-wider"
+                  >
+                      + {labels.addNode}
+                  </button>
+                  {onMergeSimilar && (
+                      <button
+                          onClick={onMergeSimilar}
+                          disabled={isMerging}
+                          title={labels.mergeSimilarHint}
+                          className="text-[10px] font-medium text-slate-300 hover:text-white disabled:text-slate-500 px-2 py-1 rounded hover:bg-slate-700 uppercase tracking-wider"
+                      >
+                          {isMerging ? labels.merging : labels.mergeSimilar}
+                      </button>
+                  )}
+                  {onUndo && (
+                      <button
+                          onClick={onUndo}
+                          disabled={!canUndo}
+                          title={labels.undo}
+                          className="p-1 text-slate-300 hover:text-white disabled:text-slate-600 rounded hover:bg-slate-700 disabled:hover:bg-transparent"
+                      >
+                          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                              <path fillRule="evenodd" d="M7.793 2.232a.75.75 0 0 1-.025 1.06L3.622 7.25h10.003a5.375 5.375 0 0 1 0 10.75H10.75a.75.75 0 0 1 0-1.5h2.875a3.875 3.875 0 0 0 0-7.75H3.622l4.146 3.957a.75.75 0 0 1-1.036 1.085l-5.5-5.25a.75.75 0 0 1 0-1.085l5.5-5.25a.75.75 0 0 1 1.06.025Z" clipRule="evenodd" />
+                          </svg>
+                      </button>
+                  )}
+              </>
+          )}
+      </div>
+
+      <svg ref={svgRef} className="w-full h-full block cursor-grab active:cursor-grabbing"></svg>
 
-      {/* Insight Card Overlay (Sticky at bottom) */}
+      {/* Overview + zoom controls */}
+      <div onClick={(e) => e.stopPropagation()} className="absolute top-14 right-3 z-10 flex flex-col items-end gap-1">
+          <svg
+              ref={minimapRef}
+              width={MINIMAP_WIDTH}
+              height={MINIMAP_HEIGHT}
+              className="bg-slate-950/90 border border-slate-700 rounded-lg cursor-crosshair"
+          ></svg>
+          <div className="flex items-center gap-1 bg-slate-800/90 border border-slate-700 rounded-lg p-1 backdrop-blur-sm">
+              <button onClick={() => zoomBy(1 / ZOOM_STEP)} title={labels.zoomOut} className="w-6 h-6 text-sm text-slate-300 hover:text-white rounded hover:bg-slate-700">−</button>
+              <button onClick={() => zoomBy(ZOOM_STEP)} title={labels.zoomIn} className="w-6 h-6 text-sm text-slate-300 hover:text-white rounded hover:bg-slate-700">+</button>
+              <button onClick={fitToScreen} title={labels.fitToScreen} className="p-1 text-slate-300 hover:text-white rounded hover:bg-slate-700">
+                  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                      <path d="M3.28 2.22a.75.75 0 0 0-1.06 1.06L5.44 6.5H2.75a.75.75 0 0 0 0 1.5h4.5A.75.75 0 0 0 8 7.25v-4.5a.75.75 0 0 0-1.5 0v2.69L3.28 2.22ZM13.5 2.75a.75.75 0 0 0-1.5 0v4.5c0 .414.336.75.75.75h4.5a.75.75 0 0 0 0-1.5h-2.69l3.22-3.22a.75.75 0 0 0-1.06-1.06L13.5 5.44V2.75ZM3.28 17.78l3.22-3.22v2.69a.75.75 0 0 0 1.5 0v-4.5a.75.75 0 0 0-.75-.75h-4.5a.75.75 0 0 0 0 1.5h2.69l-3.22 3.22a.75.75 0 1 0 1.06 1.06ZM13.5 14.56l3.22 3.22a.75.75 0 1 0 1.06-1.06l-3.22-3.22h2.69a.75.75 0 0 0 0-1.5h-4.5a.75.75 0 0 0-.75.75v4.5a.75.75 0 0 0 1.5 0v-2.69Z" />
+                  </svg>
+              </button>
+          </div>
+      </div>
+
+      {isAddingToRoot && !selectedNode && (
+          <div
+            onClick={(e) => e.stopPropagation()}
+            className="absolute bottom-4 left-4 right-4 bg-slate-800/95 backdrop-blur-md border border-slate-600 rounded-xl p-4 shadow-2xl animate-fade-in z-20 flex flex-col gap-2"
+          >
+              <h4 className="text-sm font-bold text-white">{labels.addNode}</h4>
+              {renderEditor()}
+          </div>
+      )}
+
+      {/* Insight Card Overlay (pinned to the bottom) */}
       {selectedNode && (
           <div 
             onClick={(e) => e.stopPropagation()}
-            className="sticky bottom-4 left-4 right-4 mx-4 bg-slate-800/95 backdrop-blur-md border border-slate-600 rounded-xl p-4 shadow-2xl animate-fade-in z-20 flex flex-col gap-2 mb-4"
+            className="absolute bottom-4 left-4 right-4 bg-slate-800/95 backdrop-blur-md border border-slate-600 rounded-xl p-4 shadow-2xl animate-fade-in z-20 flex flex-col gap-2"
           >
               <div className="flex justify-between items-start">
                   <div className="flex items-center gap-2">
@@ -346,7 +1147,7 @@ const MindMap: React.FC<MindMapProps> = ({ nodes, links, labels }) => {
                       ></div>
                       <h4 className="text-lg font-bold text-white leading-none">{selectedNode.label}</h4>
                   </div>
-                  <button onClick={() => setSelectedNode(null)} className="text-slate-400 hover:text-white">
+                  <button onClick={handleBgClick} className="text-slate-400 hover:text-white">
                       <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
                           <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
                       </svg>
@@ -369,6 +1170,38 @@ const MindMap: React.FC<MindMapProps> = ({ nodes, links, labels }) => {
               <p className="text-sm text-slate-300 leading-relaxed">
                   {selectedNode.description || "No description available."}
               </p>
+
+              {onSteer && selectedNode.status === 'potential' && (
+                  <button
+                      onClick={() => { onSteer(selectedNode); setSelectedNode(null); }}
+                      disabled={!canSteer}
+                      className="self-start mt-1 text-xs font-medium bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 text-white px-3 py-1.5 rounded-md transition-colors flex items-center gap-1.5"
+                  >
+                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                          <path fillRule="evenodd" d="M3 10a.75.75 0 0 1 .75-.75h10.638L10.23 5.29a.75.75 0 1 1 1.04-1.08l5.5 5.25a.75.75 0 0 1 0 1.08l-5.5 5.25a.75.75 0 1 1-1.04-1.08l4.158-3.96H3.75A.75.75 0 0 1 3 10Z" clipRule="evenodd" />
+                      </svg>
+                      {labels.steerHere}
+                  </button>
+              )}
+
+              {onEdit && (editMode ? renderEditor() : (
+                  <div className="flex flex-wrap gap-x-4 gap-y-2 pt-2 border-t border-slate-700/60">
+                      <button onClick={() => startEdit('rename')} className={actionClass}>{labels.rename}</button>
+                      <button onClick={() => startEdit('add')} className={actionClass}>{labels.addChild}</button>
+                      {selectedNode.type !== 'root' && (
+                          <>
+                              <button onClick={() => startEdit('move')} className={actionClass}>{labels.moveUnder}</button>
+                              <button onClick={() => startEdit('merge')} className={actionClass}>{labels.mergeInto}</button>
+                              <button onClick={() => onEdit({ kind: 'delete', nodeId: selectedNode.id, withBranch: false })} className="text-[10px] text-rose-400/80 hover:text-rose-300 uppercase tracking-wider">
+                                  {labels.delete}
+                              </button>
+                              <button onClick={() => onEdit({ kind: 'delete', nodeId: selectedNode.id, withBranch: true })} className="text-[10px] text-rose-400/80 hover:text-rose-300 uppercase tracking-wider">
+                                  {labels.deleteBranch}
+                              </button>
+                          </>
+                      )}
+                  </div>
+              ))}
           </div>
       )}
     </div>
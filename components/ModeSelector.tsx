@@ -1,48 +1,83 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ConversationMode } from '../types';
+import { LabelSet, Language } from '../constants/translations';
+import { PRACTICE_LANGUAGES } from '../constants/languages';
+import { getSettings } from '../services/settingsStore';
+
+export interface SessionStartOptions {
+  mode: Exclude<ConversationMode, null>;
+  practiceLanguage: string;
+  uiLanguage: Language;
+  goal: string;
+}
 
 interface ModeSelectorProps {
-  onSelect: (mode: ConversationMode) => void;
+  onStart: (options: SessionStartOptions) => void;
+  onOpenScenarios: () => void;
+  uiLanguage: Language;
+  labels: LabelSet;
 }
 
-const ModeSelector: React.FC<ModeSelectorProps> = ({ onSelect }) => {
+const UI_LANGUAGES: { id: Language; title: string }[] = [
+  { id: 'en', title: 'English' },
+  { id: 'zh', title: '中文' },
+  { id: 'de', title: 'Deutsch' },
+];
+
+const ModeSelector: React.FC<ModeSelectorProps> = ({ onStart, onOpenScenarios, uiLanguage, labels }) => {
+  const [mode, setMode] = useState<SessionStartOptions['mode']>('adaptive');
+  const [practiceLanguage, setPracticeLanguage] = useState(() => getSettings().defaultPracticeLanguage);
+  const [chosenUiLanguage, setChosenUiLanguage] = useState<Language>(uiLanguage);
+  const [goal, setGoal] = useState('');
+
   const modes = [
+    {
+      id: 'adaptive',
+      title: labels.modeAdaptive,
+      desc: labels.modeAdaptiveDesc,
+      icon: '🧭',
+      color: 'bg-blue-600',
+    },
     {
       id: 'topical',
-      title: 'Topical Discussion',
-      desc: 'Practice speaking clearly about specific subjects, hobbies, or current events.',
+      title: labels.modeTopical,
+      desc: labels.modeTopicalDesc,
       icon: '💡',
       color: 'bg-emerald-600',
     },
     {
       id: 'social',
-      title: 'Social Mixer',
-      desc: 'Practice small talk, breaking the ice, and active listening.',
+      title: labels.modeSocial,
+      desc: labels.modeSocialDesc,
       icon: '🥂',
       color: 'bg-pink-600',
     },
     {
       id: 'debate',
-      title: 'Deep Discussion',
-      desc: 'Structure complex arguments and discuss philosophy or logic.',
+      title: labels.modeDebate,
+      desc: labels.modeDebateDesc,
       icon: '🧠',
       color: 'bg-purple-600',
     },
   ];
 
+  const selectClass = "bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white w-full focus:border-blue-500 outline-none";
+
   return (
-    <div className="flex flex-col items-center justify-center h-full p-6">
-      <h2 className="text-3xl font-bold text-white mb-2">Choose Your Context</h2>
+    <div className="flex flex-col items-center justify-center h-full p-6 overflow-y-auto">
+      <h2 className="text-3xl font-bold text-white mb-2">{labels.chooseContext}</h2>
       <p className="text-slate-400 mb-8 text-center max-w-md">
-        Select a scenario to start practicing your conversational flow.
+        {labels.chooseContextSub}
       </p>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 w-full max-w-5xl">
         {modes.map((m) => (
           <button
             key={m.id}
-            onClick={() => onSelect(m.id as ConversationMode)}
-            className="group relative overflow-hidden rounded-2xl bg-slate-800 border border-slate-700 p-6 hover:border-slate-500 transition-all hover:shadow-2xl hover:-translate-y-1 text-left"
+            onClick={() => setMode(m.id as SessionStartOptions['mode'])}
+            className={`group relative overflow-hidden rounded-2xl bg-slate-800 border p-6 transition-all hover:shadow-2xl hover:-translate-y-1 text-left ${
+              mode === m.id ? 'border-blue-500 ring-1 ring-blue-500' : 'border-slate-700 hover:border-slate-500'
+            }`}
           >
             <div className={`absolute top-0 right-0 p-4 opacity-10 group-hover:opacity-20 transition-opacity text-6xl`}>
               {m.icon}
@@ -55,8 +90,45 @@ const ModeSelector: React.FC<ModeSelectorProps> = ({ onSelect }) => {
           </button>
         ))}
       </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 w-full max-w-5xl mt-6">
+        <div>
+          <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.practiceLanguage}</label>
+          <select value={practiceLanguage} onChange={(e) => setPracticeLanguage(e.target.value)} className={selectClass}>
+            {PRACTICE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.native}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.uiLanguage}</label>
+          <select value={chosenUiLanguage} onChange={(e) => setChosenUiLanguage(e.target.value as Language)} className={selectClass}>
+            {UI_LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.title}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.sessionGoal}</label>
+          <input
+            type="text"
+            value={goal}
+            onChange={(e) => setGoal(e.target.value)}
+            placeholder={labels.sessionGoalPlaceholder}
+            className={selectClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 mt-8">
+        <button
+          onClick={() => onStart({ mode, practiceLanguage, uiLanguage: chosenUiLanguage, goal: goal.trim() })}
+          className="bg-blue-600 hover:bg-blue-500 text-white font-semibold px-6 py-2.5 rounded-xl shadow-lg transition-colors"
+        >
+          {labels.startSession}
+        </button>
+        <button onClick={onOpenScenarios} className="text-sm text-slate-400 hover:text-white underline">
+          {labels.orPickScenario}
+        </button>
+      </div>
     </div>
   );
 };
 
-export default ModeSelector;
\ No newline at end of file
+export default ModeSelector;
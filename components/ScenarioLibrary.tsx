@@ -0,0 +1,220 @@
+import React, { useState, useRef } from 'react';
+import { Scenario, ScenarioDifficulty } from '../types';
+import { LabelSet } from '../constants/translations';
+import {
+  getAllScenarios,
+  emptyScenario,
+  upsertCustomScenario,
+  deleteCustomScenario,
+  validateScenario,
+  exportScenariosJson,
+  importScenariosJson,
+  loadCustomScenarios,
+} from '../services/scenarioStore';
+import { downloadFile } from '../services/sessionExport';
+
+interface ScenarioLibraryProps {
+  activeScenarioId?: string;
+  onStartScenario: (scenario: Scenario) => void;
+  onClose: () => void;
+  labels: LabelSet;
+}
+
+const DIFFICULTY_STYLES: Record<ScenarioDifficulty, string> = {
+  beginner: 'border-emerald-500/50 text-emerald-400',
+  intermediate: 'border-amber-500/50 text-amber-400',
+  advanced: 'border-rose-500/50 text-rose-400',
+};
+
+// Multi-line textarea <-> string[] (one item per line)
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const ScenarioLibrary: React.FC<ScenarioLibraryProps> = ({ activeScenarioId, onStartScenario, onClose, labels }) => {
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => getAllScenarios());
+  const [editing, setEditing] = useState<Scenario | null>(null);
+  const [problems, setProblems] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setScenarios(getAllScenarios());
+
+  const handleSave = () => {
+    if (!editing) return;
+    const issues = validateScenario(editing);
+    setProblems(issues);
+    if (issues.length) return;
+    upsertCustomScenario(editing);
+    setEditing(null);
+    refresh();
+  };
+
+  const handleDelete = (scenario: Scenario) => {
+    if (!window.confirm(`${labels.deleteScenarioConfirm} "${scenario.title}"?`)) return;
+    deleteCustomScenario(scenario.id);
+    refresh();
+  };
+
+  const handleExport = () => {
+    downloadFile(exportScenariosJson(loadCustomScenarios()), 'ContextDojo_Scenarios.json', 'application/json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      importScenariosJson(await file.text());
+      refresh();
+    } catch (err) {
+      alert(`${labels.importFailed}: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const inputClass = "bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none";
+  const labelClass = "text-xs text-slate-300 font-semibold block mb-1";
+
+  const renderEditor = (draft: Scenario) => {
+    const update = <K extends keyof Scenario>(key: K, value: Scenario[K]) => setEditing({ ...draft, [key]: value });
+    return (
+      <div className="flex flex-col gap-3">
+        <div>
+          <label className={labelClass}>{labels.scenarioTitle}</label>
+          <input type="text" value={draft.title} onChange={(e) => update('title', e.target.value)} className={inputClass} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>{labels.scenarioMode}</label>
+            <select value={draft.mode} onChange={(e) => update('mode', e.target.value as Scenario['mode'])} className={inputClass}>
+              <option value="adaptive">adaptive</option>
+              <option value="topical">topical</option>
+              <option value="social">social</option>
+              <option value="debate">debate</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{labels.difficulty}</label>
+            <select value={draft.difficulty} onChange={(e) => update('difficulty', e.target.value as ScenarioDifficulty)} className={inputClass}>
+              <option value="beginner">beginner</option>
+              <option value="intermediate">intermediate</option>
+              <option value="advanced">advanced</option>
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>{labels.persona}</label>
+          <textarea rows={2} value={draft.persona} onChange={(e) => update('persona', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{labels.setting}</label>
+          <input type="text" value={draft.setting} onChange={(e) => update('setting', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{labels.openingLine}</label>
+          <input type="text" value={draft.openingLine} onChange={(e) => update('openingLine', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{labels.goals}</label>
+          <textarea rows={3} value={toLines(draft.goals)} onChange={(e) => update('goals', fromLines(e.target.value))} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{labels.successCriteria}</label>
+          <textarea rows={3} value={toLines(draft.successCriteria)} onChange={(e) => update('successCriteria', fromLines(e.target.value))} className={inputClass} />
+        </div>
+
+        {problems.length > 0 && (
+          <ul className="text-xs text-rose-400 list-disc pl-4">
+            {problems.map(p => <li key={p}>{p}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={() => { setEditing(null); setProblems([]); }} className="text-xs font-medium text-slate-400 hover:text-white px-3 py-1.5 rounded-md hover:bg-slate-800">
+            {labels.cancel}
+          </button>
+          <button onClick={handleSave} className="text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-md">
+            {labels.done}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-slate-200 font-semibold text-sm tracking-wide">{labels.scenarioLibrary}</h3>
+          <div className="flex items-center gap-3">
+            {!editing && (
+              <>
+                <button onClick={() => setEditing(emptyScenario())} className="text-[10px] text-blue-400 hover:text-blue-300 uppercase tracking-wider">
+                  {labels.newScenario}
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider">
+                  {labels.importLabel}
+                </button>
+                <button onClick={handleExport} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider">
+                  {labels.exportLabel}
+                </button>
+              </>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-white">
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 scrollbar-thin scrollbar-thumb-slate-700">
+          {editing ? renderEditor(editing) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {scenarios.map(scenario => (
+                <div
+                  key={scenario.id}
+                  className={`p-4 rounded-xl border flex flex-col gap-2 ${
+                    scenario.id === activeScenarioId ? 'border-blue-500/50 bg-blue-900/10' : 'border-slate-800 bg-slate-800/50'
+                  }`}
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <h4 className="text-sm font-bold text-white">{scenario.title}</h4>
+                    <span className={`text-[10px] px-2 py-0.5 rounded-full border uppercase shrink-0 ${DIFFICULTY_STYLES[scenario.difficulty]}`}>
+                      {scenario.difficulty}
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-400 leading-relaxed">{scenario.setting}</p>
+                  <p className="text-xs text-slate-500 italic">"{scenario.openingLine}"</p>
+                  <div className="flex items-center justify-between mt-auto pt-2">
+                    <button
+                      onClick={() => onStartScenario(scenario)}
+                      className="text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white px-3 py-1 rounded-md"
+                    >
+                      {labels.startScenario}
+                    </button>
+                    <div className="flex gap-3">
+                      <button onClick={() => { setEditing(scenario); setProblems([]); }} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider">
+                        {scenario.builtIn ? labels.duplicate : labels.edit}
+                      </button>
+                      {!scenario.builtIn && (
+                        <button onClick={() => handleDelete(scenario)} className="text-[10px] text-rose-400/80 hover:text-rose-300 uppercase tracking-wider">
+                          {labels.delete}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioLibrary;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { SavedSession } from '../types';
+import { LabelSet } from '../constants/translations';
+import { listSessions, renameSession, deleteSession, searchSessions } from '../services/sessionStore';
+
+interface SessionLibraryProps {
+  currentSessionId: string;
+  onOpenSession: (session: SavedSession) => void;
+  onDeleteSession: (id: string) => void;
+  onClose: () => void;
+  labels: LabelSet;
+}
+
+const SessionLibrary: React.FC<SessionLibraryProps> = ({
+  currentSessionId,
+  onOpenSession,
+  onDeleteSession,
+  onClose,
+  labels
+}) => {
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const refresh = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const filtered = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+
+  const startRename = (session: SavedSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    if (editingId && editTitle.trim()) {
+      await renameSession(editingId, editTitle.trim());
+      await refresh();
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: SavedSession) => {
+    if (!window.confirm(`${labels.deleteSessionConfirm} "${session.title}"?`)) return;
+    await deleteSession(session.id);
+    onDeleteSession(session.id);
+    await refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[80vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-slate-200 font-semibold text-sm tracking-wide">{labels.sessionLibrary}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-3 border-b border-slate-800">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={labels.searchSessions}
+            className="w-full bg-slate-950 border border-slate-700 text-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500 placeholder-slate-600"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-3 space-y-2 scrollbar-thin scrollbar-thumb-slate-700">
+          {filtered.length === 0 && (
+            <p className="text-center text-slate-500 text-sm italic py-8">{labels.noSessions}</p>
+          )}
+
+          {filtered.map(session => (
+            <div
+              key={session.id}
+              className={`p-3 rounded-lg border transition-colors ${
+                session.id === currentSessionId
+                  ? 'border-blue-500/50 bg-blue-900/10'
+                  : 'border-slate-800 bg-slate-800/50 hover:border-slate-600'
+              }`}
+            >
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  type="text"
+                  value={editTitle}
+                  onChange={(e) => setEditTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-slate-950 border border-blue-500 rounded px-2 py-1 text-sm text-white outline-none"
+                />
+              ) : (
+                <button onClick={() => onOpenSession(session)} className="w-full text-left">
+                  <p className="text-sm font-medium text-slate-200 truncate">{session.title}</p>
+                </button>
+              )}
+
+              <div className="flex items-center justify-between mt-1.5">
+                <span className="text-[10px] text-slate-500">
+                  {session.updatedAt.toLocaleString()} · {session.state.conversationHistory.length} {labels.messages}
+                  {session.id === currentSessionId && ` · ${labels.currentSession}`}
+                </span>
+                <div className="flex gap-3">
+                  <button onClick={() => startRename(session)} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider">
+                    {labels.rename}
+                  </button>
+                  <button onClick={() => handleDelete(session)} className="text-[10px] text-rose-400/80 hover:text-rose-300 uppercase tracking-wider">
+                    {labels.delete}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionLibrary;
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ChatMessage, SessionReport, SkillId } from '../types';
+import { LabelSet } from '../constants/translations';
+
+interface SessionReportPanelProps {
+  report: SessionReport;
+  history: ChatMessage[];
+  onExport: () => void;
+  onClose: () => void;
+  labels: LabelSet;
+}
+
+const scoreColor = (score: number) => {
+  if (score >= 70) return 'bg-emerald-500';
+  if (score >= 40) return 'bg-amber-500';
+  return 'bg-rose-500';
+};
+
+const SessionReportPanel: React.FC<SessionReportPanelProps> = ({ report, history, onExport, onClose, labels }) => {
+  const skillTitles: Record<SkillId, string> = {
+    active_listening: labels.skillActiveListening,
+    question_asking: labels.skillQuestionAsking,
+    turn_balance: labels.skillTurnBalance,
+    topic_maintenance: labels.skillTopicMaintenance,
+    filler_words: labels.skillFillerWords,
+    politeness_register: labels.skillPoliteness,
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <div>
+            <h3 className="text-slate-200 font-semibold text-sm tracking-wide">{labels.coachingReport}</h3>
+            <span className="text-[10px] text-slate-500">{report.generatedAt.toLocaleString()}</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={onExport} className="text-[10px] text-slate-400 hover:text-slate-200 uppercase tracking-wider">
+              {labels.exportLabel}
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-thin scrollbar-thumb-slate-700">
+          {/* Skills */}
+          <div className="space-y-4">
+            {report.skills.map(skill => (
+              <div key={skill.skill}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-slate-200">{skillTitles[skill.skill]}</span>
+                  <span className="text-sm font-bold text-white">{skill.score}</span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div className={`h-full ${scoreColor(skill.score)} transition-all`} style={{ width: `${skill.score}%` }} />
+                </div>
+                <p className="text-xs text-slate-400 mt-1.5">{skill.summary}</p>
+                {skill.evidence.map((e, i) => (
+                  <blockquote key={i} className="mt-1 pl-2 border-l-2 border-slate-600 text-xs text-slate-300 italic">
+                    "{e.quote}"
+                    <span className="not-italic text-slate-500 ml-1">
+                      — {history[e.messageIndex]?.timestamp.toLocaleTimeString() || `#${e.messageIndex + 1}`}
+                    </span>
+                  </blockquote>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {report.strengths.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-emerald-400 mb-2">{labels.strengths}</h4>
+              <ul className="space-y-1 text-sm text-slate-300 list-disc pl-5">
+                {report.strengths.map(s => <li key={s}>{s}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-xs font-bold uppercase tracking-wider text-amber-400 mb-2">{labels.topImprovements}</h4>
+            <ol className="space-y-1 text-sm text-slate-300 list-decimal pl-5">
+              {report.improvements.map(s => <li key={s}>{s}</li>)}
+            </ol>
+          </div>
+
+          {report.topics.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold uppercase tracking-wider text-sky-400 mb-2">{labels.topicsCovered}</h4>
+              <div className="flex flex-wrap gap-2">
+                {report.topics.map(t => (
+                  <span key={t} className="text-xs px-2.5 py-1 rounded-full border border-sky-500/40 text-sky-300 bg-sky-900/20">{t}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReportPanel;
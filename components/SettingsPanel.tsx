@@ -0,0 +1,407 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LabelSet } from '../constants/translations';
+import { PRACTICE_LANGUAGES } from '../constants/languages';
+import { ProviderId } from '../services/llmProvider';
+import { isVaultSupported } from '../services/secretVault';
+import { downloadFile } from '../services/sessionExport';
+import {
+  AppSettings, ConnectionTestResult, LOCAL_STAND_IN_PATH, SettingsIssue, SettingsSecrets, TEMPERATURE_RANGE,
+  exportSettingsProfile, getLockState, getSecrets, getSettings, importSettingsProfile, lockSettings,
+  saveSettings, setPassphrase, subscribeSettings, testConnection, unlockSettings, validateSettings,
+} from '../services/settingsStore';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  labels: LabelSet;
+}
+
+const PROVIDERS: { id: ProviderId; title: string }[] = [
+  { id: 'gemini', title: 'Google Gemini' },
+  { id: 'openai', title: 'OpenAI-compatible' },
+  { id: 'mock', title: 'Mock (offline)' },
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const issueLabel = (issue: SettingsIssue, labels: LabelSet) => ({
+  required: labels.settingsRequired,
+  invalid_url: labels.settingsInvalidUrl,
+  invalid_format: labels.settingsInvalidFormat,
+  out_of_range: labels.settingsOutOfRange,
+}[issue]);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-3">
+    <h4 className="text-[10px] text-slate-500 uppercase tracking-wider font-semibold">{title}</h4>
+    {children}
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, labels }) => {
+  const [draft, setDraft] = useState<AppSettings>(() => getSettings());
+  const [draftSecrets, setDraftSecrets] = useState<SettingsSecrets>(() => getSecrets());
+  const [lockState, setLockState] = useState(() => getLockState());
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [connection, setConnection] = useState<ConnectionTestResult | 'testing' | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [includeKeys, setIncludeKeys] = useState(false);
+  const [notice, setNotice] = useState<{ text: string; error: boolean } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Unlocking, locking or importing replaces what the form shows
+  const reload = () => {
+    setDraft(getSettings());
+    setDraftSecrets(getSecrets());
+    setLockState(getLockState());
+  };
+
+  useEffect(() => subscribeSettings(() => setLockState(getLockState())), []);
+
+  const issues = validateSettings(draft, draftSecrets, { locked: lockState.locked });
+  const hasIssues = Object.keys(issues).length > 0;
+
+  const update = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+    setConnection(null);
+  };
+
+  const updateSecret = (key: keyof SettingsSecrets, value: string) => {
+    setDraftSecrets(prev => ({ ...prev, [key]: value.trim() }));
+    setConnection(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSettings(draft, lockState.locked ? undefined : draftSecrets);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    setConnection('testing');
+    setConnection(await testConnection(draft, draftSecrets));
+  };
+
+  const handleUnlock = async () => {
+    try {
+      await unlockSettings(unlockPassphrase);
+      setUnlockPassphrase('');
+      setNotice(null);
+      reload();
+    } catch {
+      setNotice({ text: labels.wrongPassphrase, error: true });
+    }
+  };
+
+  const handleLock = () => {
+    lockSettings();
+    reload();
+  };
+
+  // Saves the form first so the secrets being encrypted are the ones on screen
+  const handleSetPassphrase = async (passphrase: string | null) => {
+    await saveSettings(draft, draftSecrets);
+    await setPassphrase(passphrase);
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setNotice({ text: passphrase ? labels.passphraseSet : labels.passphraseRemoved, error: false });
+    reload();
+  };
+
+  const handleExport = () => {
+    const name = profileName.trim() || 'ContextDojo';
+    const slug = name.replace(/[^A-Za-z0-9_-]+/g, '_');
+    downloadFile(exportSettingsProfile(name, includeKeys), `ContextDojo_Settings_${slug}.json`, 'application/json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = await importSettingsProfile(await file.text());
+      reload();
+      setProfileName(result.name);
+      setNotice({ text: result.locked ? labels.profileImportedLocked : labels.profileImported, error: false });
+    } catch (err) {
+      console.error("Settings import failed:", err);
+      setNotice({ text: `${labels.importFailed}: ${err instanceof Error ? err.message : err}`, error: true });
+    }
+  };
+
+  const inputClass = "bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none";
+  const smallButtonClass = "text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-200 px-3 py-1.5 rounded-md border border-slate-700 transition-colors disabled:opacity-40";
+
+  const fieldError = (field: keyof typeof issues) => issues[field] && (
+    <p className="text-[11px] text-red-300 mt-1">{issueLabel(issues[field]!, labels)}</p>
+  );
+
+  const temperatureSlider = (key: 'temperature' | 'analysisTemperature', label: string) => (
+    <div>
+      <label className="text-xs text-slate-300 font-semibold flex justify-between mb-1">
+        <span>{label}</span>
+        <span className="text-slate-500 font-mono">{draft[key].toFixed(1)}</span>
+      </label>
+      <input
+        type="range"
+        min={TEMPERATURE_RANGE.min}
+        max={TEMPERATURE_RANGE.max}
+        step={0.1}
+        value={draft[key]}
+        onChange={(e) => update(key, parseFloat(e.target.value))}
+        className="w-full accent-blue-500"
+      />
+      {fieldError(key)}
+    </div>
+  );
+
+  const secretInput = (key: keyof SettingsSecrets, label: string, placeholder?: string) => (
+    <div>
+      <label className="text-xs text-slate-300 font-semibold block mb-1">{label}</label>
+      <input
+        type="password"
+        autoComplete="off"
+        value={draftSecrets[key]}
+        onChange={(e) => updateSecret(key, e.target.value)}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+      {fieldError(key)}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <h3 className="text-slate-200 font-semibold text-sm tracking-wide">{labels.settings}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 flex flex-col gap-6 overflow-y-auto">
+          {notice && (
+            <p className={`text-xs rounded-md px-3 py-2 border ${notice.error ? 'text-red-200 bg-red-900/20 border-red-800' : 'text-emerald-200 bg-emerald-900/20 border-emerald-800'}`}>
+              {notice.text}
+            </p>
+          )}
+
+          <Section title={labels.settingsModel}>
+            <div>
+              <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.provider}</label>
+              <div className="grid grid-cols-3 gap-2">
+                {PROVIDERS.map(p => (
+                  <button
+                    key={p.id}
+                    onClick={() => update('provider', p.id)}
+                    className={`px-2 py-2 text-xs rounded-lg border transition-colors ${
+                      draft.provider === p.id
+                        ? 'border-blue-500 bg-blue-900/20 text-white'
+                        : 'border-slate-700 text-slate-400 hover:border-slate-500'
+                    }`}
+                  >
+                    {p.title}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.modelName}</label>
+              <input
+                type="text"
+                value={draft.models[draft.provider]}
+                onChange={(e) => update('models', { ...draft.models, [draft.provider]: e.target.value })}
+                className={inputClass}
+              />
+              {fieldError('model')}
+            </div>
+
+            {draft.provider === 'openai' && (
+              <div>
+                <label className="text-xs text-slate-300 font-semibold flex justify-between mb-1">
+                  <span>{labels.baseUrl}</span>
+                  {/* The stand-in only exists on the dev server */}
+                  {import.meta.env.DEV && (
+                    <button
+                      onClick={() => update('openAiBaseUrl', `${window.location.origin}${LOCAL_STAND_IN_PATH}`)}
+                      className="text-[11px] font-normal text-blue-400 hover:text-blue-300"
+                    >
+                      {labels.useLocalStandIn}
+                    </button>
+                  )}
+                </label>
+                <input
+                  type="text"
+                  value={draft.openAiBaseUrl}
+                  onChange={(e) => update('openAiBaseUrl', e.target.value.trim())}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+                {fieldError('openAiBaseUrl')}
+              </div>
+            )}
+
+            {temperatureSlider('temperature', labels.temperature)}
+            {temperatureSlider('analysisTemperature', labels.analysisTemperature)}
+
+            <div className="flex items-center gap-3">
+              <button onClick={handleTest} disabled={connection === 'testing' || hasIssues} className={smallButtonClass}>
+                {connection === 'testing' ? labels.testingConnection : labels.testConnection}
+              </button>
+              {connection && connection !== 'testing' && (
+                <span className={`text-xs ${connection.ok ? 'text-emerald-300' : 'text-red-300'}`} title={connection.error}>
+                  {connection.ok ? labels.connectionOk : labels.connectionFailed} · {connection.latencyMs} ms
+                  {connection.error && <span className="block text-[11px] text-red-300/80 truncate max-w-[14rem]">{connection.error}</span>}
+                </span>
+              )}
+            </div>
+          </Section>
+
+          <Section title={labels.apiKeys}>
+            {lockState.locked ? (
+              <div className="flex flex-col gap-2">
+                <p className="text-xs text-slate-400">{labels.settingsLockedHint}</p>
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    value={unlockPassphrase}
+                    onChange={(e) => setUnlockPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && unlockPassphrase && handleUnlock()}
+                    placeholder={labels.passphrase}
+                    className={inputClass}
+                  />
+                  <button onClick={handleUnlock} disabled={!unlockPassphrase} className={smallButtonClass}>
+                    {labels.unlock}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                {secretInput('geminiApiKey', labels.geminiApiKey)}
+                {secretInput('openAiApiKey', labels.openAiApiKey, labels.optional)}
+              </>
+            )}
+          </Section>
+
+          <Section title={labels.voiceMode}>
+            <div>
+              <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.agentId}</label>
+              <input
+                type="text"
+                value={draft.elevenLabsAgentId}
+                onChange={(e) => update('elevenLabsAgentId', e.target.value.trim())}
+                placeholder={labels.optional}
+                className={inputClass}
+              />
+              {fieldError('elevenLabsAgentId')}
+            </div>
+            <div>
+              <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.defaultPracticeLanguage}</label>
+              <select
+                value={draft.defaultPracticeLanguage}
+                onChange={(e) => update('defaultPracticeLanguage', e.target.value)}
+                className={inputClass}
+              >
+                {PRACTICE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.native}</option>)}
+              </select>
+              {fieldError('defaultPracticeLanguage')}
+            </div>
+          </Section>
+
+          {isVaultSupported() && !lockState.locked && (
+            <Section title={labels.passphrase}>
+              <p className="text-xs text-slate-400">{lockState.encrypted ? labels.passphraseActiveHint : labels.passphraseHint}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="password"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  placeholder={lockState.encrypted ? labels.newPassphrase : labels.passphrase}
+                  className={inputClass}
+                />
+                <input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder={labels.confirmPassphrase}
+                  className={inputClass}
+                />
+              </div>
+              {newPassphrase && newPassphrase.length < MIN_PASSPHRASE_LENGTH && (
+                <p className="text-[11px] text-red-300">{labels.passphraseTooShort}</p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleSetPassphrase(newPassphrase)}
+                  disabled={hasIssues || newPassphrase.length < MIN_PASSPHRASE_LENGTH || newPassphrase !== confirmPassphrase}
+                  className={smallButtonClass}
+                >
+                  {lockState.encrypted ? labels.changePassphrase : labels.setPassphrase}
+                </button>
+                {lockState.encrypted && (
+                  <>
+                    <button onClick={() => handleSetPassphrase(null)} disabled={hasIssues} className={smallButtonClass}>
+                      {labels.removePassphrase}
+                    </button>
+                    <button onClick={handleLock} className={smallButtonClass}>
+                      {labels.lockNow}
+                    </button>
+                  </>
+                )}
+              </div>
+            </Section>
+          )}
+
+          <Section title={labels.settingsProfiles}>
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder={labels.profileName}
+              className={inputClass}
+            />
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              <input type="checkbox" checked={includeKeys} onChange={(e) => setIncludeKeys(e.target.checked)} className="accent-blue-500" />
+              {labels.includeKeys}
+            </label>
+            {includeKeys && !lockState.encrypted && <p className="text-[11px] text-amber-300">{labels.includeKeysPlainWarning}</p>}
+            <div className="flex gap-2">
+              <button onClick={handleExport} className={smallButtonClass}>{labels.exportProfile}</button>
+              <button onClick={() => fileInputRef.current?.click()} className={smallButtonClass}>{labels.importProfile}</button>
+            </div>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+          </Section>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-slate-800">
+          <button onClick={onClose} className="text-xs font-medium text-slate-400 hover:text-white px-3 py-1.5 rounded-md hover:bg-slate-800">
+            {labels.cancel}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hasIssues || isSaving}
+            title={hasIssues ? labels.settingsFixIssues : undefined}
+            className="text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white px-3 py-1.5 rounded-md disabled:opacity-40"
+          >
+            {labels.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
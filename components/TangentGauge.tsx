@@ -1,67 +1,99 @@
 import React from 'react';
+import { LabelSet } from '../constants/translations';
 
 interface TangentGaugeProps {
   score: number;
+  history?: number[]; // Previous scores, oldest first, for the sparkline
+  hint?: string | null; // Coach's suggested way back when drifting
+  labels: LabelSet;
 }
 
-const TangentGauge: React.FC<TangentGaugeProps> = ({ score }) => {
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 32;
+const SPARK_POINTS = 20;
+
+const TangentGauge: React.FC<TangentGaugeProps> = ({ score, history = [], hint, labels }) => {
   // Color interpolation based on score
   // 0-30: Green, 31-70: Yellow, 71-100: Red
   let colorClass = "bg-green-500";
-  let statusText = "On Track";
-  
+  let statusText = labels.onTrack;
+
   if (score > 30 && score <= 70) {
     colorClass = "bg-yellow-500";
-    statusText = "Drifting...";
+    statusText = labels.drifting;
   } else if (score > 70) {
     colorClass = "bg-red-500";
-    statusText = "Tangent Alert!";
+    statusText = labels.tangentAlert;
   }
 
   // Calculate circumference for SVG circle
-  const radius = 50;
+  const radius = 26;
   const circumference = 2 * Math.PI * radius;
   const offset = circumference - (score / 100) * circumference;
 
+  // Sparkline over the most recent samples
+  const recent = history.slice(-SPARK_POINTS);
+  const step = recent.length > 1 ? SPARK_WIDTH / (recent.length - 1) : 0;
+  const sparkPath = recent
+    .map((v, i) => `${i === 0 ? 'M' : 'L'}${(i * step).toFixed(1)},${(SPARK_HEIGHT - (v / 100) * SPARK_HEIGHT).toFixed(1)}`)
+    .join(' ');
+  const alertY = SPARK_HEIGHT - 0.7 * SPARK_HEIGHT;
+
   return (
-    <div className="flex flex-col items-center justify-center p-4 bg-slate-800 rounded-xl shadow-lg border border-slate-700">
-      <h3 className="text-slate-400 text-sm font-semibold uppercase tracking-wider mb-4">Focus Meter</h3>
-      
-      <div className="relative w-32 h-32">
-        {/* Background Circle */}
-        <svg className="w-full h-full transform -rotate-90">
-          <circle
-            cx="64"
-            cy="64"
-            r={radius}
-            stroke="currentColor"
-            strokeWidth="12"
-            fill="transparent"
-            className="text-slate-700"
-          />
-          {/* Progress Circle */}
-          <circle
-            cx="64"
-            cy="64"
-            r={radius}
-            stroke="currentColor"
-            strokeWidth="12"
-            fill="transparent"
-            strokeDasharray={circumference}
-            strokeDashoffset={offset}
-            strokeLinecap="round"
-            className={`transition-all duration-1000 ease-out ${colorClass.replace('bg-', 'text-')}`}
-          />
-        </svg>
-        <div className="absolute top-0 left-0 w-full h-full flex flex-col items-center justify-center">
-          <span className="text-3xl font-bold text-white">{score}</span>
-          <span className="text-xs text-slate-400">%</span>
+    <div className="flex flex-col gap-2 p-3 bg-slate-800 rounded-xl shadow-lg border border-slate-700">
+      <div className="flex items-center gap-4">
+        <div className="relative w-16 h-16 shrink-0">
+          {/* Background Circle */}
+          <svg className="w-full h-full transform -rotate-90">
+            <circle
+              cx="32"
+              cy="32"
+              r={radius}
+              stroke="currentColor"
+              strokeWidth="6"
+              fill="transparent"
+              className="text-slate-700"
+            />
+            {/* Progress Circle */}
+            <circle
+              cx="32"
+              cy="32"
+              r={radius}
+              stroke="currentColor"
+              strokeWidth="6"
+              fill="transparent"
+              strokeDasharray={circumference}
+              strokeDashoffset={offset}
+              strokeLinecap="round"
+              className={`transition-all duration-1000 ease-out ${colorClass.replace('bg-', 'text-')}`}
+            />
+          </svg>
+          <div className="absolute top-0 left-0 w-full h-full flex items-center justify-center">
+            <span className="text-lg font-bold text-white">{score}</span>
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+          <div className="flex items-center justify-between">
+            <h3 className="text-slate-400 text-xs font-semibold uppercase tracking-wider">{labels.focusMeter}</h3>
+            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${colorClass} text-slate-900`}>
+              {statusText}
+            </span>
+          </div>
+          <svg width="100%" height={SPARK_HEIGHT} viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} preserveAspectRatio="none" className="overflow-visible">
+            <line x1={0} x2={SPARK_WIDTH} y1={alertY} y2={alertY} stroke="#ef4444" strokeOpacity={0.3} strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />
+            {recent.length > 1 && (
+              <path d={sparkPath} fill="none" stroke="#38bdf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+            )}
+          </svg>
         </div>
       </div>
-      
-      <div className={`mt-4 px-3 py-1 rounded-full text-xs font-bold ${colorClass} text-slate-900`}>
-        {statusText}
-      </div>
+
+      {hint && (
+        <p className="text-xs text-amber-200 bg-amber-900/20 border border-amber-500/30 rounded-lg px-2.5 py-1.5 leading-snug">
+          {hint}
+        </p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LabelSet } from '../constants/translations';
+import { TurnAudio } from '../types';
+import { AudioClip, ClipRecording, isAudioRecordingSupported, recordClip } from '../services/turnRecorder';
+
+interface TurnAudioControlsProps {
+  takes: TurnAudio[]; // Oldest first; take 0 is the session recording
+  canRecord: boolean; // False while a voice session has the mic
+  onRecorded: (clip: AudioClip) => void;
+  align: 'left' | 'right';
+  labels: LabelSet;
+}
+
+// Play buttons for each take of a learner turn, plus re-recording to compare a better answer
+const TurnAudioControls: React.FC<TurnAudioControlsProps> = ({ takes, canRecord, onRecorded, align, labels }) => {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [recording, setRecording] = useState<ClipRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<{ element: HTMLAudioElement; url: string } | null>(null);
+  const recordingRef = useRef<ClipRecording | null>(null);
+  recordingRef.current = recording;
+
+  const stopPlayback = () => {
+    const current = audioRef.current;
+    if (!current) return;
+    current.element.pause();
+    URL.revokeObjectURL(current.url);
+    audioRef.current = null;
+    setPlayingId(null);
+  };
+
+  useEffect(() => () => {
+    stopPlayback();
+    recordingRef.current?.cancel();
+  }, []);
+
+  const togglePlay = (take: TurnAudio) => {
+    const wasPlaying = playingId === take.id;
+    stopPlayback();
+    if (wasPlaying) return;
+
+    const url = URL.createObjectURL(take.blob);
+    const element = new Audio(url);
+    element.onended = stopPlayback;
+    audioRef.current = { element, url };
+    setPlayingId(take.id);
+    element.play().catch(() => stopPlayback());
+  };
+
+  const toggleRecord = async () => {
+    setError(null);
+    if (recording) {
+      setRecording(null);
+      const clip = await recording.stop();
+      if (clip) onRecorded(clip);
+      return;
+    }
+    stopPlayback();
+    try {
+      setRecording(await recordClip());
+    } catch {
+      setError(labels.micUnavailable);
+    }
+  };
+
+  const takeName = (take: TurnAudio) => (take.take === 0 ? labels.takeOriginal : `${labels.take} ${take.take}`);
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 mt-1 px-1 ${align === 'right' ? 'justify-end' : ''}`}>
+      {takes.map(take => (
+        <button
+          key={take.id}
+          onClick={() => togglePlay(take)}
+          title={`${takeName(take)} · ${(take.durationMs / 1000).toFixed(1)}s`}
+          className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded-full border transition-colors ${
+            playingId === take.id
+              ? 'bg-sky-500/20 border-sky-400 text-sky-200'
+              : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+          }`}
+        >
+          <span aria-hidden>{playingId === take.id ? '■' : '▶'}</span>
+          {takeName(take)}
+        </button>
+      ))}
+      {isAudioRecordingSupported() && (
+        <button
+          onClick={toggleRecord}
+          disabled={!canRecord && !recording}
+          title={recording ? labels.stopRecording : labels.recordTake}
+          className={`text-[10px] px-1.5 py-0.5 rounded-full border transition-colors disabled:opacity-40 ${
+            recording
+              ? 'bg-red-500/20 border-red-400 text-red-200 animate-pulse'
+              : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+          }`}
+        >
+          {recording ? `● ${labels.stopRecording}` : `● ${labels.recordTake}`}
+        </button>
+      )}
+      {error && <span className="text-[10px] text-red-300">{error}</span>}
+    </div>
+  );
+};
+
+export default TurnAudioControls;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { VocabEntry } from '../types';
+import { LabelSet } from '../constants/translations';
+import { acceptSuggestion, deleteVocabEntry, getDueEntries, reviewVocabEntry } from '../services/vocabularyStore';
+import { ReviewGrade } from '../services/spacedRepetition';
+
+interface VocabularyNotebookProps {
+  entries: VocabEntry[];
+  onChange: (entries: VocabEntry[]) => void;
+  onClose: () => void;
+  labels: LabelSet;
+}
+
+const VocabularyNotebook: React.FC<VocabularyNotebookProps> = ({ entries, onChange, onClose, labels }) => {
+  const [tab, setTab] = useState<'notebook' | 'review'>('notebook');
+  const [query, setQuery] = useState('');
+  const [revealed, setRevealed] = useState(false);
+
+  const suggestions = entries.filter(e => e.status === 'suggested');
+  const active = entries
+    .filter(e => e.status === 'active')
+    .filter(e => !query.trim() || `${e.term} ${e.gloss}`.toLowerCase().includes(query.trim().toLowerCase()))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const due = getDueEntries(entries);
+  const card = due[0];
+
+  const grades: { grade: ReviewGrade; label: string; style: string }[] = [
+    { grade: 1, label: labels.gradeAgain, style: 'bg-rose-600 hover:bg-rose-500' },
+    { grade: 3, label: labels.gradeHard, style: 'bg-amber-600 hover:bg-amber-500' },
+    { grade: 4, label: labels.gradeGood, style: 'bg-emerald-600 hover:bg-emerald-500' },
+    { grade: 5, label: labels.gradeEasy, style: 'bg-sky-600 hover:bg-sky-500' },
+  ];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    onChange(reviewVocabEntry(card.id, grade));
+    setRevealed(false);
+  };
+
+  const tabClass = (id: typeof tab) => `text-xs font-medium px-3 py-1.5 rounded-md transition-colors ${
+    tab === id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl animate-fade-in"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <div className="flex items-center gap-2">
+            <h3 className="text-slate-200 font-semibold text-sm tracking-wide mr-2">{labels.vocabularyNotebook}</h3>
+            <button onClick={() => setTab('notebook')} className={tabClass('notebook')}>
+              {labels.notebookTab} · {entries.length - suggestions.length}
+            </button>
+            <button onClick={() => { setTab('review'); setRevealed(false); }} className={tabClass('review')}>
+              {labels.reviewTab} · {due.length}
+            </button>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+              <path d="M6.28 5.22a.75.75 0 0 0-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 1 0 1.06 1.06L10 11.06l3.72 3.72a.75.75 0 1 0 1.06-1.06L11.06 10l3.72-3.72a.75.75 0 0 0-1.06-1.06L10 8.94 6.28 5.22Z" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 scrollbar-thin scrollbar-thumb-slate-700">
+          {tab === 'notebook' ? (
+            <div className="flex flex-col gap-4">
+              {suggestions.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-bold uppercase tracking-wider text-amber-400 mb-2">{labels.suggestedWords}</h4>
+                  <div className="flex flex-col gap-2">
+                    {suggestions.map(entry => (
+                      <div key={entry.id} className="flex items-center gap-3 p-2.5 rounded-lg border border-amber-500/30 bg-amber-900/10">
+                        <div className="flex-1 min-w-0">
+                          <span className="text-sm font-semibold text-white">{entry.term}</span>
+                          <span className="text-xs text-slate-400 ml-2">{entry.gloss}</span>
+                        </div>
+                        <button onClick={() => onChange(acceptSuggestion(entry.id))} className="text-[10px] text-emerald-400 hover:text-emerald-300 uppercase tracking-wider">
+                          {labels.keepWord}
+                        </button>
+                        <button onClick={() => onChange(deleteVocabEntry(entry.id))} className="text-[10px] text-slate-500 hover:text-slate-300 uppercase tracking-wider">
+                          {labels.dismiss}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={labels.searchVocabulary}
+                className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white w-full focus:border-blue-500 outline-none"
+              />
+
+              {active.length === 0 ? (
+                <p className="text-center text-slate-500 italic text-sm py-8">{labels.noVocabularyYet}</p>
+              ) : (
+                <div className="flex flex-col gap-2">
+                  {active.map(entry => (
+                    <div key={entry.id} className="p-3 rounded-lg border border-slate-800 bg-slate-800/50 group">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <span className="text-sm font-semibold text-white">{entry.term}</span>
+                          <p className="text-xs text-slate-400 mt-0.5">{entry.gloss}</p>
+                        </div>
+                        <div className="flex items-center gap-3 shrink-0">
+                          <span className="text-[10px] text-slate-500">
+                            {labels.nextReview}: {entry.review.due.toLocaleDateString()}
+                          </span>
+                          <button onClick={() => onChange(deleteVocabEntry(entry.id))} className="text-[10px] text-rose-400/80 hover:text-rose-300 uppercase tracking-wider opacity-0 group-hover:opacity-100 transition-opacity">
+                            {labels.delete}
+                          </button>
+                        </div>
+                      </div>
+                      <p className="text-xs text-slate-500 italic mt-1.5 truncate">"{entry.sourceSentence}"</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : card ? (
+            <div className="flex flex-col items-center gap-5 py-6">
+              <span className="text-[10px] text-slate-500 uppercase tracking-wider">{due.length} {labels.cardsDue}</span>
+              <div className="w-full max-w-md p-6 rounded-2xl border border-slate-700 bg-slate-800/60 text-center">
+                <p className="text-2xl font-bold text-white">{card.term}</p>
+                <p className="text-xs text-slate-500 italic mt-3">"{card.sourceSentence}"</p>
+                {revealed && (
+                  <p className="text-sm text-emerald-300 mt-4 pt-4 border-t border-slate-700 animate-fade-in">{card.gloss}</p>
+                )}
+              </div>
+              {revealed ? (
+                <div className="flex gap-2">
+                  {grades.map(g => (
+                    <button key={g.grade} onClick={() => handleGrade(g.grade)} className={`text-xs font-medium text-white px-4 py-2 rounded-lg ${g.style}`}>
+                      {g.label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button onClick={() => setRevealed(true)} className="text-xs font-medium bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded-lg">
+                  {labels.showAnswer}
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="text-center text-slate-500 italic text-sm py-12">{labels.nothingDue}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyNotebook;
@@ -1,186 +1,213 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Conversation } from '@11labs/client';
+import React, { useState, useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react';
 import { LabelSet } from '../constants/translations';
-
-// TODO: Paste your Agent ID here for the Hackathon Demo
-const DEMO_AGENT_ID = ""; 
+import { getSpeechLang } from '../constants/languages';
+import { VOICE_TRANSPORTS, VoiceAgentContext, VoiceStatus, VoiceTransport, VoiceTransportId, createVoiceTransport, getVoiceTransportId, saveVoiceTransportId } from '../services/voiceTransport';
+import { getSettings, subscribeSettings } from '../services/settingsStore';
+import { isBrowserSpeechSupported } from '../services/transports/browserSpeechTransport';
+import { VoiceTurn } from '../services/turnSegmenter';
+import { AudioClip, TurnRecorder, createTurnRecorder, isAudioRecordingSupported } from '../services/turnRecorder';
 
 interface VoiceWidgetProps {
   onUserTranscript: (text: string) => void;
   onAgentResponse: (text: string) => void;
-  onUserTurnComplete: (text: string) => void; // Commits user text to history
-  onTurnComplete: () => void; // Commits agent text to history & triggers analysis
+  // Commits user text to history. `audio` resolves to the turn's local recording, or null without one.
+  onUserTurnComplete: (turn: VoiceTurn, audio: Promise<AudioClip | null>) => void;
+  onTurnComplete: (turn: VoiceTurn) => void; // Commits agent text to history & triggers analysis
+  onConnectionChange?: (connected: boolean) => void;
+  getAgentContext: () => VoiceAgentContext; // History and session for the local agent
+  onOpenSettings: () => void; // The agent ID lives in the settings panel
+  practiceLanguage?: string;
   labels: LabelSet;
 }
 
-const VoiceWidget: React.FC<VoiceWidgetProps> = ({ 
+// Lets the app talk to the live agent without owning the conversation
+export interface VoiceWidgetHandle {
+  // Background information for the agent; it isn't spoken and doesn't count as a user turn.
+  // Returns false when no voice session is live.
+  sendContextualUpdate: (text: string) => boolean;
+}
+
+const LIVE_STATUSES: VoiceStatus[] = ['listening', 'thinking', 'speaking'];
+
+const VoiceWidget = forwardRef<VoiceWidgetHandle, VoiceWidgetProps>(({ 
     onUserTranscript, 
     onAgentResponse, 
     onUserTurnComplete,
     onTurnComplete,
+    onConnectionChange,
+    getAgentContext,
+    onOpenSettings,
+    practiceLanguage,
     labels 
-}) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+}, ref) => {
+  const [status, setStatus] = useState<VoiceStatus>('disconnected');
   const [statusMsg, setStatusMsg] = useState('');
+  const isConnected = LIVE_STATUSES.includes(status);
+  const isSpeaking = status === 'speaking';
   
-  const [agentId, setAgentId] = useState(() => {
-    if (typeof window !== 'undefined') {
-        const stored = localStorage.getItem('elevenlabs_agent_id');
-        if (stored) return stored;
-    }
-    return DEMO_AGENT_ID;
-  });
-
-  const [showConfig, setShowConfig] = useState(!agentId);
-  const conversationRef = useRef<any>(null);
+  const [agentId, setAgentId] = useState(() => getSettings().elevenLabsAgentId);
+  const [transportId, setTransportId] = useState<VoiceTransportId>(() => getVoiceTransportId());
+  const needsAgentId = transportId === 'elevenlabs' && !agentId;
+  const isUnsupported = transportId === 'browser' && !isBrowserSpeechSupported();
 
-  // Data Refs to accumulate speech during a turn
-  const userSpeechBuffer = useRef<string>('');
+  const [showConfig, setShowConfig] = useState(needsAgentId);
+  const transportRef = useRef<VoiceTransport | null>(null);
+  const recorderRef = useRef<TurnRecorder | null>(null);
   
   // Callbacks refs
   const onUserTranscriptRef = useRef(onUserTranscript);
   const onAgentResponseRef = useRef(onAgentResponse);
   const onUserTurnCompleteRef = useRef(onUserTurnComplete);
   const onTurnCompleteRef = useRef(onTurnComplete);
+  const getAgentContextRef = useRef(getAgentContext);
 
   useEffect(() => {
     onUserTranscriptRef.current = onUserTranscript;
     onAgentResponseRef.current = onAgentResponse;
     onUserTurnCompleteRef.current = onUserTurnComplete;
     onTurnCompleteRef.current = onTurnComplete;
-  }, [onUserTranscript, onAgentResponse, onUserTurnComplete, onTurnComplete]);
+    getAgentContextRef.current = getAgentContext;
+  }, [onUserTranscript, onAgentResponse, onUserTurnComplete, onTurnComplete, getAgentContext]);
+
+  useImperativeHandle(ref, () => ({
+    sendContextualUpdate: (text: string) => {
+      if (!transportRef.current || !isConnected) return false;
+      transportRef.current.sendContextualUpdate(text);
+      return true;
+    },
+  }), [isConnected]);
 
   useEffect(() => {
-     if (agentId) {
-         localStorage.setItem('elevenlabs_agent_id', agentId);
-     }
-  }, [agentId]);
+    onConnectionChange?.(isConnected);
+  }, [isConnected, onConnectionChange]);
+
+  // Follow edits made in the settings panel
+  useEffect(() => subscribeSettings(() => {
+    setAgentId(getSettings().elevenLabsAgentId);
+    setTransportId(getVoiceTransportId());
+  }), []);
 
   useEffect(() => {
     return () => {
-      if (conversationRef.current) {
-        conversationRef.current.endSession();
-      }
+      recorderRef.current?.stop();
+      recorderRef.current = null;
+      transportRef.current?.stop();
+      transportRef.current = null;
     };
   }, []);
 
+  const handleTransportChange = (id: VoiceTransportId) => {
+    setTransportId(id);
+    saveVoiceTransportId(id);
+  };
+
+  const stopRecording = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+  };
+
   const startConversation = useCallback(async () => {
-    if (!agentId) {
+    if (needsAgentId || isUnsupported) {
         setShowConfig(true);
         return;
     }
 
-    try {
-      setStatusMsg('Requesting Mic...');
-      // Explicitly ask for mic permission first to avoid SDK timeout issues
-      await navigator.mediaDevices.getUserMedia({ audio: true });
+    const transport = createVoiceTransport(transportId, {
+        agentId,
+        language: getSpeechLang(practiceLanguage),
+        getContext: () => getAgentContextRef.current(),
+    });
+    transportRef.current = transport;
 
+    try {
       setStatusMsg('Connecting...');
-      console.log("[ContextDojo] Starting Session with Agent ID:", agentId);
-      
-      const conversation = await Conversation.startSession({
-        agentId: agentId, 
-        onConnect: () => {
-          console.log("[ContextDojo] Connected to ElevenLabs");
-          setIsConnected(true);
-          setShowConfig(false);
-          setStatusMsg('');
-          userSpeechBuffer.current = '';
+      await transport.start({
+        onUserTranscript: text => onUserTranscriptRef.current(text),
+        onAgentResponse: text => onAgentResponseRef.current(text),
+        onUserTurnComplete: turn => {
+          const audio = recorderRef.current?.takeTurn() ?? Promise.resolve(null);
+          onUserTurnCompleteRef.current(turn, audio);
         },
-        onDisconnect: () => {
-          console.log("[ContextDojo] Disconnected");
-          setIsConnected(false);
-          setIsSpeaking(false);
-          setStatusMsg('');
+        onTurnComplete: turn => onTurnCompleteRef.current(turn),
+        onStatusChange: next => {
+          if (transportRef.current !== transport) return;
+          setStatus(next);
+          // The agent handing the floor back is where the learner's next recorded turn begins
+          if (next === 'listening') recorderRef.current?.beginTurn();
+          if (next === 'disconnected') stopRecording();
+          if (LIVE_STATUSES.includes(next)) {
+            setShowConfig(false);
+            setStatusMsg('');
+          }
         },
-        onError: (error: any) => {
-          console.error("[ContextDojo] ElevenLabs Error:", error);
-          alert("Connection Error. Check Console.");
-          setIsConnected(false);
-          setStatusMsg('Error');
+        onError: err => {
+          console.error(`[ContextDojo] Voice error (${transport.id}):`, err);
+          setStatusMsg(err.message || 'Error');
         },
-        onModeChange: (mode: { mode: string }) => {
-           // 'speaking' = Agent is speaking
-           // 'listening' = Agent is listening (User is speaking)
-           console.log("[ContextDojo] Mode Change:", mode);
-           const isAgentSpeaking = mode.mode === 'speaking';
-           setIsSpeaking(isAgentSpeaking);
-
-           if (isAgentSpeaking) {
-               // Agent JUST STARTED speaking. 
-               // This means User is DONE. Commit User Buffer.
-               if (userSpeechBuffer.current && userSpeechBuffer.current.trim().length > 0) {
-                   console.log("[ContextDojo] Committing User Turn:", userSpeechBuffer.current);
-                   onUserTurnCompleteRef.current(userSpeechBuffer.current);
-                   userSpeechBuffer.current = ''; // Clear buffer
-               }
-           } else {
-               // Agent JUST STOPPED speaking (went to listening mode).
-               // This means Agent Turn is DONE.
-               // We trigger the analysis hook.
-               console.log("[ContextDojo] Agent Finished Speaking - End of Cycle");
-               onTurnCompleteRef.current();
-           }
+        onMicStream: stream => {
+          if (transportRef.current !== transport || !isAudioRecordingSupported()) return;
+          stopRecording();
+          recorderRef.current = createTurnRecorder(stream);
         },
-        onMessage: (props: any) => {
-            // Debug log to see exactly what we get
-            // console.log("[ContextDojo] Message:", props);
-
-            const text = props.text || props.message || "";
-            const source = props.source;
-
-            if (source === 'user') {
-                // Real-time user transcript
-                if (text) {
-                    userSpeechBuffer.current = text; // Update buffer
-                    onUserTranscriptRef.current(text); // Update UI
-                }
-            } else if (source === 'ai' || source === 'character' || source === 'assistant') {
-                // Real-time agent transcript
-                // Handle different source names depending on SDK version
-                if (text) {
-                    onAgentResponseRef.current(text);
-                }
-            }
-        }
-      } as any);
-
-      conversationRef.current = conversation;
-
+      });
     } catch (error) {
       console.error("Failed to start conversation:", error);
+      // Release whatever got started before the failure: the mic, the recorder, a half-open session
+      transport.stop().catch(err => console.error("Failed to stop voice transport:", err));
+      if (transportRef.current === transport) {
+        transportRef.current = null;
+        stopRecording();
+      }
       setStatusMsg('Connection Failed');
-      setIsConnected(false);
+      setStatus('disconnected');
     }
-  }, [agentId]);
+  }, [agentId, transportId, practiceLanguage, needsAgentId, isUnsupported]);
 
   const endConversation = async () => {
-    if (conversationRef.current) {
-      await conversationRef.current.endSession();
-      conversationRef.current = null;
-    }
-    setIsConnected(false);
-    setIsSpeaking(false);
+    const transport = transportRef.current;
+    transportRef.current = null;
+    setStatus('disconnected');
+    // Stopping commits any open turn, which still takes its audio before the recorder stops
+    if (transport) await transport.stop();
+    stopRecording();
+  };
+
+  const transportNames: Record<VoiceTransportId, string> = {
+    elevenlabs: labels.transportElevenlabs,
+    browser: labels.transportBrowser,
+    scripted: labels.transportScripted,
   };
 
   return (
     <div className="bg-slate-800 p-4 rounded-xl border border-slate-700 shadow-lg flex flex-col items-center gap-4">
        {!isConnected && (
            <div className="w-full transition-all">
-            {showConfig || !agentId ? (
+            {showConfig || needsAgentId ? (
                 <div className="flex flex-col gap-3 mb-2 animate-fade-in bg-slate-900/50 p-3 rounded-lg border border-slate-700">
                     <div>
-                        <label className="text-xs text-slate-300 font-semibold block mb-1">ElevenLabs Agent ID</label>
-                        <input 
-                            type="text" 
-                            value={agentId} 
-                            onChange={(e) => setAgentId(e.target.value)}
-                            placeholder="e.g. JjC9C..."
+                        <label className="text-xs text-slate-300 font-semibold block mb-1">{labels.voiceBackend}</label>
+                        <select
+                            value={transportId}
+                            onChange={(e) => handleTransportChange(e.target.value as VoiceTransportId)}
                             className="bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none"
-                        />
+                        >
+                            {VOICE_TRANSPORTS.map(id => <option key={id} value={id}>{transportNames[id]}</option>)}
+                        </select>
                     </div>
-                    {agentId && (
+                    {transportId === 'elevenlabs' && (
+                        <div className="flex items-center justify-between gap-2 text-xs">
+                            <span className={agentId ? 'text-slate-400 font-mono truncate' : 'text-amber-400'}>
+                                {agentId || labels.agentIdMissing}
+                            </span>
+                            <button onClick={onOpenSettings} className="shrink-0 text-blue-400 hover:text-blue-300 underline">
+                                {labels.openSettings}
+                            </button>
+                        </div>
+                    )}
+                    {isUnsupported && (
+                        <p className="text-xs text-amber-400">{labels.browserSpeechUnsupported}</p>
+                    )}
+                    {!needsAgentId && (
                          <button onClick={() => setShowConfig(false)} className="text-xs text-blue-400 hover:text-blue-300 underline self-end mt-1">
                             {labels.done}
                          </button>
@@ -217,7 +244,9 @@ const VoiceWidget: React.FC<VoiceWidgetProps> = ({
       </div>
       <div className="text-center">
          <h3 className="text-white font-bold text-sm">
-             {isConnected ? (isSpeaking ? labels.agentSpeaking : labels.listening) : labels.voiceMode}
+             {isConnected
+                 ? (isSpeaking ? labels.agentSpeaking : status === 'thinking' ? labels.voiceThinking : labels.listening)
+                 : labels.voiceMode}
          </h3>
          <p className="text-xs text-slate-400">
              {statusMsg || (isConnected ? labels.speakNaturally : labels.tapToConnect)}
@@ -225,6 +254,6 @@ const VoiceWidget: React.FC<VoiceWidgetProps> = ({
       </div>
     </div>
   );
-};
+});
 
 export default VoiceWidget;
\ No newline at end of file
@@ -0,0 +1,29 @@
+// Hesitation markers and verbal fillers per practice language. Multi-word entries are matched as phrases.
+export const FILLER_WORDS: Record<string, string[]> = {
+  en: ['um', 'uh', 'erm', 'er', 'ah', 'like', 'you know', 'i mean', 'basically', 'actually', 'literally', 'sort of', 'kind of'],
+  de: ['äh', 'ähm', 'öhm', 'hm', 'halt', 'also', 'sozusagen', 'quasi', 'irgendwie', 'eigentlich', 'ne', 'naja'],
+  zh: ['嗯', '呃', '那个', '这个', '就是', '然后', '对吧', '反正'],
+  es: ['eh', 'este', 'pues', 'o sea', 'bueno', 'vale', 'sabes', 'como'],
+  fr: ['euh', 'ben', 'bah', 'genre', 'en fait', 'du coup', 'tu vois', 'quoi', 'voilà'],
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Counts fillers in `text`. With no language (or 'auto') every list is used.
+export const countFillers = (text: string, language?: string): Record<string, number> => {
+  const lists = language && FILLER_WORDS[language] ? [FILLER_WORDS[language]] : Object.values(FILLER_WORDS);
+  const counts: Record<string, number> = {};
+  const lower = text.toLowerCase();
+
+  lists.flat().forEach(filler => {
+    // CJK has no word boundaries; Latin scripts need them so "like" doesn't match "likely"
+    const pattern = /[一-鿿]/.test(filler)
+      ? new RegExp(escapeRegExp(filler), 'g')
+      : new RegExp(`(?<![\\p{L}])${escapeRegExp(filler)}(?![\\p{L}])`, 'gu');
+    const matches = lower.match(pattern);
+    if (matches) counts[filler] = (counts[filler] || 0) + matches.length;
+  });
+  return counts;
+};
+
+export const totalFillers = (counts: Record<string, number>) => Object.values(counts).reduce((a, b) => a + b, 0);
@@ -0,0 +1,23 @@
+export interface PracticeLanguageOption {
+  code: string;
+  name: string;   // English name, used in prompts
+  native: string; // Shown in the picker
+  speechLang: string; // BCP-47 tag for browser speech recognition and synthesis
+}
+
+export const PRACTICE_LANGUAGES: PracticeLanguageOption[] = [
+  { code: 'auto', name: 'Auto', native: 'Auto-detect', speechLang: '' },
+  { code: 'en', name: 'English', native: 'English', speechLang: 'en-US' },
+  { code: 'de', name: 'German', native: 'Deutsch', speechLang: 'de-DE' },
+  { code: 'zh', name: 'Mandarin Chinese', native: '中文', speechLang: 'zh-CN' },
+  { code: 'es', name: 'Spanish', native: 'Español', speechLang: 'es-ES' },
+  { code: 'fr', name: 'French', native: 'Français', speechLang: 'fr-FR' },
+];
+
+export const getPracticeLanguageName = (code?: string): string | null => {
+  if (!code || code === 'auto') return null;
+  return PRACTICE_LANGUAGES.find(l => l.code === code)?.name || null;
+};
+
+export const getSpeechLang = (code?: string): string =>
+  PRACTICE_LANGUAGES.find(l => l.code === code)?.speechLang || '';
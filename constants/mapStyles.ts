@@ -0,0 +1,14 @@
+import { MindMapNode } from "../types";
+
+export const NODE_COLORS: Record<MindMapNode['type'] | 'default', string> = {
+  root: '#ffffff',
+  concept: '#38bdf8', // Light Blue
+  entity: '#c084fc',  // Purple
+  action: '#4ade80',  // Green
+  emotion: '#fb7185', // Rose
+  marker: '#fbbf24',  // Amber (session events)
+  default: '#94a3b8'  // Slate
+};
+
+export const MAP_BACKGROUND = '#0f172a';
+export const NODE_FILL = '#1e293b';
@@ -0,0 +1,64 @@
+import { Scenario } from '../types';
+
+export const BUILT_IN_SCENARIOS: Scenario[] = [
+  {
+    id: 'builtin-junior-dev-interview',
+    title: 'Junior Developer Interview',
+    mode: 'topical',
+    persona: 'Sam, an engineering manager at a mid-sized software company. Friendly but probing; follows up on vague answers.',
+    setting: 'A 30-minute video interview for a junior web developer position.',
+    goals: [
+      'Introduce yourself and your background concisely',
+      'Describe a project you built using concrete examples',
+      'Ask the interviewer at least one thoughtful question',
+    ],
+    difficulty: 'intermediate',
+    openingLine: "Hi, thanks for joining! To start, could you tell me a little about yourself and what got you into programming?",
+    successCriteria: [
+      'Answers stay under about a minute each',
+      'Uses at least one specific example (the STAR method helps)',
+      'Ends by asking a question about the team or role',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-new-flatmate',
+    title: 'Meeting a New Flatmate',
+    mode: 'social',
+    persona: 'Alex, a slightly shy student who just moved into the shared flat. Warms up when asked about their interests.',
+    setting: 'The shared kitchen on moving-in day.',
+    goals: [
+      'Break the ice and introduce yourself',
+      'Find two things you have in common',
+      'Agree on something practical, like a cleaning rota',
+    ],
+    difficulty: 'beginner',
+    openingLine: "Oh, hey! You must be the new person in room three. I'm Alex.",
+    successCriteria: [
+      'Asks open questions rather than yes/no questions',
+      'Shares something about themselves in return',
+      'Suggests a next step (coffee, a rota, a house dinner)',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'builtin-ai-ethics-seminar',
+    title: 'Seminar Debate: AI Ethics',
+    mode: 'debate',
+    persona: 'Dr. Morgan, a philosophy lecturer who plays devil\'s advocate and challenges weak reasoning politely.',
+    setting: 'A university seminar discussing whether AI systems should be allowed to make hiring decisions.',
+    goals: [
+      'State a clear position and support it with reasons',
+      'Acknowledge a counter-argument before rebutting it',
+      'Keep the discussion on the original question',
+    ],
+    difficulty: 'advanced',
+    openingLine: "Let's begin. Should companies be allowed to let AI systems make hiring decisions? Where do you stand, and why?",
+    successCriteria: [
+      'Position is stated in the first answer',
+      'Uses signposting ("firstly", "on the other hand")',
+      'Responds to the counter-argument instead of repeating the claim',
+    ],
+    builtIn: true,
+  },
+];
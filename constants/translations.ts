@@ -26,19 +26,272 @@ export const TRANSLATIONS = {
     thinking: "Thinking...",
     sayHello: "Say hello to start practicing.",
     typePlaceholder: "Type a message...",
+    stopGenerating: "Stop generating",
     
     // Voice Widget
     voiceMode: "Voice Mode",
     agentSpeaking: "Agent Speaking...",
     speakNaturally: "Speak naturally",
     tapToConnect: "Tap to connect",
-    configAgent: "Config Agent ID",
+    configAgent: "Voice Settings",
     done: "Done",
     
     // Transcript
     waitingForConv: "Waiting for conversation...",
     userRole: "User",
     dojoRole: "Dojo",
+
+    // Session Library
+    sessions: "Sessions",
+    sessionLibrary: "Session Library",
+    searchSessions: "Search sessions...",
+    noSessions: "No saved sessions yet.",
+    messages: "messages",
+    currentSession: "Current",
+    rename: "Rename",
+    delete: "Delete",
+    deleteSessionConfirm: "Delete session",
+
+    // Export / Import
+    exportJson: "Session (JSON)",
+    exportMarkdown: "Report (Markdown)",
+    exportSrt: "Subtitles (SRT)",
+    exportVtt: "Subtitles (WebVTT)",
+    importJson: "Import session...",
+    importFailed: "Import failed",
+
+    // Settings
+    settings: "Settings",
+    provider: "Model Provider",
+    modelName: "Model",
+    baseUrl: "Base URL",
+    apiKey: "API Key",
+    temperature: "Reply Temperature",
+    cancel: "Cancel",
+
+    // Scenarios
+    scenarios: "Scenarios",
+    scenarioLibrary: "Scenario Library",
+    newScenario: "New",
+    importLabel: "Import",
+    exportLabel: "Export",
+    startScenario: "Start",
+    edit: "Edit",
+    duplicate: "Duplicate",
+    deleteScenarioConfirm: "Delete scenario",
+    scenarioTitle: "Title",
+    scenarioMode: "Mode",
+    difficulty: "Difficulty",
+    persona: "Persona",
+    setting: "Setting",
+    openingLine: "Opening Line",
+    goals: "Goals (one per line)",
+    successCriteria: "Success Criteria (one per line)",
+
+    // Session Start
+    chooseContext: "Choose Your Context",
+    chooseContextSub: "Select a mode to start practicing your conversational flow.",
+    modeAdaptive: "Adaptive",
+    modeAdaptiveDesc: "Let the Dojo read the conversation and pick the best style as you go.",
+    modeTopical: "Topical Discussion",
+    modeTopicalDesc: "Practice speaking clearly about specific subjects, hobbies, or current events.",
+    modeSocial: "Social Mixer",
+    modeSocialDesc: "Practice small talk, breaking the ice, and active listening.",
+    modeDebate: "Deep Discussion",
+    modeDebateDesc: "Structure complex arguments and discuss philosophy or logic.",
+    practiceLanguage: "Practice Language",
+    uiLanguage: "Interface Language",
+    sessionGoal: "Session Goal (optional)",
+    sessionGoalPlaceholder: "e.g. Talk about my weekend without pausing",
+    startSession: "Start Session",
+    orPickScenario: "or pick a scenario",
+    mode: "Mode",
+    modeSwitched: "Mode switched",
+
+    // Focus Meter
+    focusMeter: "Focus Meter",
+    onTrack: "On Track",
+    drifting: "Drifting...",
+    tangentAlert: "Tangent Alert!",
+    driftHint: "You've drifted off topic. Try linking back to",
+
+    // Coaching Report
+    endSession: "End Session",
+    generatingReport: "Preparing report...",
+    coachingReport: "Coaching Report",
+    strengths: "Strengths",
+    topImprovements: "Top 3 To Improve",
+    topicsCovered: "Topics Covered",
+    skillActiveListening: "Active Listening",
+    skillQuestionAsking: "Question Asking",
+    skillTurnBalance: "Turn Length Balance",
+    skillTopicMaintenance: "Topic Maintenance",
+    skillFillerWords: "Filler Words",
+    skillPoliteness: "Politeness Register",
+
+    // Guidance Timeline
+    guidanceTimeline: "Guidance Timeline",
+    allCategories: "All",
+    guidanceTone: "Tone",
+    guidanceClarity: "Clarity",
+    guidanceGrammar: "Grammar",
+    guidanceEngagement: "Engagement",
+    noGuidanceYet: "Coach feedback will collect here as you talk.",
+    showGuidance: "Coach note",
+
+    // Corrections
+    betterVersion: "Better version",
+    correctionsFound: "corrections",
+    correctionGrammar: "Grammar",
+    correctionWordChoice: "Word choice",
+    correctionRegister: "Register",
+
+    // Vocabulary Notebook
+    vocabularyNotebook: "Vocabulary Notebook",
+    notebookTab: "Notebook",
+    reviewTab: "Review",
+    suggestedWords: "Suggested Words",
+    keepWord: "Keep",
+    dismiss: "Dismiss",
+    searchVocabulary: "Search words...",
+    noVocabularyYet: "Save words from any chat bubble with the bookmark icon.",
+    nextReview: "Next review",
+    cardsDue: "cards due",
+    showAnswer: "Show Meaning",
+    gradeAgain: "Again",
+    gradeHard: "Hard",
+    gradeGood: "Good",
+    gradeEasy: "Easy",
+    nothingDue: "Nothing due. Come back later!",
+    saveToNotebook: "Save selection to notebook",
+    saveWordPrompt: "Word or phrase to save:",
+
+    // Steering
+    steerHere: "Steer conversation here",
+    steeredTo: "Steered to",
+
+    // Map Editing
+    addNode: "Node",
+    addChild: "Add child",
+    nodeLabel: "Label",
+    mergeInto: "Merge into",
+    moveUnder: "Move under",
+    deleteBranch: "Delete branch",
+    mergeSimilar: "Merge similar",
+    mergeSimilarHint: "Find and merge nodes that name the same topic",
+    merging: "Merging...",
+    undo: "Undo",
+
+    // Map Export
+    exportMap: "Export map",
+    exportPng: "PNG image (with legend)",
+    exportSvg: "SVG image",
+    exportMermaid: "Mermaid flowchart",
+    exportGraphMl: "GraphML",
+    exportOpml: "OPML outline",
+    exportFailed: "Export failed",
+
+    // Map Layouts
+    mapLayout: "Layout",
+    layoutForce: "Tiers",
+    layoutRadial: "Radial",
+    layoutTree: "Tidy tree",
+    layoutTimeline: "Timeline",
+    layoutCluster: "By type",
+
+    // Map Navigation
+    searchMap: "Search map…",
+    zoomIn: "Zoom in",
+    zoomOut: "Zoom out",
+    fitToScreen: "Fit to screen",
+    mapKeyboardHint: "Context tree. Arrow keys move between nodes, + and - zoom, 0 fits the map.",
+
+    // Voice Backends
+    voiceBackend: "Voice backend",
+    transportElevenlabs: "ElevenLabs agent",
+    transportBrowser: "Browser speech (local)",
+    transportScripted: "Scripted demo (offline)",
+    browserSpeechUnsupported: "This browser has no speech recognition. Try Chrome or Edge.",
+    voiceThinking: "Thinking...",
+
+    // Voice Turns
+    interrupted: "interrupted",
+    interruptedHint: "Cut off mid-turn; only what was said before that is kept",
+
+    // Delivery Dashboard
+    delivery: "Delivery",
+    showMore: "More",
+    showLess: "Less",
+    deliveryPace: "WPM",
+    deliveryPaceHint: "Average words per minute across your timed voice turns",
+    deliveryWpm: "wpm",
+    deliveryPause: "Pause",
+    deliveryPauseHint: "Average silence before you started answering",
+    deliveryFillers: "Fillers",
+    deliveryPer100Words: "per 100 words",
+    deliveryLongest: "Longest",
+    deliveryWords: "words",
+    deliveryTalkRatio: "Talk time",
+    deliveryPerTurn: "Pace per turn",
+
+    // Turn Audio
+    takeOriginal: "Original",
+    take: "Take",
+    recordTake: "Re-record",
+    stopRecording: "Stop",
+    micUnavailable: "Microphone unavailable",
+
+    // Settings Store
+    agentId: "ElevenLabs Agent ID",
+    agentIdMissing: "No ElevenLabs agent ID set",
+    openSettings: "Open settings",
+    optional: "Optional",
+    settingsModel: "Model",
+    analysisTemperature: "Analysis Temperature",
+    useLocalStandIn: "Use local stand-in",
+    apiKeys: "API Keys",
+    geminiApiKey: "Gemini API Key",
+    openAiApiKey: "OpenAI-compatible API Key",
+    defaultPracticeLanguage: "Default Practice Language",
+    settingsRequired: "Required",
+    settingsInvalidUrl: "Enter an http(s) URL",
+    settingsInvalidFormat: "This doesn't look right",
+    settingsOutOfRange: "Out of range",
+    settingsFixIssues: "Fix the highlighted fields first",
+    testConnection: "Test connection",
+    testingConnection: "Testing...",
+    connectionOk: "Connected",
+    connectionFailed: "Connection failed",
+    passphrase: "Passphrase",
+    newPassphrase: "New passphrase",
+    confirmPassphrase: "Confirm passphrase",
+    passphraseHint: "Encrypt your stored API keys with a passphrase. You'll enter it once per visit.",
+    passphraseActiveHint: "Your API keys are encrypted with a passphrase.",
+    passphraseTooShort: "Use at least 8 characters",
+    setPassphrase: "Set passphrase",
+    changePassphrase: "Change passphrase",
+    removePassphrase: "Remove passphrase",
+    lockNow: "Lock now",
+    unlock: "Unlock",
+    wrongPassphrase: "Wrong passphrase",
+    settingsLockedHint: "Your API keys are locked. Enter your passphrase to use or edit them.",
+    passphraseSet: "Passphrase set. Your keys are now stored encrypted.",
+    passphraseRemoved: "Passphrase removed. Your keys are stored unencrypted.",
+    settingsProfiles: "Profiles",
+    profileName: "Profile name",
+    includeKeys: "Include API keys",
+    includeKeysPlainWarning: "Keys will be written to the file unencrypted. Set a passphrase to export them encrypted.",
+    exportProfile: "Export profile",
+    importProfile: "Import profile...",
+    profileImported: "Profile imported.",
+    profileImportedLocked: "Profile imported. Enter the profile's passphrase to unlock its keys.",
+
+    // Chat Errors
+    replyFailed: "The reply couldn't be generated. Check the model settings and try again.",
+    openerFailed: "Couldn't steer toward that topic. Check the model settings and try again.",
+
+    // Correction Errors
+    correctionUnavailable: "Correction unavailable",
   },
   zh: {
     appTitle: "语境道场",
@@ -67,19 +320,272 @@ export const TRANSLATIONS = {
     thinking: "思考中...",
     sayHello: "打个招呼开始练习吧。",
     typePlaceholder: "输入消息...",
+    stopGenerating: "停止生成",
     
     // Voice Widget
     voiceMode: "语音模式",
     agentSpeaking: "Agent 正在说话...",
     speakNaturally: "请自然交谈",
     tapToConnect: "点击连接",
-    configAgent: "配置 Agent ID",
+    configAgent: "语音设置",
     done: "完成",
     
     // Transcript
     waitingForConv: "等待对话...",
     userRole: "用户",
     dojoRole: "道场",
+
+    // Session Library
+    sessions: "会话",
+    sessionLibrary: "会话记录",
+    searchSessions: "搜索会话...",
+    noSessions: "暂无保存的会话。",
+    messages: "条消息",
+    currentSession: "当前",
+    rename: "重命名",
+    delete: "删除",
+    deleteSessionConfirm: "删除会话",
+
+    // Export / Import
+    exportJson: "会话 (JSON)",
+    exportMarkdown: "报告 (Markdown)",
+    exportSrt: "字幕 (SRT)",
+    exportVtt: "字幕 (WebVTT)",
+    importJson: "导入会话...",
+    importFailed: "导入失败",
+
+    // Settings
+    settings: "设置",
+    provider: "模型提供方",
+    modelName: "模型",
+    baseUrl: "接口地址",
+    apiKey: "API 密钥",
+    temperature: "回复温度",
+    cancel: "取消",
+
+    // Scenarios
+    scenarios: "场景",
+    scenarioLibrary: "场景库",
+    newScenario: "新建",
+    importLabel: "导入",
+    exportLabel: "导出",
+    startScenario: "开始",
+    edit: "编辑",
+    duplicate: "复制",
+    deleteScenarioConfirm: "删除场景",
+    scenarioTitle: "标题",
+    scenarioMode: "模式",
+    difficulty: "难度",
+    persona: "角色",
+    setting: "情境",
+    openingLine: "开场白",
+    goals: "目标（每行一个）",
+    successCriteria: "成功标准（每行一个）",
+
+    // Session Start
+    chooseContext: "选择语境",
+    chooseContextSub: "选择一种模式，开始练习对话。",
+    modeAdaptive: "自适应",
+    modeAdaptiveDesc: "让道场根据对话自动选择最合适的风格。",
+    modeTopical: "话题讨论",
+    modeTopicalDesc: "练习清晰地谈论特定主题、爱好或时事。",
+    modeSocial: "社交闲聊",
+    modeSocialDesc: "练习寒暄、破冰和积极倾听。",
+    modeDebate: "深度讨论",
+    modeDebateDesc: "组织复杂论点，探讨哲学或逻辑。",
+    practiceLanguage: "练习语言",
+    uiLanguage: "界面语言",
+    sessionGoal: "本次目标（可选）",
+    sessionGoalPlaceholder: "例如：不停顿地讲述我的周末",
+    startSession: "开始练习",
+    orPickScenario: "或选择一个场景",
+    mode: "模式",
+    modeSwitched: "模式已切换",
+
+    // Focus Meter
+    focusMeter: "专注度",
+    onTrack: "紧扣主题",
+    drifting: "有些跑题...",
+    tangentAlert: "跑题警告！",
+    driftHint: "话题跑偏了，试着回到",
+
+    // Coaching Report
+    endSession: "结束练习",
+    generatingReport: "正在生成报告...",
+    coachingReport: "练习报告",
+    strengths: "优点",
+    topImprovements: "三项改进重点",
+    topicsCovered: "涉及话题",
+    skillActiveListening: "积极倾听",
+    skillQuestionAsking: "提问能力",
+    skillTurnBalance: "发言长度平衡",
+    skillTopicMaintenance: "话题保持",
+    skillFillerWords: "口头禅",
+    skillPoliteness: "礼貌语域",
+
+    // Guidance Timeline
+    guidanceTimeline: "指导时间线",
+    allCategories: "全部",
+    guidanceTone: "语气",
+    guidanceClarity: "清晰度",
+    guidanceGrammar: "语法",
+    guidanceEngagement: "互动",
+    noGuidanceYet: "对话过程中的教练反馈会汇总在这里。",
+    showGuidance: "教练提示",
+
+    // Corrections
+    betterVersion: "更好的说法",
+    correctionsFound: "处修改",
+    correctionGrammar: "语法",
+    correctionWordChoice: "用词",
+    correctionRegister: "语体",
+
+    // Vocabulary Notebook
+    vocabularyNotebook: "生词本",
+    notebookTab: "生词",
+    reviewTab: "复习",
+    suggestedWords: "推荐词汇",
+    keepWord: "保留",
+    dismiss: "忽略",
+    searchVocabulary: "搜索词汇...",
+    noVocabularyYet: "点击任一聊天气泡上的书签图标即可保存词汇。",
+    nextReview: "下次复习",
+    cardsDue: "张待复习",
+    showAnswer: "显示释义",
+    gradeAgain: "忘记",
+    gradeHard: "困难",
+    gradeGood: "良好",
+    gradeEasy: "简单",
+    nothingDue: "暂无待复习内容，稍后再来！",
+    saveToNotebook: "将选中内容存入生词本",
+    saveWordPrompt: "要保存的单词或短语：",
+
+    // Steering
+    steerHere: "将对话引向这里",
+    steeredTo: "话题转向",
+
+    // Map Editing
+    addNode: "节点",
+    addChild: "添加子节点",
+    nodeLabel: "名称",
+    mergeInto: "合并到",
+    moveUnder: "移动到",
+    deleteBranch: "删除分支",
+    mergeSimilar: "合并相似",
+    mergeSimilarHint: "查找并合并表示同一话题的节点",
+    merging: "合并中...",
+    undo: "撤销",
+
+    // Map Export
+    exportMap: "导出导图",
+    exportPng: "PNG 图片（含图例）",
+    exportSvg: "SVG 图片",
+    exportMermaid: "Mermaid 流程图",
+    exportGraphMl: "GraphML",
+    exportOpml: "OPML 大纲",
+    exportFailed: "导出失败",
+
+    // Map Layouts
+    mapLayout: "布局",
+    layoutForce: "层级",
+    layoutRadial: "放射状",
+    layoutTree: "整齐树",
+    layoutTimeline: "时间线",
+    layoutCluster: "按类型",
+
+    // Map Navigation
+    searchMap: "搜索导图…",
+    zoomIn: "放大",
+    zoomOut: "缩小",
+    fitToScreen: "适应屏幕",
+    mapKeyboardHint: "语境树。方向键在节点间移动，+ 和 - 缩放，0 适应屏幕。",
+
+    // Voice Backends
+    voiceBackend: "语音后端",
+    transportElevenlabs: "ElevenLabs Agent",
+    transportBrowser: "浏览器语音（本地）",
+    transportScripted: "脚本演示（离线）",
+    browserSpeechUnsupported: "此浏览器不支持语音识别。请尝试 Chrome 或 Edge。",
+    voiceThinking: "思考中...",
+
+    // Voice Turns
+    interrupted: "被打断",
+    interruptedHint: "话说到一半被打断，只保留了打断前说出的部分",
+
+    // Delivery Dashboard
+    delivery: "表达",
+    showMore: "展开",
+    showLess: "收起",
+    deliveryPace: "语速",
+    deliveryPaceHint: "你计时语音轮次的平均每分钟词数",
+    deliveryWpm: "词/分",
+    deliveryPause: "停顿",
+    deliveryPauseHint: "开始回答前的平均沉默时长",
+    deliveryFillers: "填充词",
+    deliveryPer100Words: "每百词",
+    deliveryLongest: "最长",
+    deliveryWords: "词",
+    deliveryTalkRatio: "说话时长",
+    deliveryPerTurn: "每轮语速",
+
+    // Turn Audio
+    takeOriginal: "原始录音",
+    take: "录音",
+    recordTake: "重新录制",
+    stopRecording: "停止",
+    micUnavailable: "无法使用麦克风",
+
+    // Settings Store
+    agentId: "ElevenLabs 智能体 ID",
+    agentIdMissing: "尚未设置 ElevenLabs 智能体 ID",
+    openSettings: "打开设置",
+    optional: "可选",
+    settingsModel: "模型",
+    analysisTemperature: "分析温度",
+    useLocalStandIn: "使用本地替身服务",
+    apiKeys: "API 密钥",
+    geminiApiKey: "Gemini API 密钥",
+    openAiApiKey: "OpenAI 兼容 API 密钥",
+    defaultPracticeLanguage: "默认练习语言",
+    settingsRequired: "必填",
+    settingsInvalidUrl: "请输入 http(s) 地址",
+    settingsInvalidFormat: "格式似乎不正确",
+    settingsOutOfRange: "超出范围",
+    settingsFixIssues: "请先修正标出的字段",
+    testConnection: "测试连接",
+    testingConnection: "测试中...",
+    connectionOk: "连接成功",
+    connectionFailed: "连接失败",
+    passphrase: "口令",
+    newPassphrase: "新口令",
+    confirmPassphrase: "确认口令",
+    passphraseHint: "用口令加密已保存的 API 密钥。每次访问时需输入一次。",
+    passphraseActiveHint: "你的 API 密钥已用口令加密。",
+    passphraseTooShort: "至少 8 个字符",
+    setPassphrase: "设置口令",
+    changePassphrase: "更改口令",
+    removePassphrase: "移除口令",
+    lockNow: "立即锁定",
+    unlock: "解锁",
+    wrongPassphrase: "口令错误",
+    settingsLockedHint: "API 密钥已锁定。输入口令后才能使用或编辑。",
+    passphraseSet: "口令已设置，密钥现以加密方式保存。",
+    passphraseRemoved: "口令已移除，密钥以未加密方式保存。",
+    settingsProfiles: "配置档案",
+    profileName: "档案名称",
+    includeKeys: "包含 API 密钥",
+    includeKeysPlainWarning: "密钥将以明文写入文件。设置口令后可加密导出。",
+    exportProfile: "导出档案",
+    importProfile: "导入档案...",
+    profileImported: "档案已导入。",
+    profileImportedLocked: "档案已导入。输入该档案的口令以解锁其中的密钥。",
+
+    // Chat Errors
+    replyFailed: "无法生成回复。请检查模型设置后重试。",
+    openerFailed: "无法转向该话题。请检查模型设置后重试。",
+
+    // Correction Errors
+    correctionUnavailable: "暂无法提供纠正",
   },
   de: {
     appTitle: "ContextDojo",
@@ -108,19 +614,272 @@ export const TRANSLATIONS = {
     thinking: "Nachdenken...",
     sayHello: "Sag Hallo, um zu üben.",
     typePlaceholder: "Nachricht eingeben...",
+    stopGenerating: "Generierung stoppen",
     
     // Voice Widget
     voiceMode: "Sprachmodus",
     agentSpeaking: "Agent spricht...",
     speakNaturally: "Sprich ganz natürlich",
     tapToConnect: "Tippen zum Verbinden",
-    configAgent: "Agent ID konfigurieren",
+    configAgent: "Spracheinstellungen",
     done: "Fertig",
     
     // Transcript
     waitingForConv: "Warte auf Gespräch...",
     userRole: "Nutzer",
     dojoRole: "Dojo",
+
+    // Session Library
+    sessions: "Sitzungen",
+    sessionLibrary: "Sitzungsbibliothek",
+    searchSessions: "Sitzungen durchsuchen...",
+    noSessions: "Noch keine gespeicherten Sitzungen.",
+    messages: "Nachrichten",
+    currentSession: "Aktuell",
+    rename: "Umbenennen",
+    delete: "Löschen",
+    deleteSessionConfirm: "Sitzung löschen",
+
+    // Export / Import
+    exportJson: "Sitzung (JSON)",
+    exportMarkdown: "Bericht (Markdown)",
+    exportSrt: "Untertitel (SRT)",
+    exportVtt: "Untertitel (WebVTT)",
+    importJson: "Sitzung importieren...",
+    importFailed: "Import fehlgeschlagen",
+
+    // Settings
+    settings: "Einstellungen",
+    provider: "Modellanbieter",
+    modelName: "Modell",
+    baseUrl: "Basis-URL",
+    apiKey: "API-Schlüssel",
+    temperature: "Antwort-Temperatur",
+    cancel: "Abbrechen",
+
+    // Scenarios
+    scenarios: "Szenarien",
+    scenarioLibrary: "Szenario-Bibliothek",
+    newScenario: "Neu",
+    importLabel: "Importieren",
+    exportLabel: "Exportieren",
+    startScenario: "Starten",
+    edit: "Bearbeiten",
+    duplicate: "Duplizieren",
+    deleteScenarioConfirm: "Szenario löschen",
+    scenarioTitle: "Titel",
+    scenarioMode: "Modus",
+    difficulty: "Schwierigkeit",
+    persona: "Persona",
+    setting: "Umgebung",
+    openingLine: "Eröffnungssatz",
+    goals: "Ziele (eins pro Zeile)",
+    successCriteria: "Erfolgskriterien (eins pro Zeile)",
+
+    // Session Start
+    chooseContext: "Wähle deinen Kontext",
+    chooseContextSub: "Wähle einen Modus, um deinen Gesprächsfluss zu üben.",
+    modeAdaptive: "Adaptiv",
+    modeAdaptiveDesc: "Das Dojo liest das Gespräch und wählt laufend den passenden Stil.",
+    modeTopical: "Themengespräch",
+    modeTopicalDesc: "Übe, klar über bestimmte Themen, Hobbys oder aktuelle Ereignisse zu sprechen.",
+    modeSocial: "Smalltalk",
+    modeSocialDesc: "Übe Smalltalk, das Eis zu brechen und aktives Zuhören.",
+    modeDebate: "Tiefes Gespräch",
+    modeDebateDesc: "Strukturiere komplexe Argumente und diskutiere Philosophie oder Logik.",
+    practiceLanguage: "Übungssprache",
+    uiLanguage: "Oberflächensprache",
+    sessionGoal: "Sitzungsziel (optional)",
+    sessionGoalPlaceholder: "z. B. Ohne Pausen über mein Wochenende sprechen",
+    startSession: "Sitzung starten",
+    orPickScenario: "oder ein Szenario wählen",
+    mode: "Modus",
+    modeSwitched: "Modus gewechselt",
+
+    // Focus Meter
+    focusMeter: "Fokus-Meter",
+    onTrack: "Beim Thema",
+    drifting: "Abschweifend...",
+    tangentAlert: "Themenwechsel!",
+    driftHint: "Du bist vom Thema abgekommen. Versuche zurückzukehren zu",
+
+    // Coaching Report
+    endSession: "Sitzung beenden",
+    generatingReport: "Bericht wird erstellt...",
+    coachingReport: "Coaching-Bericht",
+    strengths: "Stärken",
+    topImprovements: "Top 3 Verbesserungen",
+    topicsCovered: "Behandelte Themen",
+    skillActiveListening: "Aktives Zuhören",
+    skillQuestionAsking: "Fragen stellen",
+    skillTurnBalance: "Redeanteil",
+    skillTopicMaintenance: "Beim Thema bleiben",
+    skillFillerWords: "Füllwörter",
+    skillPoliteness: "Höflichkeitsregister",
+
+    // Guidance Timeline
+    guidanceTimeline: "Feedback-Verlauf",
+    allCategories: "Alle",
+    guidanceTone: "Ton",
+    guidanceClarity: "Klarheit",
+    guidanceGrammar: "Grammatik",
+    guidanceEngagement: "Engagement",
+    noGuidanceYet: "Hier sammelt sich das Feedback des Coaches während des Gesprächs.",
+    showGuidance: "Coach-Hinweis",
+
+    // Corrections
+    betterVersion: "Besser gesagt",
+    correctionsFound: "Korrekturen",
+    correctionGrammar: "Grammatik",
+    correctionWordChoice: "Wortwahl",
+    correctionRegister: "Register",
+
+    // Vocabulary Notebook
+    vocabularyNotebook: "Vokabelheft",
+    notebookTab: "Vokabeln",
+    reviewTab: "Wiederholen",
+    suggestedWords: "Vorgeschlagene Wörter",
+    keepWord: "Behalten",
+    dismiss: "Verwerfen",
+    searchVocabulary: "Wörter suchen...",
+    noVocabularyYet: "Speichere Wörter aus jeder Sprechblase über das Lesezeichen-Symbol.",
+    nextReview: "Nächste Wiederholung",
+    cardsDue: "Karten fällig",
+    showAnswer: "Bedeutung zeigen",
+    gradeAgain: "Nochmal",
+    gradeHard: "Schwer",
+    gradeGood: "Gut",
+    gradeEasy: "Leicht",
+    nothingDue: "Nichts fällig. Schau später wieder vorbei!",
+    saveToNotebook: "Auswahl ins Vokabelheft",
+    saveWordPrompt: "Wort oder Ausdruck zum Speichern:",
+
+    // Steering
+    steerHere: "Gespräch hierhin lenken",
+    steeredTo: "Gelenkt zu",
+
+    // Map Editing
+    addNode: "Knoten",
+    addChild: "Unterknoten",
+    nodeLabel: "Bezeichnung",
+    mergeInto: "Zusammenführen mit",
+    moveUnder: "Verschieben unter",
+    deleteBranch: "Zweig löschen",
+    mergeSimilar: "Ähnliche zusammenführen",
+    mergeSimilarHint: "Knoten zum selben Thema finden und zusammenführen",
+    merging: "Wird zusammengeführt...",
+    undo: "Rückgängig",
+
+    // Map Export
+    exportMap: "Karte exportieren",
+    exportPng: "PNG-Bild (mit Legende)",
+    exportSvg: "SVG-Bild",
+    exportMermaid: "Mermaid-Flussdiagramm",
+    exportGraphMl: "GraphML",
+    exportOpml: "OPML-Gliederung",
+    exportFailed: "Export fehlgeschlagen",
+
+    // Map Layouts
+    mapLayout: "Layout",
+    layoutForce: "Ebenen",
+    layoutRadial: "Radial",
+    layoutTree: "Baum",
+    layoutTimeline: "Zeitleiste",
+    layoutCluster: "Nach Typ",
+
+    // Map Navigation
+    searchMap: "Karte durchsuchen…",
+    zoomIn: "Vergrößern",
+    zoomOut: "Verkleinern",
+    fitToScreen: "An Bildschirm anpassen",
+    mapKeyboardHint: "Kontextbaum. Pfeiltasten wechseln zwischen Knoten, + und - zoomen, 0 passt die Karte an.",
+
+    // Voice Backends
+    voiceBackend: "Sprach-Backend",
+    transportElevenlabs: "ElevenLabs-Agent",
+    transportBrowser: "Browser-Sprache (lokal)",
+    transportScripted: "Skript-Demo (offline)",
+    browserSpeechUnsupported: "Dieser Browser hat keine Spracherkennung. Versuche Chrome oder Edge.",
+    voiceThinking: "Denkt nach...",
+
+    // Voice Turns
+    interrupted: "unterbrochen",
+    interruptedHint: "Mitten im Satz unterbrochen; nur das bis dahin Gesagte bleibt erhalten",
+
+    // Delivery Dashboard
+    delivery: "Vortrag",
+    showMore: "Mehr",
+    showLess: "Weniger",
+    deliveryPace: "WpM",
+    deliveryPaceHint: "Durchschnittliche Wörter pro Minute über deine gemessenen Sprachbeiträge",
+    deliveryWpm: "WpM",
+    deliveryPause: "Pause",
+    deliveryPauseHint: "Durchschnittliche Stille, bevor du zu antworten begonnen hast",
+    deliveryFillers: "Füllwörter",
+    deliveryPer100Words: "pro 100 Wörter",
+    deliveryLongest: "Längster",
+    deliveryWords: "Wörter",
+    deliveryTalkRatio: "Redezeit",
+    deliveryPerTurn: "Tempo pro Beitrag",
+
+    // Turn Audio
+    takeOriginal: "Original",
+    take: "Aufnahme",
+    recordTake: "Neu aufnehmen",
+    stopRecording: "Stopp",
+    micUnavailable: "Mikrofon nicht verfügbar",
+
+    // Settings Store
+    agentId: "ElevenLabs-Agent-ID",
+    agentIdMissing: "Keine ElevenLabs-Agent-ID festgelegt",
+    openSettings: "Einstellungen öffnen",
+    optional: "Optional",
+    settingsModel: "Modell",
+    analysisTemperature: "Analyse-Temperatur",
+    useLocalStandIn: "Lokalen Platzhalter verwenden",
+    apiKeys: "API-Schlüssel",
+    geminiApiKey: "Gemini-API-Schlüssel",
+    openAiApiKey: "OpenAI-kompatibler API-Schlüssel",
+    defaultPracticeLanguage: "Standard-Übungssprache",
+    settingsRequired: "Erforderlich",
+    settingsInvalidUrl: "Bitte eine http(s)-URL eingeben",
+    settingsInvalidFormat: "Das sieht nicht richtig aus",
+    settingsOutOfRange: "Außerhalb des Bereichs",
+    settingsFixIssues: "Bitte zuerst die markierten Felder korrigieren",
+    testConnection: "Verbindung testen",
+    testingConnection: "Wird getestet...",
+    connectionOk: "Verbunden",
+    connectionFailed: "Verbindung fehlgeschlagen",
+    passphrase: "Passphrase",
+    newPassphrase: "Neue Passphrase",
+    confirmPassphrase: "Passphrase bestätigen",
+    passphraseHint: "Verschlüssele gespeicherte API-Schlüssel mit einer Passphrase. Du gibst sie einmal pro Besuch ein.",
+    passphraseActiveHint: "Deine API-Schlüssel sind mit einer Passphrase verschlüsselt.",
+    passphraseTooShort: "Mindestens 8 Zeichen",
+    setPassphrase: "Passphrase festlegen",
+    changePassphrase: "Passphrase ändern",
+    removePassphrase: "Passphrase entfernen",
+    lockNow: "Jetzt sperren",
+    unlock: "Entsperren",
+    wrongPassphrase: "Falsche Passphrase",
+    settingsLockedHint: "Deine API-Schlüssel sind gesperrt. Gib deine Passphrase ein, um sie zu nutzen oder zu bearbeiten.",
+    passphraseSet: "Passphrase festgelegt. Deine Schlüssel werden jetzt verschlüsselt gespeichert.",
+    passphraseRemoved: "Passphrase entfernt. Deine Schlüssel werden unverschlüsselt gespeichert.",
+    settingsProfiles: "Profile",
+    profileName: "Profilname",
+    includeKeys: "API-Schlüssel einschließen",
+    includeKeysPlainWarning: "Die Schlüssel werden unverschlüsselt in die Datei geschrieben. Lege eine Passphrase fest, um sie verschlüsselt zu exportieren.",
+    exportProfile: "Profil exportieren",
+    importProfile: "Profil importieren...",
+    profileImported: "Profil importiert.",
+    profileImportedLocked: "Profil importiert. Gib die Passphrase des Profils ein, um seine Schlüssel zu entsperren.",
+
+    // Chat Errors
+    replyFailed: "Die Antwort konnte nicht erzeugt werden. Prüfe die Modelleinstellungen und versuche es erneut.",
+    openerFailed: "Das Gespräch konnte nicht zu diesem Thema gelenkt werden. Prüfe die Modelleinstellungen und versuche es erneut.",
+
+    // Correction Errors
+    correctionUnavailable: "Korrektur nicht verfügbar",
   }
 };
 
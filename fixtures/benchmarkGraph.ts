@@ -0,0 +1,50 @@
+import { MindMapLink, MindMapNode } from "../types";
+import { ROOT_NODE_ID } from "../services/graphUtils";
+
+const TYPES: MindMapNode['type'][] = ['concept', 'entity', 'action', 'emotion'];
+const WORDS = ['travel', 'career', 'family', 'cooking', 'music', 'weather', 'study', 'sport', 'health', 'money', 'city', 'friends'];
+
+// Small deterministic PRNG (mulberry32) so every benchmark run draws the same map
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// A conversation-shaped tree: shallow near the root, bushy further out, about a third potential.
+// Nodes are ordered parents-first, so any prefix of the list is itself a valid map.
+export const generateBenchmarkGraph = (count: number, seed = 42): { nodes: MindMapNode[]; links: MindMapLink[] } => {
+  const random = seededRandom(seed);
+  const start = new Date(2024, 0, 1, 9, 0).getTime();
+  const nodes: MindMapNode[] = [
+    { id: ROOT_NODE_ID, label: 'Context', group: 1, type: 'root', status: 'active', description: 'Benchmark root' },
+  ];
+  const links: MindMapLink[] = [];
+
+  for (let i = 1; i < count; i++) {
+    // Bias parents toward recent nodes, the way a conversation keeps branching from where it is
+    const parent = nodes[Math.floor(nodes.length * (1 - random() ** 2))] || nodes[0];
+    const status = random() < 0.35 ? 'potential' : 'active';
+    const label = `${WORDS[Math.floor(random() * WORDS.length)]} ${WORDS[Math.floor(random() * WORDS.length)]} ${i}`;
+    nodes.push({
+      id: `node-${i}`,
+      label,
+      group: 2,
+      type: TYPES[Math.floor(random() * TYPES.length)],
+      status,
+      description: `Benchmark node ${i}`,
+      activatedAt: status === 'active' ? new Date(start + i * 20_000) : undefined,
+    });
+    links.push({ source: parent.id, target: `node-${i}` });
+  }
+
+  return { nodes, links };
+};
+
+// The first `count` nodes of a generated graph, with only the links between them
+export const sliceGraph = (graph: { nodes: MindMapNode[]; links: MindMapLink[] }, count: number) => {
+  const nodes = graph.nodes.slice(0, count);
+  const ids = new Set(nodes.map(n => n.id));
+  return { nodes, links: graph.links.filter(l => ids.has(l.source) && ids.has(l.target)) };
+};
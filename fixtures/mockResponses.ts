@@ -0,0 +1,88 @@
+import { LlmTask } from "../services/llmProvider";
+
+// Canned model output for the mock provider. Each task cycles through its list in order.
+export const MOCK_RESPONSES: Record<LlmTask, object[]> = {
+  dojo_response: [
+    {
+      reply_text: "That sounds interesting! What got you started with it?",
+      english_user_translation: "I have been learning to cook recently.",
+      english_agent_translation: "That sounds interesting! What got you started with it?",
+      coach_guidance: "Good opener. Try adding one concrete detail to give your partner something to ask about.",
+      guidance_category: "engagement",
+      key_concept: "Cooking"
+    },
+    {
+      reply_text: "I see. How do you usually prepare for something like that?",
+      english_user_translation: "I have a job interview next week and I am nervous.",
+      english_agent_translation: "I see. How do you usually prepare for something like that?",
+      coach_guidance: "Naming the feeling directly is great. Follow up with what you plan to do about it.",
+      guidance_category: "clarity",
+      key_concept: "Job interview"
+    }
+  ],
+  analysis: [
+    {
+      reply_text: "",
+      english_user_translation: "I have been learning to cook recently.",
+      english_agent_translation: "That sounds interesting! What got you started with it?",
+      coach_guidance: "Nice pacing. Ask a question back to keep the exchange balanced.",
+      guidance_category: "engagement",
+      key_concept: "Cooking",
+      new_vocabulary: [
+        { term: "What got you started", gloss: "How did you begin (asking about someone's motivation)" }
+      ]
+    }
+  ],
+  graph_update: [
+    {
+      nodes: [
+        { label: "Learning to cook", type: "action", status: "active", parent: "Context", description: "The user's new hobby." },
+        { label: "Favourite recipes", type: "concept", status: "potential", parent: "Learning to cook", description: "Ask which dish they are proudest of." },
+        { label: "Cooking for friends", type: "action", status: "potential", parent: "Learning to cook", description: "Social side of the hobby." }
+      ]
+    },
+    {
+      nodes: [
+        { label: "Job interview nerves", type: "emotion", status: "active", parent: "Context", description: "Anxiety about an upcoming interview." },
+        { label: "Interview preparation", type: "action", status: "potential", parent: "Job interview nerves", description: "Talk through a preparation plan." }
+      ]
+    }
+  ],
+  tangent_score: [
+    { drift_score: 15, reason: "The exchange stays on the topic the learner introduced.", redirect_suggestion: null },
+    { drift_score: 78, reason: "The reply jumped to an unrelated subject.", redirect_suggestion: "Bring it back by asking how this connects to what you were discussing before." }
+  ],
+  session_report: [
+    {
+      skills: [
+        { skill: "active_listening", score: 72, summary: "Picked up on the partner's questions and answered them directly.", evidence: [{ message_index: 1, quote: "I have been learning to cook" }] },
+        { skill: "politeness_register", score: 80, summary: "Friendly, appropriately informal tone throughout.", evidence: [{ message_index: 1, quote: "I have been learning to cook" }] }
+      ],
+      strengths: ["Clear, concise answers", "Warm tone"],
+      improvements: ["Ask more follow-up questions", "Add concrete examples", "Reflect back what your partner said"]
+    }
+  ],
+  correction: [
+    {
+      corrected_text: "I have been learning to cook recently.",
+      errors: []
+    },
+    {
+      corrected_text: "I have a job interview next week and I'm a bit nervous about it.",
+      errors: [
+        { original: "have job interview", corrected: "have a job interview", category: "grammar", explanation: "Singular countable nouns need an article." },
+        { original: "I am nervous", corrected: "I'm a bit nervous about it", category: "register", explanation: "Contractions and a softener sound more natural in casual speech." }
+      ]
+    }
+  ],
+  topic_opener: [
+    { opener: "By the way, what's the dish you're proudest of so far?" },
+    { opener: "Can I ask how you usually get ready for something like that?" }
+  ],
+  node_merge: [
+    { groups: [] }
+  ],
+  connection_test: [
+    { ok: true }
+  ]
+};
@@ -0,0 +1,69 @@
+import { VoiceSignal } from "../services/turnSegmenter";
+
+// Recorded voice-session signals; `at` is ms from the start of the recording.
+// Replay one with replaySignals() to see the turns the segmenter cuts from it.
+
+// Two exchanges played by the scripted voice transport, matching the mock provider's first replies
+export const DEMO_VOICE_RECORDING: VoiceSignal[] = [
+  { type: 'agent_speaking', at: 0 },
+  { type: 'agent_speech', text: "Hi! ", at: 100 },
+  { type: 'agent_speech', text: "What have you been up to lately?", at: 900 },
+  { type: 'agent_listening', at: 2600 },
+  { type: 'user_speech', text: "I have", final: false, at: 3600 },
+  { type: 'user_speech', text: "I have been learning", final: false, at: 4200 },
+  { type: 'user_speech', text: "I have been learning to cook recently.", final: true, at: 5100 },
+  { type: 'agent_speaking', at: 6000 },
+  { type: 'agent_speech', text: "That sounds interesting! ", at: 6100 },
+  { type: 'agent_speech', text: "What got you started with it?", at: 7300 },
+  { type: 'agent_listening', at: 9000 },
+  { type: 'user_speech', text: "I have a job", final: false, at: 10400 },
+  { type: 'user_speech', text: "I have a job interview next week", final: false, at: 11300 },
+  { type: 'user_speech', text: "I have a job interview next week and I am nervous.", final: true, at: 12400 },
+  { type: 'agent_speaking', at: 13300 },
+  { type: 'agent_speech', text: "I see. ", at: 13400 },
+  { type: 'agent_speech', text: "How do you usually prepare for something like that?", at: 14200 },
+  { type: 'agent_listening', at: 16800 },
+  { type: 'tick', at: 17600 },
+];
+
+// The learner cuts in halfway through a reply. The agent turn commits as interrupted with only the
+// part that was spoken (from the correction), then the learner's turn follows.
+export const BARGE_IN_RECORDING: VoiceSignal[] = [
+  { type: 'user_speech', text: "Can you recommend a book?", final: true, at: 0 },
+  { type: 'agent_speaking', at: 900 },
+  { type: 'agent_speech', text: "Sure! One I really like is a long novel about a family of sailors who cross the Atlantic.", at: 950 },
+  { type: 'agent_listening', at: 2400 },
+  { type: 'interruption', heardText: "Sure! One I really like is", at: 2450 },
+  { type: 'user_speech', text: "Sorry, something shorter please.", final: true, at: 3600 },
+  { type: 'agent_speaking', at: 4300 },
+  { type: 'agent_speech', text: "Then try a short story collection.", at: 4350 },
+  { type: 'agent_listening', at: 6100 },
+  { type: 'session_end', at: 7000 },
+];
+
+// Two utterances with a pause between them before the agent answers: one learner turn holding both
+export const DOUBLE_UTTERANCE_RECORDING: VoiceSignal[] = [
+  { type: 'user_speech', text: "Yesterday I went to the market.", final: true, at: 0 },
+  { type: 'user_speech', text: "And then", final: false, at: 1800 },
+  { type: 'user_speech', text: "And then I cooked dinner for my friends.", final: true, at: 2900 },
+  { type: 'agent_speaking', at: 3700 },
+  { type: 'agent_speech', text: "What did you cook?", at: 3750 },
+  { type: 'agent_listening', at: 5000 },
+  { type: 'tick', at: 5800 },
+];
+
+// The agent makes a sound but sends no text, then answers properly: only the second agent turn commits.
+// Its mode also flickers back to speaking mid-reply, which stays one turn.
+export const EMPTY_AGENT_TURN_RECORDING: VoiceSignal[] = [
+  { type: 'user_speech', text: "Hmm, let me think.", final: true, at: 0 },
+  { type: 'agent_speaking', at: 700 },
+  { type: 'agent_listening', at: 1100 },
+  { type: 'tick', at: 1900 },
+  { type: 'user_speech', text: "I think I prefer the mountains.", final: true, at: 3200 },
+  { type: 'agent_speaking', at: 4000 },
+  { type: 'agent_speech', text: "Why the mountains?", at: 4050 },
+  { type: 'agent_listening', at: 4700 },
+  { type: 'agent_speaking', at: 4900 },
+  { type: 'agent_listening', at: 5600 },
+  { type: 'session_end', at: 6000 },
+];
@@ -1,15 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import MapBenchmark from './components/MapBenchmark';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// ?benchmark=map swaps the app for the mind map stress test
+const isMapBenchmark = new URLSearchParams(window.location.search).get('benchmark') === 'map';
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isMapBenchmark ? <MapBenchmark /> : <App />}
   </React.StrictMode>
-);
\ No newline at end of file
+);
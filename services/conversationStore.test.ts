@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { DojoState } from '../types';
+import { ConversationEvent, conversationReducer, recordEvent, replayEvents, startConversation } from './conversationStore';
+
+const INITIAL: DojoState = {
+  mode: null,
+  currentTopic: 'Context',
+  mindMapNodes: [{ id: 'Context', label: 'Context', group: 1, type: 'root', status: 'active' }],
+  mindMapLinks: [],
+  conversationHistory: [],
+  lastGuidance: null,
+};
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, seconds));
+
+const greeting = { id: 'm0', role: 'model' as const, text: 'Hello!', timestamp: at(0) };
+
+// A text exchange with a streamed reply, then a voice exchange, an analysis and a graph update
+const SESSION_EVENTS: ConversationEvent[] = [
+  { type: 'SessionLoaded', state: INITIAL },
+  { type: 'SessionStarted', mode: 'topical', practiceLanguage: 'de', goal: 'Talk about cooking', greeting },
+  { type: 'UserTurnCommitted', id: 'm1', text: 'Ich koche gern.', at: at(5) },
+  { type: 'AgentChunk', text: 'Was ' },
+  { type: 'AgentChunk', text: 'kochst ' },
+  { type: 'AgentChunk', text: 'du?' },
+  { type: 'AgentTurnCommitted', id: 'm2', text: 'Was kochst du?', at: at(8) },
+  { type: 'StreamCleared' },
+  { type: 'UserTurnStarted', text: 'Meistens' },
+  { type: 'UserTurnStarted', text: 'Meistens Pasta' },
+  {
+    type: 'UserTurnCommitted',
+    id: 'm3',
+    text: 'Meistens Pasta.',
+    at: at(12),
+    timing: { startedAt: at(12), endedAt: at(14), interrupted: false },
+  },
+  {
+    type: 'AnalysisReady',
+    userMessageId: 'm1',
+    agentMessageId: 'm2',
+    analysis: {
+      english_user_translation: 'I like cooking.',
+      english_agent_translation: 'What do you cook?',
+      coach_guidance: 'Ask a follow-up question.',
+      key_concept: null,
+    },
+  },
+  {
+    type: 'GraphUpdated',
+    messageIds: ['m1', 'm2'],
+    nodes: [{ label: 'Cooking', type: 'concept', status: 'active', parent: 'Context', description: 'Cooking at home' }],
+    tangent: null,
+    driftHint: 'Back to',
+    at: at(15),
+  },
+  { type: 'AgentChunk', text: 'Welche ' },
+  { type: 'AgentChunk', text: 'Pasta?' },
+];
+
+// Applies events the way App does: through the reducer, recording each one in the log
+const runLive = (events: ConversationEvent[]) => {
+  const log: ConversationEvent[] = [];
+  let state = startConversation(INITIAL);
+  for (const event of events) {
+    recordEvent(log, event);
+    state = conversationReducer(state, event);
+  }
+  return { log, state };
+};
+
+describe('replayEvents', () => {
+  it('rebuilds the live state from the recorded log', () => {
+    const { log, state } = runLive(SESSION_EVENTS);
+    expect(replayEvents(log)).toEqual(state);
+    expect(state.session.conversationHistory.map(m => m.id)).toEqual(['m0', 'm1', 'm2', 'm3']);
+    expect(state.session.mindMapNodes.map(n => n.label)).toContain('Cooking');
+  });
+
+  it('matches the live state after every event, including mid-stream', () => {
+    for (let i = 1; i <= SESSION_EVENTS.length; i++) {
+      const { log, state } = runLive(SESSION_EVENTS.slice(0, i));
+      expect(replayEvents(log)).toEqual(state);
+    }
+  });
+
+  it('starts from a given state when the log does not open with SessionLoaded', () => {
+    const from = startConversation(INITIAL);
+    const events: ConversationEvent[] = [{ type: 'UserTurnCommitted', id: 'u1', text: 'Hi', at: at(1) }];
+    expect(replayEvents(events, from).session.conversationHistory).toHaveLength(1);
+    expect(() => replayEvents(events)).toThrow();
+  });
+});
+
+describe('recordEvent', () => {
+  it('folds streamed chunks into one pending event and drops it once the turn commits', () => {
+    const { log } = runLive(SESSION_EVENTS);
+    const chunks = log.filter(e => e.type === 'AgentChunk');
+    expect(chunks).toEqual([{ type: 'AgentChunk', text: 'Welche Pasta?' }]);
+    expect(log.some(e => e.type === 'UserTurnStarted')).toBe(false);
+  });
+
+  it('keeps the log size independent of how many chunks were streamed', () => {
+    const events: ConversationEvent[] = [{ type: 'SessionLoaded', state: INITIAL }];
+    for (let turn = 0; turn < 20; turn++) {
+      for (let i = 0; i < 50; i++) events.push({ type: 'AgentChunk', text: 'x' });
+      events.push({ type: 'AgentTurnCommitted', id: `a${turn}`, text: 'x'.repeat(50), at: at(turn) });
+    }
+    const { log, state } = runLive(events);
+    expect(log).toHaveLength(21);
+    expect(replayEvents(log)).toEqual(state);
+  });
+
+  it('starts over when a session is loaded', () => {
+    const { log } = runLive([...SESSION_EVENTS, { type: 'SessionLoaded', state: INITIAL }]);
+    expect(log).toEqual([{ type: 'SessionLoaded', state: INITIAL }]);
+  });
+});
+
+describe('graph undo', () => {
+  const addNode = (label: string): ConversationEvent =>
+    ({ type: 'GraphEdited', edit: { kind: 'add', parentId: 'Context', label, nodeType: 'concept' }, at: at(1) });
+  const labelsOf = (state: ReturnType<typeof replayEvents>) => state.session.mindMapNodes.map(n => n.label);
+
+  it('reverses the learner\'s edits and merges one at a time', () => {
+    const { state } = runLive([
+      { type: 'SessionLoaded', state: INITIAL },
+      addNode('Cooking'),
+      addNode('Cookery'),
+      { type: 'NodesMerged', pairs: [{ keepId: 'Cooking', dropId: 'Cookery' }] },
+    ]);
+    expect(labelsOf(state)).toEqual(['Context', 'Cooking']);
+    const once = conversationReducer(state, { type: 'GraphUndone' });
+    expect(labelsOf(once)).toEqual(['Context', 'Cooking', 'Cookery']);
+    const twice = conversationReducer(once, { type: 'GraphUndone' });
+    expect(labelsOf(twice)).toEqual(['Context', 'Cooking']);
+  });
+
+  it('records no step for an edit that changes nothing', () => {
+    const { state } = runLive([
+      { type: 'SessionLoaded', state: INITIAL },
+      { type: 'GraphEdited', edit: { kind: 'rename', nodeId: 'missing', label: 'X' }, at: at(1) },
+    ]);
+    expect(state.graphUndo).toEqual([]);
+  });
+
+  it('starts over once the model has changed the map', () => {
+    const { state } = runLive([
+      { type: 'SessionLoaded', state: INITIAL },
+      addNode('Cooking'),
+      SESSION_EVENTS.find(e => e.type === 'GraphUpdated')!,
+    ]);
+    expect(state.graphUndo).toEqual([]);
+    expect(conversationReducer(state, { type: 'GraphUndone' })).toBe(state);
+  });
+});
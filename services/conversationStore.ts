@@ -0,0 +1,333 @@
+import { BrainResponse, ChatMessage, ConversationMode, Correction, DojoState, GraphUpdate, Guidance, MindMapNode, SessionReport, TangentJudgement, TurnTiming } from "../types";
+import { DRIFT_ALERT_THRESHOLD, buildFocusSample, getFocusNodeId, getNodeLabel } from "./focusScoring";
+import { ROOT_NODE_ID, reparentNode } from "./graphUtils";
+import { GraphEdit, GraphState, MergePair, applyGraphEdit, findMatchingNode, mergePairs, snapshotGraph, uniqueNodeId } from "./graphEditing";
+import { linkMessagesToNodes } from "./messageLinks";
+
+// The session as a reducer over typed events. Events carry everything they need (message ids,
+// timestamps, already-translated UI strings), so async results always land on the turn they name and
+// a recorded log replays to the same state.
+
+export interface ConversationState {
+  session: DojoState;
+  streamingUser: string;  // Live transcript of the learner's turn in progress
+  streamingAgent: string; // Agent reply as it streams in
+  // The map before each of the learner's edits and merges, newest last
+  graphUndo: GraphState[];
+}
+
+export const MAX_UNDO_STEPS = 50;
+
+export type ConversationEvent =
+  // Replaces everything: resume, open, import, reset, scenario start
+  | { type: 'SessionLoaded'; state: DojoState }
+  | { type: 'SessionStarted'; mode: Exclude<ConversationMode, null>; practiceLanguage: string; goal: string | null; greeting: ChatMessage }
+  // The learner is speaking; `text` is the live transcript so far, resent as it grows
+  | { type: 'UserTurnStarted'; text: string }
+  // `timing` is set for spoken turns
+  | { type: 'UserTurnCommitted'; id: string; text: string; at: Date; timing?: TurnTiming }
+  | { type: 'AgentChunk'; text: string }
+  | { type: 'AgentTurnCommitted'; id: string; text: string; at: Date; timing?: TurnTiming }
+  // A reply was cancelled or failed mid-stream
+  | { type: 'StreamCleared' }
+  | { type: 'AnalysisReady'; userMessageId: string | null; agentMessageId: string; analysis: BrainResponse; guidance?: Guidance }
+  | { type: 'CorrectionReady'; messageId: string; correction: Correction }
+  | { type: 'CorrectionUnavailable'; messageId: string }
+  | { type: 'GraphUpdated'; messageIds: string[]; nodes: GraphUpdate['nodes']; tangent: TangentJudgement | null; driftHint: string; at: Date }
+  | { type: 'GraphEdited'; edit: GraphEdit; at: Date }
+  | { type: 'NodesMerged'; pairs: MergePair[] }
+  // Puts the map back to before the latest undoable edit or merge
+  | { type: 'GraphUndone' }
+  // `message` is logged in the transcript when steering happens in a live voice session
+  | { type: 'SteeredToNode'; nodeId: string; reason: string; message: { id: string; text: string } | null; at: Date }
+  | { type: 'ModeSwitched'; to: Exclude<ConversationMode, null>; messageId: string; messageText: string; markerLabel: string; markerDescription: string; at: Date }
+  | { type: 'ReportReady'; report: SessionReport };
+
+export const startConversation = (session: DojoState): ConversationState => ({
+  session,
+  streamingUser: '',
+  streamingAgent: '',
+  graphUndo: [],
+});
+
+const withSession = (state: ConversationState, session: DojoState): ConversationState =>
+  session === state.session ? state : { ...state, session };
+
+// An edit or merge that changed the map, with the map it replaced pushed onto the undo stack
+const withUndoStep = (state: ConversationState, session: DojoState): ConversationState =>
+  session === state.session ? state : {
+    ...state,
+    session,
+    graphUndo: [...state.graphUndo, snapshotGraph(state.session)].slice(-MAX_UNDO_STEPS),
+  };
+
+// Snapshots only undo the learner's own changes. Once the model, steering or a mode switch has changed
+// the map, restoring one would wipe those changes too, so the stack starts over.
+const withoutUndo = (state: ConversationState, session: DojoState): ConversationState =>
+  session === state.session ? state : { ...state, session, graphUndo: [] };
+
+const appendMessage = (session: DojoState, message: ChatMessage): DojoState => ({
+  ...session,
+  conversationHistory: [...session.conversationHistory, message],
+});
+
+// Incoming nodes either land on the node with the same label or are added under their named parent (the
+// root when it can't be found). Near-duplicates are left for the undoable merge pass. The first active one is where the exchange landed, which feeds the focus meter.
+const applyGraphUpdate = (session: DojoState, event: Extract<ConversationEvent, { type: 'GraphUpdated' }>): DojoState => {
+  const nextNodes = [...session.mindMapNodes];
+  const nextLinks = [...session.mindMapLinks];
+  let landedId: string | null = null;
+  const touchedIds: string[] = [];
+
+  event.nodes.forEach(n => {
+    if (!n.label) return;
+    const existingNode = findMatchingNode(nextNodes, n.label);
+
+    if (existingNode) {
+      const existingNodeIndex = nextNodes.indexOf(existingNode);
+      if (n.status === 'active' && !landedId) landedId = existingNode.id;
+      touchedIds.push(existingNode.id);
+      if (existingNode.status === 'potential' && n.status === 'active') {
+        nextNodes[existingNodeIndex] = { ...existingNode, status: 'active', description: n.description, activatedAt: event.at };
+      } else if (n.description) {
+        nextNodes[existingNodeIndex] = { ...existingNode, description: n.description };
+      }
+      return;
+    }
+
+    const newNode: MindMapNode = {
+      id: uniqueNodeId(nextNodes, n.label),
+      label: n.label,
+      type: n.type,
+      status: n.status,
+      group: 2,
+      description: n.description,
+      activatedAt: n.status === 'active' ? event.at : undefined,
+    };
+    if (n.status === 'active' && !landedId) landedId = newNode.id;
+    touchedIds.push(newNode.id);
+
+    const parentNode = (n.parent && findMatchingNode(nextNodes, n.parent)) || nextNodes.find(ex => ex.id === ROOT_NODE_ID);
+    nextNodes.push(newNode);
+    if (parentNode) {
+      const linkExists = nextLinks.some(l =>
+        (l.source === parentNode.id && l.target === newNode.id) ||
+        (l.source === newNode.id && l.target === parentNode.id)
+      );
+      if (!linkExists) nextLinks.push({ source: parentNode.id, target: newNode.id });
+    }
+  });
+
+  const fromId = getFocusNodeId(session.focusHistory);
+  const landed = nextNodes.find(ex => ex.id === landedId) || null;
+  const sample = buildFocusSample(fromId, landed, nextLinks, event.tangent, event.at);
+  const wayBack = sample.score > DRIFT_ALERT_THRESHOLD
+    ? (sample.redirect || `${event.driftHint} "${getNodeLabel(nextNodes, fromId)}"`)
+    : null;
+  const linked = linkMessagesToNodes({ mindMapNodes: nextNodes, conversationHistory: session.conversationHistory }, event.messageIds, touchedIds);
+
+  return {
+    ...session,
+    ...linked,
+    mindMapLinks: nextLinks,
+    focusHistory: [...(session.focusHistory || []), sample],
+    currentTopic: landed ? landed.label : session.currentTopic,
+    lastGuidance: wayBack || session.lastGuidance,
+  };
+};
+
+// A picked potential node becomes active under the current focus. The learner chose this branch,
+// so landing on it isn't drift.
+const steerToNode = (session: DojoState, event: Extract<ConversationEvent, { type: 'SteeredToNode' }>): DojoState => {
+  const node = session.mindMapNodes.find(n => n.id === event.nodeId);
+  if (!node) return session;
+  const steerMsg: ChatMessage | null = event.message && {
+    id: event.message.id, role: 'system', text: event.message.text, nodeIds: [node.id], timestamp: event.at,
+  };
+  return {
+    ...session,
+    mindMapNodes: session.mindMapNodes.map(n => n.id !== node.id ? n : {
+      ...n,
+      status: 'active',
+      activatedAt: event.at,
+      messageIds: steerMsg ? [...(n.messageIds || []), steerMsg.id] : n.messageIds,
+    }),
+    mindMapLinks: reparentNode(session.mindMapLinks, node.id, getFocusNodeId(session.focusHistory)),
+    focusHistory: [...(session.focusHistory || []), {
+      score: 0, structuralScore: 0, modelScore: null, nodeId: node.id, reason: event.reason, timestamp: event.at,
+    }],
+    currentTopic: node.label,
+    conversationHistory: steerMsg ? [...session.conversationHistory, steerMsg] : session.conversationHistory,
+  };
+};
+
+// Logged as a system turn and as a marker node hanging off the latest active topic
+const switchMode = (session: DojoState, event: Extract<ConversationEvent, { type: 'ModeSwitched' }>): DojoState => {
+  if (session.mode === event.to) return session;
+  const markerId = `mode-${event.at.getTime()}`;
+  const anchor = [...session.mindMapNodes].reverse().find(n => n.status === 'active' && n.type !== 'marker');
+  const systemMsg: ChatMessage = {
+    id: event.messageId,
+    role: 'system',
+    text: event.messageText,
+    modeChange: { from: session.mode, to: event.to },
+    nodeIds: [markerId],
+    timestamp: event.at,
+  };
+  const marker: MindMapNode = {
+    id: markerId,
+    label: event.markerLabel,
+    group: 3,
+    type: 'marker',
+    status: 'active',
+    description: event.markerDescription,
+    activatedAt: event.at,
+    messageIds: [systemMsg.id],
+  };
+  return {
+    ...session,
+    mode: event.to,
+    conversationHistory: [...session.conversationHistory, systemMsg],
+    mindMapNodes: [...session.mindMapNodes, marker],
+    mindMapLinks: [...session.mindMapLinks, { source: anchor?.id || ROOT_NODE_ID, target: markerId }],
+  };
+};
+
+export const conversationReducer = (state: ConversationState, event: ConversationEvent): ConversationState => {
+  const { session } = state;
+  switch (event.type) {
+    case 'SessionLoaded':
+      return startConversation(event.state);
+
+    case 'SessionStarted':
+      return withoutUndo(state, {
+        ...session,
+        mode: event.mode,
+        practiceLanguage: event.practiceLanguage,
+        sessionGoal: event.goal,
+        mindMapNodes: event.goal
+          ? session.mindMapNodes.map(n => n.id === ROOT_NODE_ID ? { ...n, description: event.goal! } : n)
+          : session.mindMapNodes,
+        conversationHistory: session.conversationHistory.length > 0 ? session.conversationHistory : [event.greeting],
+      });
+
+    case 'UserTurnStarted':
+      return { ...state, streamingUser: event.text };
+
+    case 'UserTurnCommitted': {
+      if (!event.text) return { ...state, streamingUser: '' };
+      const message: ChatMessage = { id: event.id, role: 'user', text: event.text, timing: event.timing, timestamp: event.at };
+      return { ...state, session: appendMessage(session, message), streamingUser: '' };
+    }
+
+    case 'AgentChunk':
+      return { ...state, streamingAgent: state.streamingAgent + event.text };
+
+    case 'AgentTurnCommitted': {
+      if (!event.text) return { ...state, streamingAgent: '' };
+      const message: ChatMessage = { id: event.id, role: 'model', text: event.text, timing: event.timing, timestamp: event.at };
+      return { ...state, session: appendMessage(session, message), streamingAgent: '' };
+    }
+
+    case 'StreamCleared':
+      return state.streamingUser || state.streamingAgent ? { ...state, streamingUser: '', streamingAgent: '' } : state;
+
+    case 'AnalysisReady': {
+      const { analysis } = event;
+      return withSession(state, {
+        ...session,
+        conversationHistory: session.conversationHistory.map(m => {
+          if (m.id === event.userMessageId) return { ...m, translatedText: analysis.english_user_translation, guidance: event.guidance };
+          if (m.id === event.agentMessageId) return { ...m, translatedText: analysis.english_agent_translation };
+          return m;
+        }),
+        lastGuidance: analysis.coach_guidance || null,
+      });
+    }
+
+    case 'CorrectionReady':
+      return withSession(state, {
+        ...session,
+        conversationHistory: session.conversationHistory.map(m => m.id === event.messageId ? { ...m, correction: event.correction } : m),
+      });
+
+    case 'CorrectionUnavailable':
+      return withSession(state, {
+        ...session,
+        conversationHistory: session.conversationHistory.map(m => m.id === event.messageId ? { ...m, correctionUnavailable: true } : m),
+      });
+
+    case 'GraphUpdated':
+      return withoutUndo(state, applyGraphUpdate(session, event));
+
+    case 'GraphEdited':
+      return withUndoStep(state, applyGraphEdit(session, event.edit, event.at));
+
+    case 'NodesMerged':
+      return withUndoStep(state, mergePairs(session, event.pairs));
+
+    case 'GraphUndone': {
+      const snapshot = state.graphUndo[state.graphUndo.length - 1];
+      if (!snapshot) return state;
+      return { ...state, session: { ...session, ...snapshot }, graphUndo: state.graphUndo.slice(0, -1) };
+    }
+
+    case 'SteeredToNode':
+      return withoutUndo(state, steerToNode(session, event));
+
+    case 'ModeSwitched':
+      return withoutUndo(state, switchMode(session, event));
+
+    case 'ReportReady':
+      return withSession(state, { ...session, report: event.report });
+  }
+};
+
+// --- EVENT LOG ---
+
+// Removes and returns the log's pending streaming event of this type (there is at most one)
+const takePending = <T extends 'AgentChunk' | 'UserTurnStarted'>(log: ConversationEvent[], type: T) => {
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (log[i].type === type) return log.splice(i, 1)[0] as Extract<ConversationEvent, { type: T }>;
+  }
+  return undefined;
+};
+
+// The log restarts at every SessionLoaded, which carries the full state, so it always replays from its first entry.
+// Streaming events only shape the live bubbles, so they are folded: chunks merge into one event holding the
+// text streamed so far, and both are dropped once the turn commits or the stream is cleared. The log
+// therefore grows with committed turns, not with every chunk.
+export const recordEvent = (log: ConversationEvent[], event: ConversationEvent) => {
+  switch (event.type) {
+    case 'SessionLoaded':
+      log.length = 0;
+      break;
+    case 'AgentChunk': {
+      const pending = takePending(log, 'AgentChunk');
+      if (pending) event = { type: 'AgentChunk', text: pending.text + event.text };
+      break;
+    }
+    case 'UserTurnStarted':
+      takePending(log, 'UserTurnStarted');
+      break;
+    case 'UserTurnCommitted':
+      takePending(log, 'UserTurnStarted');
+      break;
+    case 'AgentTurnCommitted':
+      takePending(log, 'AgentChunk');
+      break;
+    case 'StreamCleared':
+      takePending(log, 'UserTurnStarted');
+      takePending(log, 'AgentChunk');
+      break;
+  }
+  log.push(event);
+};
+
+// Rebuilds the state a log leads to. `from` is only needed for logs that don't open with SessionLoaded.
+export const replayEvents = (events: ConversationEvent[], from?: ConversationState): ConversationState => {
+  const first = events[0];
+  const start = from || (first?.type === 'SessionLoaded' ? startConversation(first.state) : null);
+  if (!start) throw new Error('Replay needs a starting state or a log that opens with SessionLoaded');
+  return events.reduce(conversationReducer, start);
+};
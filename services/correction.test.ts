@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords, toCorrection } from './correction';
+
+const error = { original: 'gern', corrected: 'gerne', category: 'word_choice' as const, explanation: 'More common.' };
+
+describe('diffWords', () => {
+  it('marks removed and added words and reassembles to both inputs', () => {
+    const before = 'Ich habe gestern Pizza gegessen';
+    const after = 'Ich habe gestern eine Pizza gegessen.';
+    const segments = diffWords(before, after);
+    expect(segments).toEqual([
+      { type: 'same', text: 'Ich habe gestern ' },
+      { type: 'added', text: 'eine ' },
+      { type: 'same', text: 'Pizza ' },
+      { type: 'removed', text: 'gegessen' },
+      { type: 'added', text: 'gegessen.' },
+    ]);
+    expect(segments.filter(s => s.type !== 'added').map(s => s.text).join('')).toBe(before);
+    expect(segments.filter(s => s.type !== 'removed').map(s => s.text).join('')).toBe(after);
+  });
+
+  it('keeps whitespace as its own token, so a changed gap shows up in the diff', () => {
+    expect(diffWords('gut  so', 'gut so')).toEqual([
+      { type: 'same', text: 'gut' },
+      { type: 'removed', text: '  ' },
+      { type: 'added', text: ' ' },
+      { type: 'same', text: 'so' },
+    ]);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffWords('', 'Hallo du')).toEqual([{ type: 'added', text: 'Hallo du' }]);
+    expect(diffWords('Hallo', '')).toEqual([{ type: 'removed', text: 'Hallo' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('toCorrection', () => {
+  it('keeps a correction that changes the text', () => {
+    expect(toCorrection({ corrected_text: ' Ich koche gerne. ', errors: [error] }, 'Ich koche gern.'))
+      .toEqual({ correctedText: 'Ich koche gerne.', errors: [error] });
+  });
+
+  it('drops a correction that only differs in whitespace and names no errors', () => {
+    expect(toCorrection({ corrected_text: 'Ich  koche gern. ', errors: [] }, ' Ich koche gern.')).toBeUndefined();
+  });
+
+  it('drops empty corrected text and errors with nothing on either side', () => {
+    expect(toCorrection({ corrected_text: '  ', errors: [error] }, 'Ich koche gern.')).toBeUndefined();
+    expect(toCorrection(
+      { corrected_text: 'Ich koche gerne.', errors: [{ ...error, original: ' ', corrected: '' }, error] },
+      'Ich koche gern.',
+    )?.errors).toEqual([error]);
+  });
+});
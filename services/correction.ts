@@ -0,0 +1,55 @@
+import { Correction, CorrectionJudgement } from "../types";
+
+export interface DiffSegment {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+const normalise = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+// Keeps a correction only when it actually changes something
+export const toCorrection = (judgement: CorrectionJudgement, originalText: string): Correction | undefined => {
+  const correctedText = judgement.corrected_text.trim();
+  const errors = judgement.errors.filter(e => e.original.trim() || e.corrected.trim());
+  if (!correctedText || (errors.length === 0 && normalise(correctedText) === normalise(originalText))) {
+    return undefined;
+  }
+  return { correctedText, errors };
+};
+
+// Whitespace is kept as its own token so the diff reassembles to the exact input
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+// Word-level diff (longest common subsequence). Turns are a sentence or two, so O(n*m) is fine.
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]); i++; j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i]); i++;
+    } else {
+      push('added', b[j]); j++;
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return segments;
+};
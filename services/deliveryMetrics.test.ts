@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ChatMessage } from '../types';
+import { computeDeliveryMetrics } from './deliveryMetrics';
+
+const at = (ms: number) => new Date(Date.UTC(2026, 0, 1, 12) + ms);
+
+// A spoken turn from `startMs` to `endMs` after the session start
+const spoken = (id: string, role: ChatMessage['role'], text: string, startMs: number, endMs: number): ChatMessage => ({
+  id, role, text, timestamp: at(startMs), timing: { startedAt: at(startMs), endedAt: at(endMs), interrupted: false },
+});
+
+describe('computeDeliveryMetrics', () => {
+  it('times turns of 800 ms or more and leaves shorter ones untimed', () => {
+    const { turns } = computeDeliveryMetrics([
+      spoken('u1', 'user', 'Ja genau', 0, 799),
+      spoken('u2', 'user', 'Ja genau', 1000, 1800),
+    ], 'de');
+    expect(turns.map(t => [t.durationMs, t.wpm])).toEqual([[null, null], [800, 150]]);
+  });
+
+  it('counts pauses after an agent turn up to 60 s, and not overlaps or longer gaps', () => {
+    const { turns, averagePauseMs, longestPauseMs } = computeDeliveryMetrics([
+      spoken('a1', 'model', 'Wie geht es dir?', 0, 1000),
+      spoken('u1', 'user', 'Gut, danke.', 61000, 62000),
+      spoken('a2', 'model', 'Und sonst?', 63000, 64000),
+      spoken('u2', 'user', 'Alles gut.', 124001, 125000),
+      spoken('a3', 'model', 'Schön.', 126000, 128000),
+      spoken('u3', 'user', 'Ja.', 127500, 128500),
+      spoken('u4', 'user', 'Wirklich.', 130000, 131000),
+    ], 'de');
+    expect(turns.map(t => t.pauseBeforeMs)).toEqual([60000, null, null, null]);
+    expect(averagePauseMs).toBe(60000);
+    expect(longestPauseMs).toBe(60000);
+  });
+
+  it('leaves out text turns and system messages', () => {
+    const metrics = computeDeliveryMetrics([
+      { id: 's1', role: 'system', text: 'Mode switched', timestamp: at(0) },
+      { id: 'u1', role: 'user', text: 'Typed, not spoken', timestamp: at(0) },
+    ]);
+    expect(metrics.turns).toEqual([]);
+    expect(metrics.averageWpm).toBeNull();
+    expect(metrics.talkRatio).toBeNull();
+    expect(metrics.longestMonologue).toBeNull();
+  });
+
+  it('counts fillers in the practice language, on word boundaries', () => {
+    const metrics = computeDeliveryMetrics([
+      spoken('u1', 'user', 'Um, I like it, likely because, um, you know', 0, 4000),
+    ], 'en');
+    expect(metrics.fillers).toEqual({ en: { um: 2, like: 1, 'you know': 1 } });
+    expect(metrics.fillerCount).toBe(4);
+    expect(metrics.fillersPer100Words).toBeCloseTo(400 / 9);
+  });
+
+  it('splits talk time between the learner and the agent and finds the longest learner turn', () => {
+    const metrics = computeDeliveryMetrics([
+      spoken('a1', 'model', 'Erzähl mal.', 0, 3000),
+      spoken('u1', 'user', 'Also ich war gestern im Kino.', 4000, 7000),
+      spoken('a2', 'model', 'Und?', 8000, 9000),
+      spoken('u2', 'user', 'Der Film war gut.', 10000, 12000),
+    ], 'de');
+    expect(metrics.userTalkMs).toBe(5000);
+    expect(metrics.agentTalkMs).toBe(4000);
+    expect(metrics.talkRatio).toBeCloseTo(5 / 9);
+    expect(metrics.longestMonologue).toEqual({ messageId: 'u1', durationMs: 3000, words: 6 });
+  });
+});
@@ -0,0 +1,147 @@
+import { ChatMessage } from "../types";
+import { FILLER_WORDS, countFillers, totalFillers } from "../constants/fillerWords";
+import { countWords } from "./sessionReport";
+
+// How the learner spoke, from the timing of voice turns. Text-only turns have no timing and are left out.
+
+// Shorter turns give meaningless rates (and transports that only report finished utterances give 0 ms)
+const MIN_TIMED_TURN_MS = 800;
+// Longer gaps are the learner stepping away rather than hesitating
+const MAX_ANSWER_PAUSE_MS = 60000;
+
+export interface TurnDelivery {
+  messageId: string;
+  words: number;
+  durationMs: number | null;   // null when the turn was too short to time
+  wpm: number | null;
+  pauseBeforeMs: number | null; // Silence between the agent finishing and the learner starting
+  fillers: Record<string, Record<string, number>>; // language → filler → count
+  fillerCount: number;
+  interrupted: boolean;
+}
+
+export interface DeliveryMetrics {
+  turns: TurnDelivery[]; // Learner voice turns, oldest first
+  averageWpm: number | null;
+  averagePauseMs: number | null;
+  longestPauseMs: number | null;
+  fillers: Record<string, Record<string, number>>; // Session totals, language → filler → count
+  fillerCount: number;
+  fillersPer100Words: number;
+  userTalkMs: number;
+  agentTalkMs: number;
+  talkRatio: number | null; // Learner share of the talk time, 0-1
+  longestMonologue: { messageId: string; durationMs: number; words: number } | null;
+}
+
+const durationOf = (msg: ChatMessage): number | null => {
+  if (!msg.timing) return null;
+  const ms = msg.timing.endedAt.getTime() - msg.timing.startedAt.getTime();
+  return ms >= MIN_TIMED_TURN_MS ? ms : null;
+};
+
+// The practice language's list, or every list when the language is auto-detected
+const fillerLanguages = (language?: string) =>
+  language && FILLER_WORDS[language] ? [language] : Object.keys(FILLER_WORDS);
+
+const countFillersByLanguage = (text: string, languages: string[]) => {
+  const byLanguage: Record<string, Record<string, number>> = {};
+  languages.forEach(lang => {
+    const counts = countFillers(text, lang);
+    if (totalFillers(counts) > 0) byLanguage[lang] = counts;
+  });
+  return byLanguage;
+};
+
+const addFillers = (into: Record<string, Record<string, number>>, from: Record<string, Record<string, number>>) => {
+  Object.entries(from).forEach(([lang, counts]) => {
+    const target = (into[lang] ||= {});
+    Object.entries(counts).forEach(([filler, n]) => { target[filler] = (target[filler] || 0) + n; });
+  });
+};
+
+const sumFillers = (byLanguage: Record<string, Record<string, number>>) =>
+  Object.values(byLanguage).reduce((sum, counts) => sum + totalFillers(counts), 0);
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export const computeDeliveryMetrics = (history: ChatMessage[], language?: string): DeliveryMetrics => {
+  const languages = fillerLanguages(language);
+  const spoken = history.filter(m => m.role !== 'system' && m.timing);
+  const turns: TurnDelivery[] = [];
+  let userTalkMs = 0;
+  let agentTalkMs = 0;
+
+  spoken.forEach((msg, i) => {
+    const durationMs = durationOf(msg);
+    if (msg.role === 'model') {
+      agentTalkMs += durationMs || 0;
+      return;
+    }
+    userTalkMs += durationMs || 0;
+
+    const previous = spoken[i - 1];
+    const gap = previous?.role === 'model' ? msg.timing!.startedAt.getTime() - previous.timing!.endedAt.getTime() : null;
+    const words = countWords(msg.text);
+    const fillers = countFillersByLanguage(msg.text, languages);
+    turns.push({
+      messageId: msg.id,
+      words,
+      durationMs,
+      wpm: durationMs ? Math.round(words / (durationMs / 60000)) : null,
+      pauseBeforeMs: gap !== null && gap >= 0 && gap <= MAX_ANSWER_PAUSE_MS ? gap : null,
+      fillers,
+      fillerCount: sumFillers(fillers),
+      interrupted: msg.timing!.interrupted,
+    });
+  });
+
+  const fillers: Record<string, Record<string, number>> = {};
+  turns.forEach(t => addFillers(fillers, t.fillers));
+  const fillerCount = sumFillers(fillers);
+  const totalWords = turns.reduce((sum, t) => sum + t.words, 0);
+  const pauses = turns.map(t => t.pauseBeforeMs).filter((p): p is number => p !== null);
+  const averageWpm = average(turns.map(t => t.wpm).filter((w): w is number => w !== null));
+  const averagePauseMs = average(pauses);
+
+  const longest = turns.reduce<TurnDelivery | null>(
+    (best, t) => (t.durationMs && (!best || t.durationMs > best.durationMs!) ? t : best),
+    null,
+  );
+
+  return {
+    turns,
+    averageWpm: averageWpm === null ? null : Math.round(averageWpm),
+    averagePauseMs: averagePauseMs === null ? null : Math.round(averagePauseMs),
+    longestPauseMs: pauses.length ? Math.max(...pauses) : null,
+    fillers,
+    fillerCount,
+    fillersPer100Words: totalWords ? (fillerCount / totalWords) * 100 : 0,
+    userTalkMs,
+    agentTalkMs,
+    talkRatio: userTalkMs + agentTalkMs > 0 ? userTalkMs / (userTalkMs + agentTalkMs) : null,
+    longestMonologue: longest && { messageId: longest.messageId, durationMs: longest.durationMs!, words: longest.words },
+  };
+};
+
+export const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Plain-text summary lines, shared by the Markdown and WebVTT exports
+export const deliverySummaryLines = (metrics: DeliveryMetrics): string[] => {
+  const lines: string[] = [];
+  if (metrics.averageWpm !== null) lines.push(`Pace: ${metrics.averageWpm} words per minute`);
+  if (metrics.averagePauseMs !== null) {
+    lines.push(`Pause before answering: ${formatSeconds(metrics.averagePauseMs)} average, ${formatSeconds(metrics.longestPauseMs!)} longest`);
+  }
+  if (metrics.talkRatio !== null) {
+    lines.push(`Talk time: you ${formatSeconds(metrics.userTalkMs)}, agent ${formatSeconds(metrics.agentTalkMs)} (${Math.round(metrics.talkRatio * 100)}% yours)`);
+  }
+  if (metrics.longestMonologue) {
+    lines.push(`Longest monologue: ${formatSeconds(metrics.longestMonologue.durationMs)} (${metrics.longestMonologue.words} words)`);
+  }
+  const fillerList = Object.entries(metrics.fillers)
+    .map(([lang, counts]) => `${lang}: ${Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([f, n]) => `${f} ×${n}`).join(', ')}`)
+    .join('; ');
+  lines.push(`Filler words: ${metrics.fillerCount} (${metrics.fillersPer100Words.toFixed(1)} per 100 words)${fillerList ? ` — ${fillerList}` : ''}`);
+  return lines;
+};
@@ -0,0 +1,72 @@
+import { FocusSample, MindMapLink, MindMapNode, TangentJudgement } from "../types";
+import { ROOT_NODE_ID, buildParentMap, getTreeDistance } from "./graphUtils";
+
+// Above this the meter shows "Tangent Alert" and the coach offers a way back
+export const DRIFT_ALERT_THRESHOLD = 70;
+
+const STRUCTURAL_WEIGHT = 0.5;
+const NO_NEW_TOPIC_SCORE = 10; // Exchange didn't land on a new active node: assume it stayed put
+
+export interface StructuralScore {
+  score: number;
+  crossedBranches: boolean;
+}
+
+// Scores how far `toId` sits from the node the conversation was focused on.
+// Going one level deeper is on track; each extra level adds a little; hopping to a sibling
+// branch costs more; jumping to a branch that only meets the focus at the root costs most.
+export const scoreStructuralDrift = (fromId: string, toId: string, links: MindMapLink[]): StructuralScore => {
+  if (fromId === toId) return { score: 0, crossedBranches: false };
+
+  const parents = buildParentMap(links);
+  const { lca, upFromA, downToB } = getTreeDistance(fromId, toId, parents);
+
+  // Descending from the focus (or starting from the root)
+  if (lca === fromId) {
+    return { score: Math.min(100, Math.max(0, downToB - 1) * 15), crossedBranches: false };
+  }
+  // Stepping back up to an ancestor is a deliberate return, not a tangent
+  if (lca === toId) {
+    return { score: Math.min(40, upFromA * 10), crossedBranches: false };
+  }
+  // Unrelated branches: they only meet at the root
+  if (lca === ROOT_NODE_ID) {
+    return { score: Math.min(100, 75 + (upFromA + downToB - 2) * 5), crossedBranches: true };
+  }
+  // Cousins within the same branch
+  return { score: Math.min(100, 30 + (upFromA + downToB - 2) * 10), crossedBranches: false };
+};
+
+export const getFocusNodeId = (history: FocusSample[] | undefined): string => {
+  return history && history.length > 0 ? history[history.length - 1].nodeId : ROOT_NODE_ID;
+};
+
+// Blends the structural score with the model's judgement (when it returned one)
+export const buildFocusSample = (
+  fromId: string,
+  landedNode: MindMapNode | null,
+  links: MindMapLink[],
+  judgement: TangentJudgement | null,
+  timestamp: Date = new Date()
+): FocusSample => {
+  const structuralScore = landedNode
+    ? scoreStructuralDrift(fromId, landedNode.id, links).score
+    : NO_NEW_TOPIC_SCORE;
+  const modelScore = judgement ? Math.max(0, Math.min(100, Math.round(judgement.drift_score))) : null;
+
+  const score = modelScore === null
+    ? structuralScore
+    : Math.round(structuralScore * STRUCTURAL_WEIGHT + modelScore * (1 - STRUCTURAL_WEIGHT));
+
+  return {
+    score,
+    structuralScore,
+    modelScore,
+    nodeId: landedNode ? landedNode.id : fromId,
+    reason: judgement?.reason,
+    redirect: score > DRIFT_ALERT_THRESHOLD ? (judgement?.redirect_suggestion || null) : null,
+    timestamp,
+  };
+};
+
+export const getNodeLabel = (nodes: MindMapNode[], id: string) => nodes.find(n => n.id === id)?.label || id;
@@ -1,13 +1,15 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { BrainResponse, ChatMessage, ConversationMode, GraphUpdate } from "../types";
+import { BrainResponse, ChatMessage, ConversationMode, CorrectionJudgement, GraphUpdate, MindMapNode, ModelResult, NodeMergeJudgement, ReportJudgement, Scenario, TangentJudgement, TopicOpener } from "../types";
+import { JsonSchema, getProvider } from "./llmProvider";
+import { getLlmSettings } from "./settingsStore";
+import { generateValidated } from "./modelOutput";
+import { getPracticeLanguageName } from "../constants/languages";
 
-let aiClient: GoogleGenAI | null = null;
-
-const getAiClient = () => {
-  if (aiClient) return aiClient;
-  
-  aiClient = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  return aiClient;
+// The slice of session state that shapes reply prompts (DojoState satisfies it)
+export interface PromptContext {
+  mode: ConversationMode;
+  scenario?: Scenario | null;
+  practiceLanguage?: string;
+  sessionGoal?: string | null;
 }
 
 const SYSTEM_INSTRUCTION = `
@@ -23,83 +25,160 @@ If the input/output is German (or other), TRANSLATE IT.
 Output strictly valid JSON.
 `;
 
-const responseSchema = {
-  type: Type.OBJECT,
+// Used for streamed text-mode replies, where translation/guidance come from analyzeInteraction afterwards
+const REPLY_INSTRUCTION = `
+You are ContextDojo, a professional conversational skills coach, playing a roleplay conversation partner.
+Respond in the SAME language the User is speaking.
+Reply with the spoken response only: no JSON, no translations, no stage directions.
+`;
+
+const responseSchema: JsonSchema = {
+  type: 'object',
   properties: {
     reply_text: {
-      type: Type.STRING,
+      type: 'string',
       description: "The spoken response by the roleplay character (in User's language).",
     },
     english_user_translation: {
-      type: Type.STRING,
+      type: 'string',
       description: "STRICT ENGLISH TRANSLATION of the User's input.",
     },
     english_agent_translation: {
-      type: Type.STRING,
+      type: 'string',
       description: "STRICT ENGLISH TRANSLATION of the Agent's response.",
     },
     coach_guidance: {
-      type: Type.STRING,
+      type: 'string',
       description: "Brief meta-feedback on communication style (in English).",
       nullable: true,
     },
+    guidance_category: {
+      type: 'string',
+      enum: ['tone', 'clarity', 'grammar', 'engagement'],
+      description: "What the coach_guidance is about.",
+      nullable: true,
+    },
     key_concept: {
-      type: Type.STRING,
+      type: 'string',
       description: "Key topic/noun discussed (max 3 words, in English).",
       nullable: true,
     },
+    new_vocabulary: {
+      type: 'array',
+      description: "Useful words or phrases from the Agent's text worth learning.",
+      items: {
+        type: 'object',
+        properties: {
+          term: { type: 'string', description: "As written in the Agent's text (original language)." },
+          gloss: { type: 'string', description: "Short English meaning." },
+        },
+        required: ['term', 'gloss'],
+      },
+    },
   },
   required: ["english_user_translation", "english_agent_translation"],
 };
 
+const HISTORY_SPEAKERS: Record<ChatMessage['role'], string> = {
+  user: 'User',
+  model: 'Roleplay Persona',
+  system: 'Session Note',
+};
+
+const formatHistory = (history: ChatMessage[]) =>
+  history.map(h => `${HISTORY_SPEAKERS[h.role]}: ${h.text}`).join('\n');
+
+const buildModePrompt = (mode: ConversationMode) => mode === 'adaptive' 
+    ? "Determine the mode automatically based on context." 
+    : `CURRENT MODE: ${mode?.toUpperCase()}`;
+
+// Persona brief prepended to reply prompts when a scenario is active
+const buildScenarioPrompt = (mode: ConversationMode, scenario?: Scenario | null) => {
+  if (!scenario) return buildModePrompt(mode);
+  const list = (items: string[]) => items.map(i => `- ${i}`).join('\n');
+  return `
+ROLEPLAY SCENARIO: ${scenario.title} (difficulty: ${scenario.difficulty})
+${buildModePrompt(scenario.mode)}
+YOU PLAY: ${scenario.persona}
+SETTING: ${scenario.setting}
+THE LEARNER'S GOALS:
+${list(scenario.goals)}
+SUCCESS CRITERIA (use these when giving coach_guidance):
+${list(scenario.successCriteria)}
+Stay in character. Pitch vocabulary and pace to the difficulty level.
+`;
+};
+
+const buildContextPrompt = ({ mode, scenario, practiceLanguage, sessionGoal }: PromptContext) => {
+  const parts = [buildScenarioPrompt(mode, scenario)];
+  const language = getPracticeLanguageName(practiceLanguage);
+  if (language) {
+    parts.push(`PRACTICE LANGUAGE: ${language}. Always reply in ${language}, even if the user slips into another language.`);
+  }
+  if (sessionGoal) {
+    parts.push(`SESSION GOAL (set by the learner): ${sessionGoal}`);
+  }
+  return parts.join('\n');
+};
+
 export const generateDojoResponse = async (
   userText: string,
   history: ChatMessage[],
-  mode: ConversationMode
-): Promise<BrainResponse> => {
-  try {
-    const ai = getAiClient();
-    const context = history.map(h => `${h.role === 'user' ? 'User' : 'Roleplay Persona'}: ${h.text}`).join('\n');
-    
-    const modePrompt = mode === 'adaptive' 
-        ? "Determine the mode automatically based on context." 
-        : `CURRENT MODE: ${mode?.toUpperCase()}`;
+  session: PromptContext
+): Promise<ModelResult<BrainResponse>> => {
+  const context = formatHistory(history);
+  const modePrompt = buildContextPrompt(session);
 
-    const prompt = `
-    ${modePrompt}
-    
-    Conversation History:
-    ${context}
-    
-    User's Latest Input: "${userText}"
-    
-    Task:
-    1. Translate the User's input to English (english_user_translation).
-    2. Generate a response in the User's language (reply_text).
-    3. Translate your response to English (english_agent_translation).
-    4. Extract key concept and guidance.
-    `;
+  const prompt = `
+  ${modePrompt}
+  
+  Conversation History:
+  ${context}
+  
+  User's Latest Input: "${userText}"
+  
+  Task:
+  1. Translate the User's input to English (english_user_translation).
+  2. Generate a response in the User's language (reply_text).
+  3. Translate your response to English (english_agent_translation).
+  4. Extract key concept and guidance.
+  `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.7,
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("Empty response from Gemini");
-
-    return JSON.parse(text);
-
-  } catch (error) {
-    console.error("Gemini Interaction Failed:", error);
-    return getFallbackResponse(userText, "");
-  }
+  return generateValidated<BrainResponse>({
+    task: 'dojo_response',
+    prompt,
+    systemInstruction: SYSTEM_INSTRUCTION,
+    schema: responseSchema,
+    temperature: getLlmSettings().temperature,
+  }, () => getFallbackResponse(userText, ""));
+};
+
+// Streams the roleplay reply as plain text. Unlike the other calls this one throws,
+// so the caller can tell a user cancellation (AbortError) from a failed stream.
+export const streamDojoReply = async (
+  userText: string,
+  history: ChatMessage[],
+  session: PromptContext,
+  onChunk: (chunk: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const prompt = `
+  ${buildContextPrompt(session)}
+  
+  Conversation History:
+  ${formatHistory(history)}
+  
+  User's Latest Input: "${userText}"
+  
+  Continue the conversation with your next line.
+  `;
+
+  return getProvider(getLlmSettings()).streamText({
+    prompt,
+    systemInstruction: REPLY_INSTRUCTION,
+    temperature: getLlmSettings().temperature,
+    signal,
+  }, onChunk);
 };
 
 export const analyzeInteraction = async (
@@ -107,109 +186,336 @@ export const analyzeInteraction = async (
   agentText: string,
   history: ChatMessage[],
   mode: ConversationMode
-): Promise<BrainResponse> => {
-  try {
-     const ai = getAiClient();
-     
-     const prompt = `
-     The user and the roleplay agent have just exchanged the following:
-     User: "${userText}"
-     Agent: "${agentText}"
-     
-     Task:
-     1. Translate User's text to English (english_user_translation).
-     2. Translate Agent's text to English (english_agent_translation).
-     3. Provide 'coach_guidance' (IN ENGLISH).
-     4. Extract 'key_concept' (IN ENGLISH).
-     
-     NOTE: Leave 'reply_text' empty.
-     `;
- 
-     const response = await ai.models.generateContent({
-       model: "gemini-2.5-flash",
-       contents: prompt,
-       config: {
-         systemInstruction: SYSTEM_INSTRUCTION,
-         responseMimeType: "application/json",
-         responseSchema: responseSchema,
-         temperature: 0.1,
-       }
-     });
- 
-     const text = response.text;
-     if (!text) throw new Error("Empty response from Gemini");
- 
-     return JSON.parse(text);
- 
-   } catch (error) {
-     console.error("Gemini Analysis Failed:", error);
-     return getFallbackResponse(userText, agentText);
-   }
+): Promise<ModelResult<BrainResponse>> => {
+  const prompt = `
+  The user and the roleplay agent have just exchanged the following:
+  User: "${userText}"
+  Agent: "${agentText}"
+  
+  Task:
+  1. Translate User's text to English (english_user_translation).
+  2. Translate Agent's text to English (english_agent_translation).
+  3. Provide 'coach_guidance' (IN ENGLISH) on the User's turn.
+  4. Classify that guidance as 'guidance_category': tone, clarity, grammar or engagement.
+  5. Extract 'key_concept' (IN ENGLISH).
+  6. List up to 3 'new_vocabulary' items from the Agent's text that a learner would want to keep.
+     Skip everyday basics; leave the list empty if nothing stands out.
+  
+  NOTE: Leave 'reply_text' empty.
+  `;
+
+  // Analysis uses its own (low) temperature setting, separate from the chat temperature
+  return generateValidated<BrainResponse>({
+    task: 'analysis',
+    prompt,
+    systemInstruction: SYSTEM_INSTRUCTION,
+    schema: responseSchema,
+    temperature: getLlmSettings().analysisTemperature,
+  }, () => getFallbackResponse(userText, agentText));
 };
 
 // --- NEW SMART GRAPH SERVICE ---
 
+const graphUpdateSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        nodes: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    label: { type: 'string' },
+                    type: { type: 'string', enum: ['concept', 'entity', 'action', 'emotion'] },
+                    status: { type: 'string', enum: ['active', 'potential'] },
+                    parent: { type: 'string' },
+                    description: { type: 'string' }
+                },
+                required: ['label', 'type', 'status', 'parent', 'description']
+            }
+        }
+    },
+    required: ['nodes']
+};
+
 export const generateGraphUpdates = async (
     latestExchange: string,
     existingNodeLabels: string[]
-): Promise<GraphUpdate> => {
-    try {
-        const ai = getAiClient();
-        // Limit context to strictly the last few nodes to avoid token confusion and focus relevance
-        const recentNodes = existingNodeLabels.slice(-10).join(', ');
-
-        const prompt = `
-        You are a Conversation Mapper.
-        
-        CONTEXT (Recent Nodes): [${recentNodes}]
-        LATEST EXCHANGE: "${latestExchange}"
-        
-        TASK:
-        1. Identify the **Primary Topic** actually discussed in the exchange (Status: 'active').
-        2. Identify 2-3 **Potential Avenues** or tangent topics derived from this Primary Topic that would be interesting to explore next (Status: 'potential').
-        
-        RULES:
-        - Labels should be **short descriptive phrases** (2-6 words) to clearly summarizing the point (e.g. "Feeling nervous about interviews" instead of "Nerves").
-        - 'parent': Match strictly to one of the [Recent Nodes]. If no good match, use 'Context'.
-        - 'type': 'concept', 'entity', 'action', 'emotion'.
-        - 'description': A short, 1-sentence hint on what to discuss or why this topic is relevant.
-        
-        OUTPUT JSON ONLY.
-        `;
-        
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        nodes: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    label: { type: Type.STRING },
-                                    type: { type: Type.STRING, enum: ['concept', 'entity', 'action', 'emotion'] },
-                                    status: { type: Type.STRING, enum: ['active', 'potential'] },
-                                    parent: { type: Type.STRING },
-                                    description: { type: Type.STRING }
-                                },
-                                required: ['label', 'type', 'status', 'parent', 'description']
-                            }
+): Promise<ModelResult<GraphUpdate>> => {
+    // Limit context to strictly the last few nodes to avoid token confusion and focus relevance
+    const recentNodes = existingNodeLabels.slice(-10).join(', ');
+
+    const prompt = `
+    You are a Conversation Mapper.
+    
+    CONTEXT (Recent Nodes): [${recentNodes}]
+    LATEST EXCHANGE: "${latestExchange}"
+    
+    TASK:
+    1. Identify the **Primary Topic** actually discussed in the exchange (Status: 'active').
+    2. Identify 2-3 **Potential Avenues** or tangent topics derived from this Primary Topic that would be interesting to explore next (Status: 'potential').
+    
+    RULES:
+    - Labels should be **short descriptive phrases** (2-6 words) to clearly summarizing the point (e.g. "Feeling nervous about interviews" instead of "Nerves").
+    - 'parent': Match strictly to one of the [Recent Nodes]. If no good match, use 'Context'.
+    - 'type': 'concept', 'entity', 'action', 'emotion'.
+    - 'description': A short, 1-sentence hint on what to discuss or why this topic is relevant.
+    
+    OUTPUT JSON ONLY.
+    `;
+    
+    return generateValidated<GraphUpdate>({
+        task: 'graph_update',
+        prompt,
+        schema: graphUpdateSchema,
+        temperature: getLlmSettings().analysisTemperature,
+    }, () => ({ nodes: [] }));
+}
+
+// --- TANGENT JUDGEMENT ---
+
+const tangentSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        drift_score: { type: 'number', description: "0 = squarely on topic, 100 = completely unrelated." },
+        reason: { type: 'string', description: "One sentence explaining the score." },
+        redirect_suggestion: {
+            type: 'string',
+            nullable: true,
+            description: "If drift_score > 60: one natural sentence the learner could say to steer back (in the conversation's language). Otherwise null."
+        }
+    },
+    required: ['drift_score', 'reason']
+};
+
+export const judgeTangent = async (
+    latestExchange: string,
+    currentTopic: string,
+    sessionGoal?: string | null
+): Promise<ModelResult<TangentJudgement>> => {
+    const prompt = `
+    You are a Conversation Focus Judge.
+    
+    CURRENT TOPIC: "${currentTopic}"
+    ${sessionGoal ? `SESSION GOAL: "${sessionGoal}"` : ''}
+    LATEST EXCHANGE: "${latestExchange}"
+    
+    TASK: Rate how far the latest exchange drifts from the current topic${sessionGoal ? ' and the session goal' : ''}.
+    A natural follow-up or deeper detail is NOT drift. An abrupt jump to something unrelated is.
+    
+    OUTPUT JSON ONLY.
+    `;
+
+    return generateValidated<TangentJudgement>({
+        task: 'tangent_score',
+        prompt,
+        schema: tangentSchema,
+        temperature: getLlmSettings().analysisTemperature,
+    }, () => ({ drift_score: 0, reason: '', redirect_suggestion: null }));
+}
+
+// --- MAP TIDY-UP ---
+
+const nodeMergeSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        groups: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    keep_id: { type: 'string', description: "Id of the node that stays." },
+                    duplicate_ids: { type: 'array', items: { type: 'string' }, description: "Ids that mean the same thing." }
+                },
+                required: ['keep_id', 'duplicate_ids']
+            }
+        }
+    },
+    required: ['groups']
+};
+
+// Groups nodes that name the same topic in different words; `fallback` covers a failed call
+export const findDuplicateNodes = async (
+    nodes: MindMapNode[],
+    fallback: () => NodeMergeJudgement
+): Promise<ModelResult<NodeMergeJudgement>> => {
+    const list = nodes.map(n => `- id: "${n.id}" | label: "${n.label}"${n.description ? ` | ${n.description}` : ''}`).join('\n');
+
+    const prompt = `
+    These are topic nodes from a conversation mind map:
+    ${list}
+    
+    Find nodes that refer to the SAME topic in different words (e.g. "Job interview nerves" and
+    "Nervous about interviews"). Related-but-distinct topics are NOT duplicates.
+    For each group, keep the node with the clearest label as 'keep_id' and list the rest in 'duplicate_ids'.
+    Use ids exactly as given. Return an empty 'groups' list when there are no duplicates.
+    
+    OUTPUT JSON ONLY.
+    `;
+
+    return generateValidated<NodeMergeJudgement>({
+        task: 'node_merge',
+        prompt,
+        schema: nodeMergeSchema,
+        temperature: getLlmSettings().analysisTemperature,
+    }, fallback);
+}
+
+// --- STEERING (potential node picked from the map) ---
+
+const openerSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        opener: { type: 'string', description: "One short, natural line for the learner to say." }
+    },
+    required: ['opener']
+};
+
+export const generateTopicOpener = async (
+    node: MindMapNode,
+    history: ChatMessage[],
+    session: PromptContext
+): Promise<ModelResult<TopicOpener>> => {
+    const prompt = `
+    ${buildContextPrompt(session)}
+    
+    Conversation History:
+    ${formatHistory(history.slice(-6))}
+    
+    The learner chose to steer the conversation toward: "${node.label}"
+    ${node.description ? `Why it was suggested: ${node.description}` : ''}
+    
+    Write the 'opener': one line the LEARNER could say next to move the conversation there smoothly,
+    in the language the conversation is held in. Link it to what was just said when possible.
+    
+    OUTPUT JSON ONLY.
+    `;
+
+    return generateValidated<TopicOpener>({
+        task: 'topic_opener',
+        prompt,
+        schema: openerSchema,
+        temperature: getLlmSettings().temperature,
+    }, () => ({ opener: `Can we talk about ${node.label}?` }));
+}
+
+// --- PRACTICE-LANGUAGE CORRECTION ---
+
+const correctionSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        corrected_text: { type: 'string', description: "The whole turn as a fluent speaker would say it, in the learner's language." },
+        errors: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    original: { type: 'string', description: "Exact excerpt from the learner's turn." },
+                    corrected: { type: 'string', description: "Replacement for that excerpt." },
+                    category: { type: 'string', enum: ['grammar', 'word_choice', 'register'] },
+                    explanation: { type: 'string', description: "One short sentence, in English." }
+                },
+                required: ['original', 'corrected', 'category', 'explanation']
+            }
+        }
+    },
+    required: ['corrected_text', 'errors']
+};
+
+export const correctUserTurn = async (
+    userText: string,
+    session: PromptContext
+): Promise<ModelResult<CorrectionJudgement>> => {
+    const language = getPracticeLanguageName(session.practiceLanguage) || "the language the learner is speaking";
+
+    const prompt = `
+    You are a ${language} tutor reviewing one spoken turn from a learner.
+    ${session.scenario ? `Setting: ${session.scenario.setting}` : ''}
+    
+    Learner said: "${userText}"
+    
+    Task:
+    1. Write 'corrected_text': the same message in natural ${language}, keeping the learner's meaning and voice.
+    2. List each error in 'errors' with the exact 'original' excerpt, its 'corrected' form, a 'category'
+       (grammar, word_choice or register) and a short English 'explanation'.
+    3. Ignore punctuation and capitalisation slips typical of speech transcription.
+    If the turn is already correct, copy it into 'corrected_text' and return an empty 'errors' list.
+    
+    OUTPUT JSON ONLY.
+    `;
+
+    return generateValidated<CorrectionJudgement>({
+        task: 'correction',
+        prompt,
+        schema: correctionSchema,
+        temperature: getLlmSettings().analysisTemperature,
+    }, () => ({ corrected_text: userText, errors: [] }));
+}
+
+// --- END-OF-SESSION JUDGEMENT ---
+
+const reportSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        skills: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    skill: { type: 'string', enum: ['active_listening', 'politeness_register'] },
+                    score: { type: 'number', description: "0-100, higher is better." },
+                    summary: { type: 'string', description: "One sentence, in English." },
+                    evidence: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                message_index: { type: 'number', description: "The [n] index of the User message quoted." },
+                                quote: { type: 'string', description: "Exact excerpt (max 15 words) from that message." }
+                            },
+                            required: ['message_index', 'quote']
                         }
                     }
                 },
-                temperature: 0.3, 
+                required: ['skill', 'score', 'summary', 'evidence']
             }
-        });
-        
-        return JSON.parse(response.text || "{ \"nodes\": [] }");
-    } catch (e) {
-        console.warn("Graph Gen Failed", e);
-        return { nodes: [] };
-    }
+        },
+        strengths: { type: 'array', items: { type: 'string' } },
+        improvements: { type: 'array', items: { type: 'string' }, description: "Exactly three, most important first." }
+    },
+    required: ['skills', 'strengths', 'improvements']
+};
+
+export const judgeSession = async (
+    history: ChatMessage[],
+    session: PromptContext
+): Promise<ModelResult<ReportJudgement>> => {
+    const transcript = history
+        .map((h, i) => h.role === 'system' ? null : `[${i}] ${HISTORY_SPEAKERS[h.role]}: ${h.text}`)
+        .filter(Boolean)
+        .join('\n');
+
+    const prompt = `
+    You are ContextDojo's session reviewer. The practice session below has ended.
+    ${buildContextPrompt(session)}
+    
+    TRANSCRIPT (each line starts with its [message_index]):
+    ${transcript}
+    
+    TASK (all text in English):
+    1. Score 'active_listening' and 'politeness_register' for the USER only (0-100). Back each score with
+       1-2 quotes copied exactly from User messages, citing their message_index.
+    2. List 2-3 strengths.
+    3. List exactly three improvements, most important first, each actionable in the next session.
+    
+    OUTPUT JSON ONLY.
+    `;
+
+    return generateValidated<ReportJudgement>({
+        task: 'session_report',
+        prompt,
+        schema: reportSchema,
+        temperature: getLlmSettings().analysisTemperature,
+    }, () => ({ skills: [], strengths: [], improvements: [] }));
 }
 
 // Deprecated
@@ -223,6 +529,8 @@ function getFallbackResponse(userText: string, agentText: string): BrainResponse
         english_user_translation: userText,
         english_agent_translation: agentText,
         coach_guidance: null,
-        key_concept: null
+        guidance_category: null,
+        key_concept: null,
+        new_vocabulary: []
     };
 }
\ No newline at end of file
@@ -0,0 +1,244 @@
+import { DojoState, MindMapNode, NodeMergeJudgement } from "../types";
+import { ROOT_NODE_ID, buildParentMap, getAncestry, linkEndpointId, reparentNode } from "./graphUtils";
+
+// The part of the session an edit (and its undo) touches; messages are never rolled back
+export type GraphState = Pick<DojoState, 'mindMapNodes' | 'mindMapLinks' | 'focusHistory' | 'currentTopic'>;
+
+export type EditableNodeType = Exclude<MindMapNode['type'], 'root' | 'marker'>;
+
+export type GraphEdit =
+  | { kind: 'add'; parentId: string; label: string; nodeType: EditableNodeType; description?: string }
+  | { kind: 'rename'; nodeId: string; label: string }
+  | { kind: 'move'; nodeId: string; parentId: string }
+  | { kind: 'merge'; keepId: string; dropId: string }
+  | { kind: 'delete'; nodeId: string; withBranch: boolean };
+
+export const snapshotGraph = (state: DojoState): GraphState => ({
+  mindMapNodes: state.mindMapNodes,
+  mindMapLinks: state.mindMapLinks,
+  focusHistory: state.focusHistory,
+  currentTopic: state.currentTopic,
+});
+
+// Node ids start out as labels; suffix them when a rename has freed up a label that is reused later
+export const uniqueNodeId = (nodes: MindMapNode[], base: string): string => {
+  const taken = new Set(nodes.map(n => n.id));
+  if (!taken.has(base)) return base;
+  let i = 2;
+  while (taken.has(`${base} (${i})`)) i++;
+  return `${base} (${i})`;
+};
+
+const getDescendants = (nodeId: string, state: DojoState): Set<string> => {
+  const parents = buildParentMap(state.mindMapLinks);
+  const descendants = new Set<string>();
+  state.mindMapNodes.forEach(n => {
+    if (n.id !== nodeId && getAncestry(n.id, parents).includes(nodeId)) descendants.add(n.id);
+  });
+  return descendants;
+};
+
+// Focus samples that point at removed nodes move to `fallbackId` so the meter keeps a valid anchor
+const remapFocus = (state: DojoState, removed: Set<string>, fallbackId: string): DojoState['focusHistory'] =>
+  state.focusHistory?.map(f => removed.has(f.nodeId) ? { ...f, nodeId: fallbackId } : f);
+
+const addNode = (state: DojoState, edit: Extract<GraphEdit, { kind: 'add' }>, at: Date): DojoState => {
+  const label = edit.label.trim();
+  if (!label) return state;
+  const node: MindMapNode = {
+    id: uniqueNodeId(state.mindMapNodes, label),
+    label,
+    type: edit.nodeType,
+    status: 'active',
+    group: 2,
+    description: edit.description,
+    activatedAt: at,
+  };
+  return {
+    ...state,
+    mindMapNodes: [...state.mindMapNodes, node],
+    mindMapLinks: [...state.mindMapLinks, { source: edit.parentId, target: node.id }],
+  };
+};
+
+const renameNode = (state: DojoState, nodeId: string, rawLabel: string): DojoState => {
+  const label = rawLabel.trim();
+  const node = state.mindMapNodes.find(n => n.id === nodeId);
+  if (!node || !label || node.label === label) return state;
+  return {
+    ...state,
+    mindMapNodes: state.mindMapNodes.map(n => n.id === nodeId ? { ...n, label } : n),
+    currentTopic: state.currentTopic === node.label ? label : state.currentTopic,
+  };
+};
+
+const moveNode = (state: DojoState, nodeId: string, parentId: string): DojoState => {
+  const mindMapLinks = reparentNode(state.mindMapLinks, nodeId, parentId);
+  return mindMapLinks === state.mindMapLinks ? state : { ...state, mindMapLinks };
+};
+
+const earliest = (a?: Date, b?: Date) => a && b ? (a < b ? a : b) : a || b;
+
+// `dropId` folds into `keepId`: its children move over, its links are rewired, and the kept node
+// becomes active if either was. Both nodes' messages stay linked to the kept one.
+const mergeNodes = (state: DojoState, keepId: string, dropId: string): DojoState => {
+  const keep = state.mindMapNodes.find(n => n.id === keepId);
+  const drop = state.mindMapNodes.find(n => n.id === dropId);
+  if (!keep || !drop || keepId === dropId || dropId === ROOT_NODE_ID) return state;
+  // Folding an ancestor into its own descendant would orphan the branch in between
+  if (getDescendants(dropId, state).has(keepId)) return state;
+
+  const merged: MindMapNode = {
+    ...keep,
+    status: keep.status === 'active' || drop.status === 'active' ? 'active' : 'potential',
+    description: keep.description || drop.description,
+    activatedAt: earliest(keep.activatedAt, drop.activatedAt),
+    messageIds: keep.messageIds || drop.messageIds
+      ? Array.from(new Set([...(keep.messageIds || []), ...(drop.messageIds || [])]))
+      : undefined,
+  };
+
+  // Rewire the dropped node's links onto the kept one. The kept node holds on to its own parent.
+  const keepParent = buildParentMap(state.mindMapLinks).get(keepId);
+  const seen = new Set<string>();
+  const mindMapLinks = state.mindMapLinks
+    .map(l => ({
+      source: linkEndpointId(l.source) === dropId ? keepId : linkEndpointId(l.source),
+      target: linkEndpointId(l.target) === dropId ? keepId : linkEndpointId(l.target),
+    }))
+    .filter(l => {
+      const key = `${l.source}->${l.target}`;
+      if (l.source === l.target || seen.has(key)) return false;
+      if (l.target === keepId && keepParent && l.source !== keepParent) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    ...state,
+    mindMapNodes: state.mindMapNodes.filter(n => n.id !== dropId).map(n => n.id === keepId ? merged : n),
+    mindMapLinks,
+    focusHistory: remapFocus(state, new Set([dropId]), keepId),
+    currentTopic: state.currentTopic === drop.label ? keep.label : state.currentTopic,
+  };
+};
+
+// Deleting a single node hands its children to its parent; deleting a branch removes the whole subtree
+const deleteNode = (state: DojoState, nodeId: string, withBranch: boolean): DojoState => {
+  if (nodeId === ROOT_NODE_ID || !state.mindMapNodes.some(n => n.id === nodeId)) return state;
+  const parentId = buildParentMap(state.mindMapLinks).get(nodeId) || ROOT_NODE_ID;
+  const removed = withBranch ? new Set([nodeId, ...getDescendants(nodeId, state)]) : new Set([nodeId]);
+
+  const mindMapLinks = state.mindMapLinks
+    .map(l => (!withBranch && linkEndpointId(l.source) === nodeId)
+      ? { source: parentId, target: linkEndpointId(l.target) }
+      : { source: linkEndpointId(l.source), target: linkEndpointId(l.target) })
+    .filter(l => !removed.has(l.source) && !removed.has(l.target));
+
+  const removedLabels = state.mindMapNodes.filter(n => removed.has(n.id)).map(n => n.label);
+  const parentLabel = state.mindMapNodes.find(n => n.id === parentId)?.label || state.currentTopic;
+
+  return {
+    ...state,
+    mindMapNodes: state.mindMapNodes.filter(n => !removed.has(n.id)),
+    mindMapLinks,
+    focusHistory: remapFocus(state, removed, parentId),
+    currentTopic: removedLabels.includes(state.currentTopic) ? parentLabel : state.currentTopic,
+  };
+};
+
+// Returns the same state object when the edit is a no-op, so callers can skip recording an undo step.
+// `at` stamps nodes the edit creates.
+export const applyGraphEdit = (state: DojoState, edit: GraphEdit, at: Date = new Date()): DojoState => {
+  switch (edit.kind) {
+    case 'add': return addNode(state, edit, at);
+    case 'rename': return renameNode(state, edit.nodeId, edit.label);
+    case 'move': return moveNode(state, edit.nodeId, edit.parentId);
+    case 'merge': return mergeNodes(state, edit.keepId, edit.dropId);
+    case 'delete': return deleteNode(state, edit.nodeId, edit.withBranch);
+  }
+};
+
+// --- SIMILARITY ---
+
+// Lexical stand-in for semantic similarity, used by the merge pass when the model can't be asked. Crude stemming lets "Job interview nerves" meet "Nervous about interviews".
+export const SIMILARITY_THRESHOLD = 0.5;
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'of', 'about', 'for', 'to', 'in', 'on', 'and', 'or', 'with', 'my', 'your', 'at', 'is']);
+
+const stem = (word: string) => word
+  .replace(/(ousness|ness|ous|ing|ed|es|s|ly)$/, '')
+  .replace(/e$/, '');
+
+const labelStems = (label: string): Set<string> => new Set(
+  label.toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(w => w && !STOPWORDS.has(w))
+    .map(stem)
+    .filter(Boolean)
+);
+
+export const labelSimilarity = (a: string, b: string): number => {
+  const sa = labelStems(a);
+  const sb = labelStems(b);
+  if (sa.size === 0 || sb.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  let shared = 0;
+  sa.forEach(s => { if (sb.has(s)) shared++; });
+  return shared / (sa.size + sb.size - shared);
+};
+
+const isMergeable = (n: MindMapNode) => n.type !== 'root' && n.type !== 'marker';
+
+// The node an incoming label refers to: same id or same label, ignoring case. Near-duplicates are
+// left to the merge pass, which can be undone.
+export const findMatchingNode = (nodes: MindMapNode[], label: string): MindMapNode | undefined => {
+  const wanted = label.trim().toLowerCase();
+  return nodes.find(n => n.id.toLowerCase() === wanted || n.label.trim().toLowerCase() === wanted);
+};
+
+export interface MergePair {
+  keepId: string;
+  dropId: string;
+}
+
+// Pairs of near-duplicate nodes. The older (earlier in the list) node is kept.
+export const findMergeCandidates = (nodes: MindMapNode[]): MergePair[] => {
+  const candidates = nodes.filter(isMergeable);
+  const dropped = new Set<string>();
+  const pairs: MergePair[] = [];
+  candidates.forEach((keep, i) => {
+    if (dropped.has(keep.id)) return;
+    candidates.slice(i + 1).forEach(other => {
+      if (dropped.has(other.id)) return;
+      if (labelSimilarity(keep.label, other.label) >= SIMILARITY_THRESHOLD) {
+        pairs.push({ keepId: keep.id, dropId: other.id });
+        dropped.add(other.id);
+      }
+    });
+  });
+  return pairs;
+};
+
+export const mergePairs = (state: DojoState, pairs: MergePair[]): DojoState =>
+  pairs.reduce((s, p) => mergeNodes(s, p.keepId, p.dropId), state);
+
+// Model groups -> merge pairs, dropping ids the model made up and anything it tried to merge twice
+export const pairsFromGroups = (groups: NodeMergeJudgement['groups'], nodes: MindMapNode[]): MergePair[] => {
+  const ids = new Set(nodes.filter(isMergeable).map(n => n.id));
+  const used = new Set<string>();
+  const pairs: MergePair[] = [];
+  groups.forEach(g => {
+    if (!ids.has(g.keep_id) || used.has(g.keep_id)) return;
+    g.duplicate_ids.forEach(dropId => {
+      if (!ids.has(dropId) || used.has(dropId) || dropId === g.keep_id) return;
+      pairs.push({ keepId: g.keep_id, dropId });
+      used.add(dropId);
+    });
+    used.add(g.keep_id);
+  });
+  return pairs;
+};
+
+export const groupsFromPairs = (pairs: MergePair[]): NodeMergeJudgement['groups'] =>
+  pairs.map(p => ({ keep_id: p.keepId, duplicate_ids: [p.dropId] }));
+
@@ -0,0 +1,71 @@
+import { MindMapLink, MindMapNode } from "../types";
+
+export const ROOT_NODE_ID = 'Context';
+
+// D3 replaces link endpoints with node objects once a simulation has run over them
+export const linkEndpointId = (end: any): string => typeof end === 'object' && end !== null ? end.id : end;
+
+// child id -> parent id (first incoming link wins, matching how the tree is drawn)
+export const buildParentMap = (links: MindMapLink[]): Map<string, string> => {
+  const parents = new Map<string, string>();
+  links.forEach(l => {
+    const target = linkEndpointId(l.target);
+    if (!parents.has(target)) parents.set(target, linkEndpointId(l.source));
+  });
+  return parents;
+};
+
+// parent id -> child ids in node order. Nodes no link reaches hang off the root so nothing is lost.
+export const buildChildrenMap = (nodes: MindMapNode[], links: MindMapLink[]): Map<string, string[]> => {
+  const parents = buildParentMap(links);
+  const ids = new Set(nodes.map(n => n.id));
+  const children = new Map<string, string[]>();
+  nodes.forEach(n => {
+    if (n.id === ROOT_NODE_ID) return;
+    const parent = parents.get(n.id);
+    const key = parent && ids.has(parent) ? parent : ROOT_NODE_ID;
+    children.set(key, [...(children.get(key) || []), n.id]);
+  });
+  return children;
+};
+
+// Ordered [node, parent, ..., root]. Guards against cycles.
+export const getAncestry = (nodeId: string, parents: Map<string, string>): string[] => {
+  const path = [nodeId];
+  const seen = new Set(path);
+  let current = parents.get(nodeId);
+  while (current && !seen.has(current)) {
+    path.push(current);
+    seen.add(current);
+    current = parents.get(current);
+  }
+  return path;
+};
+
+export const getDepth = (nodeId: string, parents: Map<string, string>) => getAncestry(nodeId, parents).length - 1;
+
+// Tree distance between two nodes plus their lowest common ancestor
+export const getTreeDistance = (a: string, b: string, parents: Map<string, string>) => {
+  const ancestryA = getAncestry(a, parents);
+  const ancestryB = getAncestry(b, parents);
+  const indexInA = new Map(ancestryA.map((id, i) => [id, i]));
+
+  for (let j = 0; j < ancestryB.length; j++) {
+    const i = indexInA.get(ancestryB[j]);
+    if (i !== undefined) {
+      return { distance: i + j, lca: ancestryB[j], upFromA: i, downToB: j };
+    }
+  }
+  // Disconnected: treat as meeting at the root
+  return { distance: ancestryA.length + ancestryB.length, lca: ROOT_NODE_ID, upFromA: ancestryA.length, downToB: ancestryB.length };
+};
+
+// Moves `nodeId` (with its subtree) under `parentId`. Returns the links unchanged when the move would create a cycle.
+export const reparentNode = (links: MindMapLink[], nodeId: string, parentId: string): MindMapLink[] => {
+  if (nodeId === parentId || nodeId === ROOT_NODE_ID) return links;
+  if (getAncestry(parentId, buildParentMap(links)).includes(nodeId)) return links;
+  return [
+    ...links.filter(l => linkEndpointId(l.target) !== nodeId),
+    { source: parentId, target: nodeId },
+  ];
+};
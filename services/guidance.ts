@@ -0,0 +1,30 @@
+import { BrainResponse, ChatMessage, Guidance, GuidanceCategory } from "../types";
+
+export const GUIDANCE_CATEGORIES: GuidanceCategory[] = ['tone', 'clarity', 'grammar', 'engagement'];
+
+export interface GuidanceEntry {
+  guidance: Guidance;
+  message: ChatMessage;
+  messageIndex: number;
+}
+
+// Turns the analysis output into a note for the user's message. Uncategorised guidance counts as clarity.
+export const toGuidance = (brain: BrainResponse): Guidance | undefined => {
+  const text = brain.coach_guidance?.trim();
+  if (!text) return undefined;
+  const category = brain.guidance_category && GUIDANCE_CATEGORIES.includes(brain.guidance_category)
+    ? brain.guidance_category
+    : 'clarity';
+  return { text, category, timestamp: new Date() };
+};
+
+// Every piece of guidance in the session, oldest first, optionally narrowed to some categories
+export const collectGuidance = (history: ChatMessage[], categories?: GuidanceCategory[]): GuidanceEntry[] => {
+  const entries: GuidanceEntry[] = [];
+  history.forEach((message, messageIndex) => {
+    if (!message.guidance) return;
+    if (categories && !categories.includes(message.guidance.category)) return;
+    entries.push({ guidance: message.guidance, message, messageIndex });
+  });
+  return entries;
+};
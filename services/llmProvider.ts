@@ -0,0 +1,85 @@
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAiProvider } from "./providers/openAiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// The structured operations the app asks a model for
+export type LlmTask = 'dojo_response' | 'analysis' | 'graph_update' | 'tangent_score' | 'session_report' | 'correction' | 'topic_opener' | 'node_merge' | 'connection_test';
+
+// Provider-neutral subset of JSON Schema; each adapter maps it to its own dialect
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  systemInstruction?: string;
+  schema: JsonSchema;
+  temperature: number;
+}
+
+export interface LlmStreamRequest {
+  prompt: string;
+  systemInstruction?: string;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  // Resolves with the raw JSON text produced by the model
+  generateJson(request: LlmRequest): Promise<string>;
+  // Streams free text, calling onChunk per delta. Resolves with the full text; rejects with an AbortError when cancelled.
+  streamText(request: LlmStreamRequest, onChunk: (chunk: string) => void): Promise<string>;
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof Error && err.name === 'AbortError';
+
+export const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// What getProvider needs; derived from the app settings (services/settingsStore.ts)
+export interface LlmSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;         // Conversation replies and openers
+  analysisTemperature: number; // Analysis, corrections, tangent scoring and merges
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  apiKey: string;  // Key for the selected provider
+}
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-fixture',
+};
+
+let cachedProvider: { key: string; provider: LlmProvider } | null = null;
+
+export const getProvider = (settings: LlmSettings): LlmProvider => {
+  const key = `${settings.provider}|${settings.model}|${settings.baseUrl}|${settings.apiKey}`;
+  if (cachedProvider && cachedProvider.key === key) return cachedProvider.provider;
+
+  let provider: LlmProvider;
+  switch (settings.provider) {
+    case 'openai':
+      provider = createOpenAiProvider({ model: settings.model, baseUrl: settings.baseUrl, apiKey: settings.apiKey });
+      break;
+    case 'mock':
+      provider = createMockProvider();
+      break;
+    case 'gemini':
+    default:
+      provider = createGeminiProvider({ model: settings.model, apiKey: settings.apiKey });
+  }
+  cachedProvider = { key, provider };
+  return provider;
+};
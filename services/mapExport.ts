@@ -0,0 +1,226 @@
+import { MindMapLink, MindMapNode } from "../types";
+import { ROOT_NODE_ID, buildChildrenMap, linkEndpointId } from "./graphUtils";
+import { MAP_BACKGROUND, NODE_COLORS } from "../constants/mapStyles";
+
+export type MapExportFormat = 'svg' | 'png' | 'mermaid' | 'graphml' | 'opml';
+
+export const MAP_FORMAT_META: Record<MapExportFormat, { ext: string; mime: string }> = {
+  svg: { ext: 'svg', mime: 'image/svg+xml' },
+  png: { ext: 'png', mime: 'image/png' },
+  mermaid: { ext: 'mmd', mime: 'text/plain' },
+  graphml: { ext: 'graphml', mime: 'application/xml' },
+  opml: { ext: 'opml', mime: 'text/x-opml' },
+};
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// --- MERMAID ---
+
+// Mermaid ids must be plain identifiers, and labels can't contain raw quotes
+const mermaidLabel = (text: string) => text.replace(/"/g, '#quot;').replace(/\n/g, ' ');
+
+export const exportMapMermaid = (nodes: MindMapNode[], links: MindMapLink[]): string => {
+  const ids = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = ['flowchart TD'];
+
+  nodes.forEach(n => {
+    const id = ids.get(n.id)!;
+    // Potential topics get the rounded "stadium" shape; the root a circle
+    const label = `"${mermaidLabel(n.label)}"`;
+    const shape = n.type === 'root' ? `((${label}))` : n.status === 'potential' ? `([${label}])` : `[${label}]`;
+    lines.push(`  ${id}${shape}`);
+    if (n.description) lines.push(`  %% ${id}: ${n.description.replace(/\n/g, ' ')}`);
+  });
+
+  links.forEach(l => {
+    const source = ids.get(linkEndpointId(l.source));
+    const target = ids.get(linkEndpointId(l.target));
+    if (!source || !target) return;
+    const potential = nodes.find(n => n.id === linkEndpointId(l.target))?.status === 'potential';
+    lines.push(`  ${source} ${potential ? '-.->' : '-->'} ${target}`);
+  });
+
+  // One class per type, plus a dashed outline for potential topics
+  (Object.keys(NODE_COLORS) as (keyof typeof NODE_COLORS)[])
+    .filter(type => type !== 'default')
+    .forEach(type => lines.push(`  classDef ${type} fill:${MAP_BACKGROUND},stroke:${NODE_COLORS[type]},color:#f1f5f9`));
+  lines.push('  classDef potential stroke-dasharray: 4 2');
+  nodes.forEach(n => {
+    lines.push(`  class ${ids.get(n.id)} ${n.type}`);
+    if (n.status === 'potential') lines.push(`  class ${ids.get(n.id)} potential`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// --- GRAPHML ---
+
+// GraphML ids must be XML name tokens, which titles and label-based node ids often aren't, so the
+// graph and its nodes get generated ids; the title and the app's node ids go into <desc> and data.
+export const exportMapGraphMl = (nodes: MindMapNode[], links: MindMapLink[], title: string): string => {
+  const xmlIds = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="nodeId" for="node" attr.name="id" attr.type="string"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="status" for="node" attr.name="status" attr.type="string"/>',
+    '  <key id="description" for="node" attr.name="description" attr.type="string"/>',
+    '  <graph id="G" edgedefault="directed">',
+    `    <desc>${escapeXml(title)}</desc>`,
+  ];
+
+  nodes.forEach(n => {
+    lines.push(`    <node id="${xmlIds.get(n.id)}">`);
+    lines.push(`      <data key="nodeId">${escapeXml(n.id)}</data>`);
+    lines.push(`      <data key="label">${escapeXml(n.label)}</data>`);
+    lines.push(`      <data key="type">${n.type}</data>`);
+    lines.push(`      <data key="status">${n.status}</data>`);
+    if (n.description) lines.push(`      <data key="description">${escapeXml(n.description)}</data>`);
+    lines.push('    </node>');
+  });
+
+  links.forEach((l, i) => {
+    const source = xmlIds.get(linkEndpointId(l.source));
+    const target = xmlIds.get(linkEndpointId(l.target));
+    if (source && target) lines.push(`    <edge id="e${i}" source="${source}" target="${target}"/>`);
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+};
+
+// --- OPML ---
+
+export const exportMapOpml = (nodes: MindMapNode[], links: MindMapLink[], title: string): string => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const children = buildChildrenMap(nodes, links);
+  const visited = new Set<string>();
+
+  const outline = (id: string, depth: number): string[] => {
+    const node = byId.get(id);
+    if (!node || visited.has(id)) return [];
+    visited.add(id);
+    const indent = '  '.repeat(depth + 2);
+    const attrs = [
+      `text="${escapeXml(node.label)}"`,
+      `_type="${node.type}"`,
+      `_status="${node.status}"`,
+      node.description ? `_note="${escapeXml(node.description)}"` : '',
+    ].filter(Boolean).join(' ');
+    const kids = (children.get(id) || []).flatMap(child => outline(child, depth + 1));
+    return kids.length
+      ? [`${indent}<outline ${attrs}>`, ...kids, `${indent}</outline>`]
+      : [`${indent}<outline ${attrs}/>`];
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(title)}</title></head>`,
+    '  <body>',
+    ...outline(ROOT_NODE_ID, 0),
+    '  </body>',
+    '</opml>',
+  ].join('\n') + '\n';
+};
+
+// --- SVG / PNG ---
+
+export interface LegendItem {
+  label: string;
+  color: string;
+  dashed?: boolean;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const EXPORT_PADDING = 24;
+const LEGEND_ROW = 18;
+
+// Copies the live map into a self-contained SVG: fixed size, dark background, legend in the corner
+export const buildStandaloneSvg = (source: SVGSVGElement, legend: LegendItem[], title: string): { svg: string; width: number; height: number } => {
+  const content = source.querySelector('g');
+  const box = content ? (content as SVGGElement).getBBox() : { x: 0, y: 0, width: 400, height: 300 };
+  const legendWidth = 160;
+  const legendHeight = legend.length * LEGEND_ROW + 36;
+
+  const width = Math.ceil(box.width + EXPORT_PADDING * 3 + legendWidth);
+  const height = Math.ceil(Math.max(box.height, legendHeight) + EXPORT_PADDING * 2);
+
+  const clone = source.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  clone.setAttribute('font-family', 'system-ui, -apple-system, Segoe UI, sans-serif');
+  clone.removeAttribute('class');
+
+  const doc = clone.ownerDocument;
+  const make = (tag: string, attrs: Record<string, string | number>) => {
+    const el = doc.createElementNS(SVG_NS, tag);
+    Object.entries(attrs).forEach(([k, v]) => el.setAttribute(k, String(v)));
+    return el;
+  };
+
+  // Shift the drawing so its bounding box starts at the padding
+  const drawing = clone.querySelector('g');
+  drawing?.setAttribute('transform', `translate(${EXPORT_PADDING - box.x},${EXPORT_PADDING - box.y})`);
+  clone.insertBefore(make('rect', { x: 0, y: 0, width, height, fill: MAP_BACKGROUND }), clone.firstChild);
+
+  const titleEl = make('title', {});
+  titleEl.textContent = title;
+  clone.insertBefore(titleEl, clone.firstChild);
+
+  const legendGroup = make('g', { transform: `translate(${width - legendWidth - EXPORT_PADDING},${EXPORT_PADDING})` });
+  legendGroup.appendChild(make('rect', { width: legendWidth, height: legendHeight, rx: 8, fill: '#1e293b', stroke: '#334155' }));
+  const heading = make('text', { x: 12, y: 20, fill: '#e2e8f0', 'font-size': 11, 'font-weight': 600 });
+  heading.textContent = title;
+  legendGroup.appendChild(heading);
+  legend.forEach((item, i) => {
+    const y = 36 + i * LEGEND_ROW;
+    legendGroup.appendChild(make('rect', {
+      x: 12, y: y - 6, width: 18, height: 10, rx: 5,
+      fill: 'none', stroke: item.color, 'stroke-width': 1.5,
+      ...(item.dashed ? { 'stroke-dasharray': '3 2' } : {}),
+    }));
+    const text = make('text', { x: 38, y: y + 3, fill: '#cbd5e1', 'font-size': 10 });
+    text.textContent = item.label;
+    legendGroup.appendChild(text);
+  });
+  clone.appendChild(legendGroup);
+
+  return { svg: new XMLSerializer().serializeToString(clone), width, height };
+};
+
+// Rasterises an SVG string at `scale`x for crisp text
+export const svgToPngBlob = (svg: string, width: number, height: number, scale = 2): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the map image'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,195 @@
+import * as d3 from 'd3';
+import { MindMapLink, MindMapNode } from "../types";
+import { ROOT_NODE_ID, buildChildrenMap, buildParentMap } from "./graphUtils";
+
+export type MapLayout = 'force' | 'radial' | 'tree' | 'timeline' | 'cluster';
+
+export const MAP_LAYOUTS: MapLayout[] = ['force', 'radial', 'tree', 'timeline', 'cluster'];
+
+// Force layouts settle in a simulation; the others are computed up front and animated into place
+export const isForceLayout = (layout: MapLayout) => layout === 'force' || layout === 'cluster';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutCaption extends Point {
+  text: string;
+}
+
+export interface StaticLayout {
+  positions: Map<string, Point>;
+  captions: LayoutCaption[];
+  axis?: { x1: number; x2: number; y: number };
+}
+
+// Pill size used by both the renderer and the layouts, so spacing matches what is drawn
+export const NODE_HEIGHT = 36;
+export const nodeWidth = (label: string) => Math.max(100, label.length * 7 + 24);
+
+const TIER_SPACING = 110;
+const SIBLING_GAP = 16;
+const RING_SPACING = 150;
+const RADIAL_ARC = 110;
+
+// --- HIERARCHY ---
+
+interface TreeDatum {
+  node: MindMapNode;
+  children: TreeDatum[];
+}
+
+// Nested tree for d3.hierarchy. Children keep node order so a new node doesn't reshuffle its siblings.
+const buildTree = (nodes: MindMapNode[], links: MindMapLink[]): d3.HierarchyNode<TreeDatum> | null => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const children = buildChildrenMap(nodes, links);
+  const visited = new Set<string>();
+
+  const build = (id: string): TreeDatum | null => {
+    const node = byId.get(id);
+    if (!node || visited.has(id)) return null;
+    visited.add(id);
+    return { node, children: (children.get(id) || []).map(build).filter((c): c is TreeDatum => c !== null) };
+  };
+
+  const root = build(ROOT_NODE_ID);
+  if (!root) return null;
+  // Anything caught in a cycle away from the root still gets drawn
+  nodes.forEach(n => {
+    const stray = build(n.id);
+    if (stray) root.children.push(stray);
+  });
+  return d3.hierarchy(root, d => d.children);
+};
+
+const positionsOf = (root: d3.HierarchyNode<TreeDatum>, project: (d: d3.HierarchyPointNode<TreeDatum>) => Point) => {
+  const positions = new Map<string, Point>();
+  (root as d3.HierarchyPointNode<TreeDatum>).each(d => positions.set(d.data.node.id, project(d)));
+  return positions;
+};
+
+// --- TIDY TREE ---
+
+// Reingold–Tilford via d3.tree. The x unit is one pixel, so separation is the gap between pill centres.
+export const tidyTreeLayout = (nodes: MindMapNode[], links: MindMapLink[]): StaticLayout => {
+  const root = buildTree(nodes, links);
+  if (!root) return { positions: new Map(), captions: [] };
+  d3.tree<TreeDatum>()
+    .nodeSize([1, TIER_SPACING])
+    .separation((a, b) => (nodeWidth(a.data.node.label) + nodeWidth(b.data.node.label)) / 2
+      + (a.parent === b.parent ? SIBLING_GAP : SIBLING_GAP * 3))(root);
+  return { positions: positionsOf(root, d => ({ x: d.x, y: d.y })), captions: [] };
+};
+
+// --- RADIAL ---
+
+// The same tree wrapped around the root. The radius grows with the leaf count so the outer ring has room.
+export const radialLayout = (nodes: MindMapNode[], links: MindMapLink[]): StaticLayout => {
+  const root = buildTree(nodes, links);
+  if (!root) return { positions: new Map(), captions: [] };
+  const depth = Math.max(1, root.height);
+  const radius = Math.max(depth * RING_SPACING, (root.leaves().length * RADIAL_ARC) / (2 * Math.PI));
+  d3.tree<TreeDatum>()
+    .size([2 * Math.PI, radius])
+    .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(root);
+  return {
+    positions: positionsOf(root, d => ({ x: d.y * Math.sin(d.x), y: -d.y * Math.cos(d.x) })),
+    captions: [],
+  };
+};
+
+// --- TIMELINE ---
+
+const TIMELINE_STEP = 70;
+const TIMELINE_ROW = 30;
+const POTENTIAL_LANE_OFFSET = 110;
+const POTENTIAL_LANE = 46;
+
+// Active nodes left to right in the order they became active, alternating above and below the axis so
+// neighbours can overlap horizontally. Potential nodes queue in lanes under the node they branch from.
+export const timelineLayout = (nodes: MindMapNode[], links: MindMapLink[]): StaticLayout => {
+  const positions = new Map<string, Point>();
+  const captions: LayoutCaption[] = [];
+
+  // Nodes from before activation times were recorded inherit the previous node's time, keeping list order
+  let lastTime = 0;
+  const timed = nodes
+    .filter(n => n.id !== ROOT_NODE_ID && n.status === 'active')
+    .map((node, index) => {
+      lastTime = node.activatedAt ? node.activatedAt.getTime() : lastTime;
+      return { node, time: lastTime, index };
+    })
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+
+  const root = nodes.find(n => n.id === ROOT_NODE_ID);
+  const sequence = root ? [{ node: root, time: 0, index: -1 }, ...timed] : timed;
+
+  let lastMinute = '';
+  sequence.forEach((entry, i) => {
+    const width = nodeWidth(entry.node.label);
+    const prev = sequence[i - 1];
+    // The root sits on the axis, so it shares a row with both of its neighbours
+    const sameRow = i === 1 ? prev : sequence[i - 2];
+    let x = prev ? positions.get(prev.node.id)!.x + TIMELINE_STEP : 0;
+    if (sameRow) {
+      x = Math.max(x, positions.get(sameRow.node.id)!.x + (nodeWidth(sameRow.node.label) + width) / 2 + SIBLING_GAP);
+    }
+    const y = i === 0 ? 0 : (i % 2 === 1 ? -TIMELINE_ROW : TIMELINE_ROW);
+    positions.set(entry.node.id, { x, y });
+
+    // One time caption per minute, under the axis
+    if (entry.node.activatedAt) {
+      const minute = entry.node.activatedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      if (minute !== lastMinute) {
+        captions.push({ x, y: TIMELINE_ROW + NODE_HEIGHT, text: minute });
+        lastMinute = minute;
+      }
+    }
+  });
+
+  const parents = buildParentMap(links);
+  const lanes: { x: number; width: number }[][] = [];
+  nodes.filter(n => !positions.has(n.id)).forEach(node => {
+    const width = nodeWidth(node.label);
+    const anchor = positions.get(parents.get(node.id) || ROOT_NODE_ID) || { x: 0, y: 0 };
+    let lane = lanes.findIndex(placed => placed.every(p => Math.abs(p.x - anchor.x) >= (p.width + width) / 2 + SIBLING_GAP));
+    if (lane === -1) {
+      lanes.push([]);
+      lane = lanes.length - 1;
+    }
+    lanes[lane].push({ x: anchor.x, width });
+    positions.set(node.id, { x: anchor.x, y: POTENTIAL_LANE_OFFSET + lane * POTENTIAL_LANE });
+  });
+
+  const xs = sequence.map(e => positions.get(e.node.id)!.x);
+  return {
+    positions,
+    captions,
+    axis: { x1: Math.min(0, ...xs) - 40, x2: Math.max(0, ...xs) + 40, y: 0 },
+  };
+};
+
+export const computeStaticLayout = (layout: MapLayout, nodes: MindMapNode[], links: MindMapLink[]): StaticLayout => {
+  switch (layout) {
+    case 'radial': return radialLayout(nodes, links);
+    case 'timeline': return timelineLayout(nodes, links);
+    default: return tidyTreeLayout(nodes, links);
+  }
+};
+
+// --- CLUSTERS ---
+
+const CLUSTER_TYPES: MindMapNode['type'][] = ['concept', 'entity', 'action', 'emotion', 'marker'];
+
+// Cluster centres on a ring around the root, one per node type present
+export const clusterCenters = (nodes: MindMapNode[], width: number, height: number): Map<MindMapNode['type'], Point> => {
+  const present = CLUSTER_TYPES.filter(t => nodes.some(n => n.type === t));
+  const radius = Math.min(width, height) * 0.32;
+  const centers = new Map<MindMapNode['type'], Point>([['root', { x: width / 2, y: height / 2 }]]);
+  present.forEach((type, i) => {
+    const angle = (2 * Math.PI * i) / present.length - Math.PI / 2;
+    centers.set(type, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) });
+  });
+  return centers;
+};
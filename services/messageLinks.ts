@@ -0,0 +1,51 @@
+import { ChatMessage, DojoState, MindMapNode } from "../types";
+
+// Messages and nodes point at each other. Node -> messages lives in the graph, so undo restores it
+// together with the nodes; message -> nodes is never rolled back and may name nodes that have since
+// been merged away or deleted. Lookups therefore read both sides and drop what no longer exists.
+
+export const createMessageId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return `msg-${crypto.randomUUID()}`;
+  }
+  return `msg-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Sessions saved before messages carried ids get them on load
+export const withMessageIds = (state: DojoState): DojoState => {
+  if (state.conversationHistory.every(m => m.id)) return state;
+  return {
+    ...state,
+    conversationHistory: state.conversationHistory.map(m => m.id ? m : { ...m, id: createMessageId() }),
+  };
+};
+
+const union = (a: string[] | undefined, b: string[]): string[] => Array.from(new Set([...(a || []), ...b]));
+
+// Records that these messages introduced or discussed these nodes, on both sides
+export const linkMessagesToNodes = (
+  state: Pick<DojoState, 'mindMapNodes' | 'conversationHistory'>,
+  messageIds: string[],
+  nodeIds: string[]
+): Pick<DojoState, 'mindMapNodes' | 'conversationHistory'> => {
+  if (messageIds.length === 0 || nodeIds.length === 0) return state;
+  const messages = new Set(messageIds);
+  const nodes = new Set(nodeIds);
+  return {
+    mindMapNodes: state.mindMapNodes.map(n => nodes.has(n.id) ? { ...n, messageIds: union(n.messageIds, messageIds) } : n),
+    conversationHistory: state.conversationHistory.map(m => messages.has(m.id) ? { ...m, nodeIds: union(m.nodeIds, nodeIds) } : m),
+  };
+};
+
+export const nodeIdsForMessage = (message: ChatMessage, nodes: MindMapNode[]): string[] =>
+  nodes
+    .filter(n => message.nodeIds?.includes(n.id) || n.messageIds?.includes(message.id))
+    .map(n => n.id);
+
+// In conversation order
+export const messageIdsForNode = (nodeId: string, nodes: MindMapNode[], history: ChatMessage[]): string[] => {
+  const fromNode = new Set(nodes.find(n => n.id === nodeId)?.messageIds || []);
+  return history
+    .filter(m => fromNode.has(m.id) || m.nodeIds?.includes(nodeId))
+    .map(m => m.id);
+};
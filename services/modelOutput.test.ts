@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JsonSchema, LlmRequest, createAbortError } from './llmProvider';
+import { generateValidated, parseModelJson, repairJson, validateAgainstSchema } from './modelOutput';
+
+// Each generateJson call takes the next scripted reply: a string is returned, an Error is thrown
+const replies = vi.hoisted(() => [] as (string | Error)[]);
+
+vi.mock('./llmProvider', async importOriginal => ({
+  ...await importOriginal<typeof import('./llmProvider')>(),
+  getProvider: () => ({
+    id: 'mock',
+    generateJson: async () => {
+      const next = replies.shift();
+      if (next === undefined) throw new Error('No scripted reply left');
+      if (next instanceof Error) throw next;
+      return next;
+    },
+    streamText: async () => '',
+  }),
+}));
+vi.mock('./settingsStore', () => ({ getLlmSettings: () => ({}) }));
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    reply: { type: 'string' },
+    hint: { type: 'string', nullable: true },
+    tags: { type: 'array', items: { type: 'string' } },
+    score: { type: 'number' },
+  },
+  required: ['reply', 'score'],
+};
+
+const REQUEST: LlmRequest = { task: 'dojo_response', prompt: 'Hi', schema: SCHEMA, temperature: 0 };
+const fallback = () => ({ reply: 'fallback', hint: null, tags: [], score: 0 });
+const noDelay = { baseDelayMs: 0 };
+
+beforeEach(() => {
+  replies.length = 0;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('repairJson', () => {
+  it('strips markdown fences, prose around the object and trailing commas', () => {
+    const raw = 'Sure! Here it is:\n```json\n{ "reply": "Hallo", "tags": ["a", "b",], }\n```\nAnything else?';
+    expect(JSON.parse(repairJson(raw))).toEqual({ reply: 'Hallo', tags: ['a', 'b'] });
+  });
+
+  it('cannot complete truncated JSON, so parsing it still fails', () => {
+    expect(() => parseModelJson('{ "reply": "Hallo", "tags": ["a", "b"')).toThrow(SyntaxError);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  it('fills defaults, coerces scalars to strings and drops bad array items', () => {
+    const { value, errors, warnings } = validateAgainstSchema(
+      { reply: 42, tags: ['ok', { no: true }, 'fine'], score: 3 },
+      SCHEMA,
+    );
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ reply: '42', hint: null, tags: ['ok', 'fine'], score: 3 });
+    expect(warnings).toEqual(expect.arrayContaining([
+      'reply: coerced number to string',
+      'hint: filled default',
+      'tags[1]: dropped (tags[1]: expected string)',
+    ]));
+  });
+
+  it('fails when a required field is missing or has the wrong type', () => {
+    const { value, errors } = validateAgainstSchema({ reply: 'Hallo', score: 'high' }, SCHEMA);
+    expect(value).toBeNull();
+    expect(errors).toEqual(['score: expected number']);
+    expect(validateAgainstSchema({ score: 1 }, SCHEMA).errors).toEqual(['reply: missing']);
+  });
+});
+
+describe('generateValidated', () => {
+  it('retries after truncated output and returns the first valid reply', async () => {
+    replies.push('{ "reply": "Hal', '```json\n{ "reply": "Hallo", "score": 1, }\n```');
+    const result = await generateValidated(REQUEST, fallback, noDelay);
+    expect(result).toEqual({ source: 'model', data: { reply: 'Hallo', hint: null, tags: [], score: 1 }, attempts: 2 });
+  });
+
+  it('returns the fallback with the last error once every attempt has failed', async () => {
+    replies.push('not json', new Error('Rate limited'), '{ "reply": "Hallo" }');
+    const result = await generateValidated(REQUEST, fallback, { maxAttempts: 3, ...noDelay });
+    expect(result).toEqual({
+      source: 'fallback',
+      data: fallback(),
+      error: 'Schema validation failed: score: missing',
+    });
+  });
+
+  it('rethrows an abort instead of retrying', async () => {
+    replies.push(createAbortError(), '{ "reply": "Hallo", "score": 1 }');
+    await expect(generateValidated(REQUEST, fallback, noDelay)).rejects.toThrow('aborted');
+    expect(replies).toHaveLength(1);
+  });
+});
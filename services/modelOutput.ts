@@ -0,0 +1,183 @@
+import { ModelResult } from "../types";
+import { JsonSchema, LlmRequest, getProvider, isAbortError } from "./llmProvider";
+import { getLlmSettings } from "./settingsStore";
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];   // Fatal: the value could not be made to fit the schema
+  warnings: string[]; // Repaired in place (defaults filled, bad array items dropped)
+}
+
+// --- REPAIR ---
+
+// Fixes the usual ways models break JSON: markdown fences, prose around the object, trailing commas.
+export const repairJson = (raw: string): string => {
+  let text = raw.trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) text = fenced[1].trim();
+
+  const first = text.search(/[{[]/);
+  const last = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (first !== -1 && last > first) {
+    text = text.slice(first, last + 1);
+  }
+
+  return text.replace(/,\s*([}\]])/g, '$1');
+};
+
+export const parseModelJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return JSON.parse(repairJson(raw));
+  }
+};
+
+// --- VALIDATION ---
+
+const defaultFor = (schema: JsonSchema): unknown => {
+  if (schema.nullable) return null;
+  switch (schema.type) {
+    case 'string': return '';
+    case 'array': return [];
+    default: return undefined;
+  }
+};
+
+const checkValue = (value: unknown, schema: JsonSchema, path: string, errors: string[], warnings: string[]): unknown => {
+  if (value === null || value === undefined) {
+    if (schema.nullable) return null;
+    errors.push(`${path}: missing`);
+    return undefined;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        warnings.push(`${path}: coerced ${typeof value} to string`);
+        value = String(value);
+      }
+      if (typeof value !== 'string') {
+        errors.push(`${path}: expected string`);
+        return undefined;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path}: "${value}" is not one of ${schema.enum.join(', ')}`);
+        return undefined;
+      }
+      return value;
+
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) {
+        errors.push(`${path}: expected number`);
+        return undefined;
+      }
+      return value;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${path}: expected boolean`);
+        return undefined;
+      }
+      return value;
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path}: expected array`);
+        return undefined;
+      }
+      if (!schema.items) return value;
+      // Bad items are dropped rather than failing the whole list
+      const items: unknown[] = [];
+      value.forEach((item, i) => {
+        const itemErrors: string[] = [];
+        const checked = checkValue(item, schema.items!, `${path}[${i}]`, itemErrors, warnings);
+        if (itemErrors.length) {
+          warnings.push(`${path}[${i}]: dropped (${itemErrors.join('; ')})`);
+        } else {
+          items.push(checked);
+        }
+      });
+      return items;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path}: expected object`);
+        return undefined;
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const required = new Set(schema.required || []);
+
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        const propPath = path ? `${path}.${key}` : key;
+        if (input[key] === undefined || input[key] === null) {
+          if (required.has(key) && !propSchema.nullable) {
+            errors.push(`${propPath}: missing`);
+          } else {
+            const fallback = defaultFor(propSchema);
+            if (fallback !== undefined) {
+              if (input[key] === undefined) warnings.push(`${propPath}: filled default`);
+              output[key] = fallback;
+            }
+          }
+          return;
+        }
+        output[key] = checkValue(input[key], propSchema, propPath, errors, warnings);
+      });
+      return output;
+    }
+  }
+};
+
+// Checks a parsed value against the same schema we send to the provider as `responseSchema`
+export const validateAgainstSchema = <T>(value: unknown, schema: JsonSchema): ValidationResult<T> => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const checked = checkValue(value, schema, '', errors, warnings);
+  return { value: errors.length ? null : checked as T, errors, warnings };
+};
+
+// --- GENERATION WITH RETRIES ---
+
+interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 400;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Calls the active provider, repairs and validates its JSON, and retries with exponential backoff.
+// Never throws for model problems: exhausting the attempts yields `source: 'fallback'` with the given data.
+export const generateValidated = async <T>(
+  request: LlmRequest,
+  fallback: () => T,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS, baseDelayMs = DEFAULT_BASE_DELAY_MS }: RetryOptions = {}
+): Promise<ModelResult<T>> => {
+  let lastError = 'No attempts made';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const raw = await getProvider(getLlmSettings()).generateJson(request);
+      const { value, errors, warnings } = validateAgainstSchema<T>(parseModelJson(raw), request.schema);
+
+      if (warnings.length) console.warn(`[${request.task}] repaired model output:`, warnings);
+      if (value !== null) return { source: 'model', data: value, attempts: attempt };
+
+      lastError = `Schema validation failed: ${errors.join('; ')}`;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+
+    console.warn(`[${request.task}] attempt ${attempt}/${maxAttempts} failed: ${lastError}`);
+    if (attempt < maxAttempts) await sleep(baseDelayMs * 2 ** (attempt - 1));
+  }
+
+  return { source: 'fallback', data: fallback(), error: lastError };
+};
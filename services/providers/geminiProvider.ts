@@ -0,0 +1,74 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { JsonSchema, LlmProvider, LlmRequest, LlmStreamRequest, createAbortError } from "../llmProvider";
+
+interface GeminiProviderOptions {
+  model: string;
+  apiKey: string;
+}
+
+// Gemini uses upper-case type names (Type.OBJECT etc.) but is otherwise the same shape
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  nullable: schema.nullable,
+  enum: schema.enum,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)]))
+    : undefined,
+  required: schema.required,
+});
+
+export const createGeminiProvider = ({ model, apiKey }: GeminiProviderOptions): LlmProvider => {
+  let aiClient: GoogleGenAI | null = null;
+
+  // The key comes from Settings; without one every call fails (and callers fall back)
+  const getAiClient = () => {
+    if (!apiKey) throw new Error('No Gemini API key configured');
+    if (!aiClient) aiClient = new GoogleGenAI({ apiKey });
+    return aiClient;
+  };
+
+  return {
+    id: 'gemini',
+    async generateJson(request: LlmRequest) {
+      const response = await getAiClient().models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema),
+          temperature: request.temperature,
+        }
+      });
+
+      const text = response.text;
+      if (!text) throw new Error("Empty response from Gemini");
+      return text;
+    },
+
+    async streamText(request: LlmStreamRequest, onChunk: (chunk: string) => void) {
+      const stream = await getAiClient().models.generateContentStream({
+        model,
+        contents: request.prompt,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        }
+      });
+
+      let full = '';
+      for await (const chunk of stream) {
+        if (request.signal?.aborted) throw createAbortError();
+        const text = chunk.text;
+        if (text) {
+          full += text;
+          onChunk(text);
+        }
+      }
+      return full;
+    }
+  };
+};
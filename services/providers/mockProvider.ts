@@ -0,0 +1,42 @@
+import { LlmProvider, LlmRequest, LlmStreamRequest, LlmTask, createAbortError } from "../llmProvider";
+import { MOCK_RESPONSES } from "../../fixtures/mockResponses";
+
+// Per-task cursor so successive calls walk through the fixture in order
+const cursors: Partial<Record<LlmTask, number>> = {};
+
+const STREAM_CHUNK_DELAY_MS = 30;
+
+export const resetMockProvider = () => {
+  (Object.keys(cursors) as LlmTask[]).forEach(k => delete cursors[k]);
+};
+
+const nextResponse = (responses: Record<LlmTask, object[]>, task: LlmTask): any => {
+  const list = responses[task];
+  if (!list || list.length === 0) {
+    throw new Error(`No mock responses for task "${task}"`);
+  }
+  const index = cursors[task] ?? 0;
+  cursors[task] = (index + 1) % list.length;
+  return list[index];
+};
+
+// Deterministic, offline provider: returns the next canned response for the task, cycling.
+export const createMockProvider = (responses = MOCK_RESPONSES): LlmProvider => ({
+  id: 'mock',
+  async generateJson(request: LlmRequest) {
+    return JSON.stringify(nextResponse(responses, request.task));
+  },
+
+  // Streams the next canned dojo reply word by word
+  async streamText(request: LlmStreamRequest, onChunk: (chunk: string) => void) {
+    const reply: string = nextResponse(responses, 'dojo_response').reply_text || '';
+    const words = reply.split(/(?<=\s)/);
+
+    for (const word of words) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      if (request.signal?.aborted) throw createAbortError();
+      onChunk(word);
+    }
+    return reply;
+  }
+});
@@ -0,0 +1,94 @@
+import { LlmProvider, LlmRequest, LlmStreamRequest } from "../llmProvider";
+
+interface OpenAiProviderOptions {
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+// Works against any /chat/completions server: OpenAI, Ollama, llama.cpp, LM Studio, vLLM...
+// We only rely on `response_format: json_object` (widely supported) and describe the schema in
+// the system message, because strict `json_schema` support varies between local servers.
+export const createOpenAiProvider = ({ model, baseUrl, apiKey }: OpenAiProviderOptions): LlmProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers = {
+    'Content-Type': 'application/json',
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+
+  return {
+    id: 'openai',
+    async generateJson(request: LlmRequest) {
+      const system = [
+        request.systemInstruction || '',
+        'Reply with a single JSON object matching this JSON Schema:',
+        JSON.stringify(request.schema),
+      ].join('\n');
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          temperature: request.temperature,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: request.prompt },
+          ],
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`OpenAI-compatible request failed: ${res.status} ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (!text) throw new Error("Empty response from OpenAI-compatible provider");
+      return text;
+    },
+
+    async streamText(request: LlmStreamRequest, onChunk: (chunk: string) => void) {
+      const messages = request.systemInstruction
+        ? [{ role: 'system', content: request.systemInstruction }, { role: 'user', content: request.prompt }]
+        : [{ role: 'user', content: request.prompt }];
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        signal: request.signal,
+        body: JSON.stringify({ model, temperature: request.temperature, stream: true, messages }),
+      });
+
+      if (!res.ok || !res.body) {
+        throw new Error(`OpenAI-compatible stream failed: ${res.status} ${res.statusText}`);
+      }
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let full = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            full += delta;
+            onChunk(delta);
+          }
+        }
+      }
+      return full;
+    }
+  };
+};
@@ -0,0 +1,121 @@
+import { Scenario, ScenarioDifficulty } from "../types";
+import { BUILT_IN_SCENARIOS } from "../constants/scenarios";
+
+const CUSTOM_SCENARIOS_KEY = 'contextdojo_custom_scenarios';
+const SCENARIO_EXPORT_FORMAT = 'contextdojo-scenarios';
+const SCENARIO_EXPORT_VERSION = 1;
+
+const DIFFICULTIES: ScenarioDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+const MODES: Scenario['mode'][] = ['topical', 'social', 'debate', 'adaptive'];
+
+export class ScenarioImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioImportError';
+  }
+}
+
+export const createScenarioId = () => `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const emptyScenario = (): Scenario => ({
+  id: createScenarioId(),
+  title: '',
+  mode: 'adaptive',
+  persona: '',
+  setting: '',
+  goals: [],
+  difficulty: 'beginner',
+  openingLine: '',
+  successCriteria: [],
+});
+
+export const loadCustomScenarios = (): Scenario[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(CUSTOM_SCENARIOS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.warn("Ignoring unreadable custom scenarios", err);
+    return [];
+  }
+};
+
+const saveCustomScenarios = (scenarios: Scenario[]) => {
+  localStorage.setItem(CUSTOM_SCENARIOS_KEY, JSON.stringify(scenarios));
+};
+
+export const getAllScenarios = (): Scenario[] => [...BUILT_IN_SCENARIOS, ...loadCustomScenarios()];
+
+// Insert or replace by id. Built-ins are never stored; editing one saves a custom copy.
+export const upsertCustomScenario = (scenario: Scenario): Scenario => {
+  const saved: Scenario = scenario.builtIn
+    ? { ...scenario, id: createScenarioId(), builtIn: false }
+    : { ...scenario, builtIn: false };
+  const existing = loadCustomScenarios();
+  const idx = existing.findIndex(s => s.id === saved.id);
+  if (idx === -1) existing.push(saved);
+  else existing[idx] = saved;
+  saveCustomScenarios(existing);
+  return saved;
+};
+
+export const deleteCustomScenario = (id: string) => {
+  saveCustomScenarios(loadCustomScenarios().filter(s => s.id !== id));
+};
+
+// Returns the problems with a scenario, empty when it is usable
+export const validateScenario = (scenario: Partial<Scenario>): string[] => {
+  const problems: string[] = [];
+  if (!scenario.title?.trim()) problems.push('Title is required');
+  if (!scenario.persona?.trim()) problems.push('Persona is required');
+  if (!scenario.openingLine?.trim()) problems.push('Opening line is required');
+  if (!scenario.mode || !MODES.includes(scenario.mode)) problems.push('Mode is invalid');
+  if (!scenario.difficulty || !DIFFICULTIES.includes(scenario.difficulty)) problems.push('Difficulty is invalid');
+  if (!Array.isArray(scenario.goals)) problems.push('Goals must be a list');
+  if (!Array.isArray(scenario.successCriteria)) problems.push('Success criteria must be a list');
+  return problems;
+};
+
+// --- IMPORT / EXPORT ---
+
+export const exportScenariosJson = (scenarios: Scenario[]): string => {
+  return JSON.stringify({
+    format: SCENARIO_EXPORT_FORMAT,
+    version: SCENARIO_EXPORT_VERSION,
+    scenarios: scenarios.map(({ builtIn, ...rest }) => rest),
+  }, null, 2);
+};
+
+// Accepts either an export file or a bare scenario / array of scenarios. Imported ids are regenerated.
+export const importScenariosJson = (raw: string): Scenario[] => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ScenarioImportError('File is not valid JSON');
+  }
+
+  const list: any[] = data?.format === SCENARIO_EXPORT_FORMAT ? data.scenarios : Array.isArray(data) ? data : [data];
+  if (!Array.isArray(list) || list.length === 0) {
+    throw new ScenarioImportError('No scenarios found in file');
+  }
+
+  const imported = list.map((item, i) => {
+    const scenario: Scenario = {
+      ...emptyScenario(),
+      ...item,
+      id: createScenarioId() + `-${i}`,
+      goals: Array.isArray(item?.goals) ? item.goals.map(String) : [],
+      successCriteria: Array.isArray(item?.successCriteria) ? item.successCriteria.map(String) : [],
+      builtIn: false,
+    };
+    const problems = validateScenario(scenario);
+    if (problems.length) {
+      throw new ScenarioImportError(`Scenario ${i + 1}: ${problems.join(', ')}`);
+    }
+    return scenario;
+  });
+
+  saveCustomScenarios([...loadCustomScenarios(), ...imported]);
+  return imported;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_PBKDF2_ITERATIONS, MIN_PBKDF2_ITERATIONS, VaultError, decryptJson, deriveVaultKey, encryptJson, isEncryptedEnvelope,
+} from './secretVault';
+
+describe('secretVault', () => {
+  it('round-trips a value and rejects a wrong passphrase', async () => {
+    const envelope = await encryptJson({ geminiApiKey: 'key' }, await deriveVaultKey('correct horse'));
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect((await decryptJson(envelope, 'correct horse')).value).toEqual({ geminiApiKey: 'key' });
+    await expect(decryptJson(envelope, 'wrong')).rejects.toBeInstanceOf(VaultError);
+  });
+
+  it('only accepts envelopes within the iteration bounds', async () => {
+    const envelope = await encryptJson('secret', await deriveVaultKey('correct horse'));
+    expect(isEncryptedEnvelope({ ...envelope, iterations: MIN_PBKDF2_ITERATIONS })).toBe(true);
+    expect(isEncryptedEnvelope({ ...envelope, iterations: MAX_PBKDF2_ITERATIONS })).toBe(true);
+    for (const iterations of [1, MIN_PBKDF2_ITERATIONS - 1, MAX_PBKDF2_ITERATIONS + 1, 1e10, 150000.5, '310000']) {
+      expect(isEncryptedEnvelope({ ...envelope, iterations })).toBe(false);
+    }
+    await expect(decryptJson({ ...envelope, iterations: 1 }, 'correct horse')).rejects.toBeInstanceOf(VaultError);
+  });
+});
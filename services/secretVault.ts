@@ -0,0 +1,73 @@
+// Passphrase encryption for stored secrets: PBKDF2-SHA-256 derives an AES-GCM key. Everything is
+// base64 so the envelope can sit in localStorage or a settings file.
+
+export interface EncryptedEnvelope {
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+// A key derived once from the passphrase, so later saves can re-encrypt without asking again
+export interface VaultKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+const PBKDF2_ITERATIONS = 310000;
+// Accepted range for envelopes from elsewhere: fewer is cheap to brute-force, more would freeze the tab on unlock
+export const MIN_PBKDF2_ITERATIONS = 100000;
+export const MAX_PBKDF2_ITERATIONS = 2000000;
+
+const isAcceptedIterations = (iterations: unknown): iterations is number =>
+  typeof iterations === 'number' && Number.isInteger(iterations)
+  && iterations >= MIN_PBKDF2_ITERATIONS && iterations <= MAX_PBKDF2_ITERATIONS;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const isVaultSupported = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const deriveVaultKey = async (passphrase: string, salt?: string, iterations = PBKDF2_ITERATIONS): Promise<VaultKey> => {
+  if (!isAcceptedIterations(iterations)) throw new VaultError(`Unsupported key derivation strength: ${iterations} iterations`);
+  const saltBytes = salt ? fromBase64(salt) : crypto.getRandomValues(new Uint8Array(16));
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: saltBytes, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt: toBase64(saltBytes), iterations };
+};
+
+export const encryptJson = async (value: unknown, vaultKey: VaultKey): Promise<EncryptedEnvelope> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plain = new TextEncoder().encode(JSON.stringify(value));
+  const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vaultKey.key, plain);
+  return { salt: vaultKey.salt, iv: toBase64(iv), iterations: vaultKey.iterations, data: toBase64(new Uint8Array(cipher)) };
+};
+
+// Rejects with a VaultError when the passphrase is wrong (AES-GCM authentication fails)
+export const decryptJson = async <T>(envelope: EncryptedEnvelope, passphrase: string): Promise<{ value: T; vaultKey: VaultKey }> => {
+  const vaultKey = await deriveVaultKey(passphrase, envelope.salt, envelope.iterations);
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, vaultKey.key, fromBase64(envelope.data));
+    return { value: JSON.parse(new TextDecoder().decode(plain)) as T, vaultKey };
+  } catch {
+    throw new VaultError('Wrong passphrase');
+  }
+};
+
+export const isEncryptedEnvelope = (value: any): value is EncryptedEnvelope =>
+  !!value && typeof value.salt === 'string' && typeof value.iv === 'string'
+  && typeof value.data === 'string' && isAcceptedIterations(value.iterations);
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { DojoState } from '../types';
+import { SessionImportError, exportSessionJson, exportSessionSrt, exportSessionVtt, importSessionJson } from './sessionExport';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 12, 0, seconds));
+
+// A session with every optional field the panels render filled in
+const SESSION: DojoState = {
+  mode: 'social',
+  scenario: {
+    id: 'custom-1',
+    title: 'Dinner party',
+    mode: 'social',
+    persona: 'A friendly host',
+    setting: 'A small dinner at home',
+    goals: ['Make small talk'],
+    difficulty: 'beginner',
+    openingLine: 'Welcome! Come in.',
+    successCriteria: ['Asks a question'],
+  },
+  practiceLanguage: 'de',
+  sessionGoal: 'Talk about cooking',
+  focusHistory: [
+    { score: 12, structuralScore: 10, modelScore: 15, nodeId: 'Cooking', reason: 'On topic', redirect: null, timestamp: at(9) },
+  ],
+  report: {
+    generatedAt: at(30),
+    skills: [{
+      skill: 'question_asking',
+      score: 70,
+      summary: 'Asked one question.',
+      evidence: [{ messageIndex: 1, quote: 'Was kochst du?' }],
+      source: 'metric',
+    }],
+    strengths: ['Clear answers'],
+    improvements: ['Ask more questions'],
+    topics: ['Cooking'],
+  },
+  currentTopic: 'Cooking',
+  mindMapNodes: [
+    { id: 'Context', label: 'Dinner party', group: 1, type: 'root', status: 'active' },
+    { id: 'Cooking', label: 'Cooking', group: 2, type: 'concept', status: 'active', description: 'Cooking at home', activatedAt: at(9), messageIds: ['m1', 'm2'] },
+  ],
+  mindMapLinks: [{ source: 'Context', target: 'Cooking' }],
+  conversationHistory: [
+    { id: 'm0', role: 'model', text: 'Welcome! Come in.', timestamp: at(0) },
+    {
+      id: 'm1',
+      role: 'user',
+      text: 'Ich koche gern.',
+      translatedText: 'I like cooking.',
+      guidance: { text: 'Ask a follow-up question.', category: 'engagement', timestamp: at(6) },
+      correction: {
+        correctedText: 'Ich koche gerne.',
+        errors: [{ original: 'gern', corrected: 'gerne', category: 'word_choice', explanation: 'Both work; gerne is more common.' }],
+      },
+      nodeIds: ['Cooking'],
+      timing: { startedAt: at(4), endedAt: at(5), interrupted: false },
+      timestamp: at(4),
+    },
+    { id: 'm2', role: 'model', text: 'Was kochst du?', nodeIds: ['Cooking'], timestamp: at(8) },
+    { id: 'm3', role: 'system', text: 'Mode switched', modeChange: { from: 'topical', to: 'social' }, timestamp: at(20) },
+  ],
+  lastGuidance: 'Ask a follow-up question.',
+};
+
+// The export as parsed JSON, for hand-editing
+const exported = () => JSON.parse(exportSessionJson(SESSION, 'Dinner', at(0)));
+
+describe('importSessionJson', () => {
+  it('round-trips an export', () => {
+    const imported = importSessionJson(exportSessionJson(SESSION, 'Dinner', at(0)));
+    expect(imported.title).toBe('Dinner');
+    expect(imported.createdAt).toEqual(at(0));
+    expect(imported.state).toEqual(SESSION);
+  });
+
+  it('leaves out fields a session does not have, like the derived delivery metrics', () => {
+    const file = exported();
+    file.state.delivery = { turns: 'not metrics' };
+    file.state.conversationHistory[1].extra = 42;
+    const { state } = importSessionJson(JSON.stringify(file));
+    expect(state).not.toHaveProperty('delivery');
+    expect(state.conversationHistory[1]).not.toHaveProperty('extra');
+  });
+
+  it('drops malformed optional fields and keeps the rest of the session', () => {
+    const file = exported();
+    file.state.scenario = { title: 'No persona' };
+    file.state.lastGuidance = { text: 'not a string' };
+    file.state.report.skills[0].evidence = [{ messageIndex: 99, quote: 'out of range' }];
+    file.state.focusHistory.push({ score: 'high', nodeId: 'Cooking', timestamp: at(10).toISOString() });
+    const message = file.state.conversationHistory[1];
+    message.guidance.category = 'volume';
+    message.correction = { correctedText: 'Ich koche gerne.', errors: 'none' };
+    message.nodeIds = 'Cooking';
+    message.timing = { startedAt: 'yesterday', endedAt: 'today' };
+
+    const { state } = importSessionJson(JSON.stringify(file));
+    expect(state.scenario).toBeNull();
+    expect(state.lastGuidance).toBeNull();
+    expect(state.report).toBeNull();
+    expect(state.focusHistory).toEqual(SESSION.focusHistory);
+    const imported = state.conversationHistory[1];
+    expect(imported.guidance).toBeUndefined();
+    expect(imported.correction).toBeUndefined();
+    expect(imported.nodeIds).toBeUndefined();
+    expect(imported.timing).toBeUndefined();
+    expect(imported.translatedText).toBe('I like cooking.');
+    expect(state.mindMapNodes).toEqual(SESSION.mindMapNodes);
+  });
+
+  it('rejects a session with an unknown mode', () => {
+    const file = exported();
+    file.state.mode = 'karaoke';
+    expect(() => importSessionJson(JSON.stringify(file))).toThrow(SessionImportError);
+  });
+
+  it('rejects map links that point to a missing node', () => {
+    const file = exported();
+    file.state.mindMapLinks.push({ source: 'Cooking', target: 'Baking' });
+    expect(() => importSessionJson(JSON.stringify(file))).toThrow(/missing node/);
+  });
+});
+
+describe('subtitle exports', () => {
+  const reply: DojoState = {
+    ...SESSION,
+    conversationHistory: [
+      { id: 'm0', role: 'user', text: 'Any tips?', timestamp: at(0) },
+      { id: 'm1', role: 'model', text: 'First, salt the water.\n\n   \nThen taste --> adjust <b>& serve</b>.', timestamp: at(4) },
+    ],
+  };
+
+  it('keeps a multi-paragraph reply in one SRT cue', () => {
+    expect(exportSessionSrt(reply).split('\n\n')).toEqual([
+      '1\n00:00:00,000 --> 00:00:01,000\nYou: Any tips?',
+      '2\n00:00:04,000 --> 00:00:08,000\nDojo: First, salt the water.\nThen taste -> adjust <b>& serve</b>.\n',
+    ]);
+  });
+
+  it('escapes WebVTT markup and keeps "-->" out of cue text', () => {
+    const cues = exportSessionVtt(reply).split('\n\n');
+    expect(cues[0]).toBe('WEBVTT');
+    expect(cues[2]).toBe('00:00:04.000 --> 00:00:08.000\nDojo: First, salt the water.\nThen taste -> adjust &lt;b>&amp; serve&lt;/b>.\n');
+  });
+});
@@ -0,0 +1,423 @@
+import { ChatMessage, ConversationMode, Correction, DojoState, FocusSample, Guidance, MindMapLink, MindMapNode, ModeChange, Scenario, SessionReport, SkillScore, TurnTiming } from "../types";
+import { SKILL_ORDER, reportToMarkdown } from "./sessionReport";
+import { GUIDANCE_CATEGORIES } from "./guidance";
+import { validateScenario } from "./scenarioStore";
+import { createMessageId } from "./messageLinks";
+import { DeliveryMetrics, computeDeliveryMetrics, deliverySummaryLines, formatSeconds } from "./deliveryMetrics";
+
+export const SESSION_EXPORT_FORMAT = 'contextdojo-session';
+export const SESSION_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'srt' | 'vtt';
+
+// On-disk shape of a JSON export. Dates are ISO strings so the file survives any JSON tooling.
+interface SerializedMessage extends Omit<ChatMessage, 'timestamp' | 'guidance' | 'timing'> {
+  guidance?: Omit<Guidance, 'timestamp'> & { timestamp: string };
+  timing?: Omit<TurnTiming, 'startedAt' | 'endedAt'> & { startedAt: string; endedAt: string };
+  timestamp: string;
+}
+
+interface SerializedState extends Omit<DojoState, 'conversationHistory'> {
+  conversationHistory: SerializedMessage[];
+}
+
+export interface SessionExportFile {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  title: string;
+  createdAt: string;
+  state: SerializedState;
+  delivery?: DeliveryMetrics; // Derived from the voice turns; ignored on import
+}
+
+export interface ImportedSession {
+  title: string;
+  createdAt: Date;
+  state: DojoState;
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+// --- JSON ---
+
+// Delivery metrics for sessions that had voice turns
+const deliveryFor = (state: DojoState): DeliveryMetrics | null => {
+  const metrics = computeDeliveryMetrics(state.conversationHistory, state.practiceLanguage);
+  return metrics.turns.length ? metrics : null;
+};
+
+export const exportSessionJson = (state: DojoState, title: string, createdAt: Date = new Date()): string => {
+  const delivery = deliveryFor(state);
+  const file: SessionExportFile = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    createdAt: createdAt.toISOString(),
+    state: {
+      ...state,
+      conversationHistory: state.conversationHistory.map(m => ({
+        ...m,
+        guidance: m.guidance && { ...m.guidance, timestamp: m.guidance.timestamp.toISOString() },
+        timing: m.timing && { ...m.timing, startedAt: m.timing.startedAt.toISOString(), endedAt: m.timing.endedAt.toISOString() },
+        timestamp: m.timestamp.toISOString(),
+      })),
+    },
+    ...(delivery && { delivery }),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const parseDate = (value: unknown, field: string): Date => {
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    throw new SessionImportError(`Invalid date in "${field}"`);
+  }
+  return date;
+};
+
+const NODE_TYPES: MindMapNode['type'][] = ['root', 'concept', 'entity', 'action', 'emotion', 'marker'];
+const NODE_STATUSES: MindMapNode['status'][] = ['active', 'potential'];
+const MODES: ConversationMode[] = ['topical', 'social', 'debate', 'adaptive', null];
+const CORRECTION_CATEGORIES: Correction['errors'][number]['category'][] = ['grammar', 'word_choice', 'register'];
+
+// Optional fields the panels render are kept only when they have the shape the panels expect.
+// A malformed one is dropped rather than failing the whole import.
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isValidDate = (value: unknown) => isString(value) && !isNaN(new Date(value).getTime());
+
+const readGuidance = (g: any): Guidance | undefined =>
+  g && isString(g.text) && GUIDANCE_CATEGORIES.includes(g.category) && isValidDate(g.timestamp)
+    ? { text: g.text, category: g.category, timestamp: new Date(g.timestamp) }
+    : undefined;
+
+const readCorrection = (c: any): Correction | undefined =>
+  c && isString(c.correctedText) && Array.isArray(c.errors) && c.errors.every((e: any) =>
+    e && isString(e.original) && isString(e.corrected) && isString(e.explanation) && CORRECTION_CATEGORIES.includes(e.category))
+    ? { correctedText: c.correctedText, errors: c.errors.map(({ original, corrected, category, explanation }: any) => ({ original, corrected, category, explanation })) }
+    : undefined;
+
+const readModeChange = (m: any): ModeChange | undefined =>
+  m && MODES.includes(m.from) && MODES.includes(m.to) ? { from: m.from, to: m.to } : undefined;
+
+const readTiming = (t: any): TurnTiming | undefined =>
+  t && isValidDate(t.startedAt) && isValidDate(t.endedAt)
+    ? { startedAt: new Date(t.startedAt), endedAt: new Date(t.endedAt), interrupted: Boolean(t.interrupted) }
+    : undefined;
+
+const readScenario = (s: any): Scenario | null =>
+  s && isString(s.id) && isString(s.setting) && isStringList(s.goals) && isStringList(s.successCriteria) && validateScenario(s).length === 0
+    ? s
+    : null;
+
+const readSkill = (s: any, messageCount: number): SkillScore | null =>
+  s && SKILL_ORDER.includes(s.skill) && Number.isFinite(s.score) && isString(s.summary) && ['metric', 'model'].includes(s.source)
+    && Array.isArray(s.evidence) && s.evidence.every((e: any) =>
+      e && isString(e.quote) && Number.isInteger(e.messageIndex) && e.messageIndex >= 0 && e.messageIndex < messageCount)
+    ? s
+    : null;
+
+const readReport = (r: any, messageCount: number): SessionReport | null => {
+  if (!r || !isValidDate(r.generatedAt) || !Array.isArray(r.skills)) return null;
+  if (!isStringList(r.strengths) || !isStringList(r.improvements) || !isStringList(r.topics)) return null;
+  const skills = r.skills.map((s: any) => readSkill(s, messageCount));
+  if (skills.includes(null)) return null;
+  return { generatedAt: new Date(r.generatedAt), skills, strengths: r.strengths, improvements: r.improvements, topics: r.topics };
+};
+
+const readFocusSample = (f: any, nodeIds: Set<string>): FocusSample | null =>
+  f && Number.isFinite(f.score) && Number.isFinite(f.structuralScore) && (f.modelScore === null || Number.isFinite(f.modelScore))
+    && nodeIds.has(f.nodeId) && isValidDate(f.timestamp)
+    ? {
+        score: f.score,
+        structuralScore: f.structuralScore,
+        modelScore: f.modelScore,
+        nodeId: f.nodeId,
+        reason: isString(f.reason) ? f.reason : undefined,
+        redirect: isString(f.redirect) ? f.redirect : null,
+        timestamp: new Date(f.timestamp),
+      }
+    : null;
+
+export const importSessionJson = (raw: string): ImportedSession => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new SessionImportError('File is not valid JSON');
+  }
+
+  if (!data || data.format !== SESSION_EXPORT_FORMAT) {
+    throw new SessionImportError('Not a ContextDojo session export');
+  }
+  if (typeof data.version !== 'number' || data.version > SESSION_EXPORT_VERSION) {
+    throw new SessionImportError(`Unsupported export version: ${data.version}`);
+  }
+
+  const state = data.state;
+  if (!state || !Array.isArray(state.conversationHistory) || !Array.isArray(state.mindMapNodes) || !Array.isArray(state.mindMapLinks)) {
+    throw new SessionImportError('Export is missing session state');
+  }
+
+  if (!MODES.includes(state.mode) || !isString(state.currentTopic)) {
+    throw new SessionImportError('Export has an invalid mode or topic');
+  }
+
+  const conversationHistory: ChatMessage[] = state.conversationHistory.map((m: any, i: number) => {
+    if (!m || !['user', 'model', 'system'].includes(m.role) || typeof m.text !== 'string') {
+      throw new SessionImportError(`Invalid message at position ${i}`);
+    }
+    return {
+      id: typeof m.id === 'string' && m.id ? m.id : createMessageId(),
+      role: m.role,
+      text: m.text,
+      modeChange: readModeChange(m.modeChange),
+      translatedText: isString(m.translatedText) ? m.translatedText : undefined,
+      guidance: readGuidance(m.guidance),
+      correction: readCorrection(m.correction),
+      correctionUnavailable: m.correctionUnavailable === true || undefined,
+      nodeIds: isStringList(m.nodeIds) ? m.nodeIds : undefined,
+      timing: readTiming(m.timing),
+      timestamp: parseDate(m.timestamp, `conversationHistory[${i}].timestamp`),
+    };
+  });
+
+  // The map is drawn straight from these, so anything D3 can't join on is rejected
+  const nodeIds = new Set<string>();
+  const mindMapNodes: MindMapNode[] = state.mindMapNodes.map((n: any, i: number) => {
+    if (!n || typeof n.id !== 'string' || !n.id || typeof n.label !== 'string' || !n.label) {
+      throw new SessionImportError(`Invalid map node at position ${i}`);
+    }
+    if (nodeIds.has(n.id)) throw new SessionImportError(`Duplicate map node id "${n.id}"`);
+    if (!NODE_TYPES.includes(n.type) || !NODE_STATUSES.includes(n.status) || !Number.isFinite(n.group)) {
+      throw new SessionImportError(`Invalid type, status or group on map node "${n.id}"`);
+    }
+    if (n.messageIds !== undefined && !(Array.isArray(n.messageIds) && n.messageIds.every((id: unknown) => typeof id === 'string'))) {
+      throw new SessionImportError(`Invalid message links on map node "${n.id}"`);
+    }
+    nodeIds.add(n.id);
+    return {
+      id: n.id,
+      label: n.label,
+      group: n.group,
+      type: n.type,
+      status: n.status,
+      description: isString(n.description) ? n.description : undefined,
+      activatedAt: n.activatedAt ? parseDate(n.activatedAt, `mindMapNodes[${i}].activatedAt`) : undefined,
+      messageIds: n.messageIds,
+    };
+  });
+  const mindMapLinks: MindMapLink[] = state.mindMapLinks.map((l: any, i: number) => {
+    if (!l || !nodeIds.has(l.source) || !nodeIds.has(l.target)) {
+      throw new SessionImportError(`Map link at position ${i} points to a missing node`);
+    }
+    return { source: l.source, target: l.target };
+  });
+
+  const focusHistory: FocusSample[] | undefined = Array.isArray(state.focusHistory)
+    ? state.focusHistory.map((f: any) => readFocusSample(f, nodeIds)).filter((f: FocusSample | null): f is FocusSample => f !== null)
+    : undefined;
+
+  // Only the fields a session has are read; anything else in the file is left behind
+  return {
+    title: typeof data.title === 'string' && data.title ? data.title : 'Imported Session',
+    createdAt: data.createdAt ? parseDate(data.createdAt, 'createdAt') : new Date(),
+    state: {
+      mode: state.mode,
+      scenario: readScenario(state.scenario),
+      practiceLanguage: isString(state.practiceLanguage) ? state.practiceLanguage : undefined,
+      sessionGoal: isString(state.sessionGoal) ? state.sessionGoal : null,
+      focusHistory,
+      report: readReport(state.report, conversationHistory.length),
+      currentTopic: state.currentTopic,
+      mindMapNodes,
+      mindMapLinks,
+      conversationHistory,
+      lastGuidance: isString(state.lastGuidance) ? state.lastGuidance : null,
+    },
+  };
+};
+
+// --- MARKDOWN ---
+
+const ROLE_NAMES: Record<ChatMessage['role'], string> = { user: 'You', model: 'Dojo', system: 'Session' };
+const roleName = (msg: ChatMessage) => ROLE_NAMES[msg.role];
+
+export const exportSessionMarkdown = (state: DojoState, title: string): string => {
+  const lines: string[] = [`# ${title}`, ''];
+  if (state.scenario) lines.push(`- **Scenario:** ${state.scenario.title} (${state.scenario.difficulty})`);
+  lines.push(`- **Mode:** ${state.mode || 'none'}`);
+  lines.push(`- **Topic:** ${state.currentTopic}`);
+  if (state.practiceLanguage && state.practiceLanguage !== 'auto') lines.push(`- **Practice Language:** ${state.practiceLanguage}`);
+  if (state.sessionGoal) lines.push(`- **Goal:** ${state.sessionGoal}`);
+  lines.push(`- **Turns:** ${state.conversationHistory.length}`);
+  lines.push('', '## Conversation', '');
+
+  state.conversationHistory.forEach(msg => {
+    if (msg.role === 'system') {
+      lines.push(`---`, '', `*${msg.text}* · ${msg.timestamp.toLocaleTimeString()}`, '');
+      return;
+    }
+    const cutOff = msg.timing?.interrupted ? ' · *(interrupted)*' : '';
+    lines.push(`**${roleName(msg)}** · ${msg.timestamp.toLocaleTimeString()}${cutOff}`, '');
+    lines.push(msg.text, '');
+    if (msg.translatedText && msg.translatedText !== msg.text) {
+      lines.push(`*English:* ${msg.translatedText}`, '');
+    }
+    if (msg.correction) {
+      lines.push(`*Better:* ${msg.correction.correctedText}`, '');
+      msg.correction.errors.forEach(e => lines.push(`- ~~${e.original}~~ → ${e.corrected} (${e.category}): ${e.explanation}`));
+      if (msg.correction.errors.length) lines.push('');
+    }
+    if (msg.guidance) {
+      lines.push(`> **Coach (${msg.guidance.category}):** ${msg.guidance.text}`, '');
+    }
+  });
+
+  const activeNodes = state.mindMapNodes.filter(n => n.type !== 'root' && n.type !== 'marker' && n.status === 'active');
+  const potentialNodes = state.mindMapNodes.filter(n => n.status === 'potential');
+  if (activeNodes.length || potentialNodes.length) {
+    lines.push('## Context Tree', '');
+    activeNodes.forEach(n => lines.push(`- **${n.label}** (${n.type})${n.description ? ` — ${n.description}` : ''}`));
+    if (potentialNodes.length) {
+      lines.push('', '### Suggested Next Topics', '');
+      potentialNodes.forEach(n => lines.push(`- ${n.label}${n.description ? ` — ${n.description}` : ''}`));
+    }
+    lines.push('');
+  }
+
+  const delivery = deliveryFor(state);
+  if (delivery) {
+    lines.push('## Delivery', '');
+    deliverySummaryLines(delivery).forEach(line => lines.push(`- ${line}`));
+    lines.push('', '| Turn | Words | WPM | Pause before | Fillers |', '| --- | --- | --- | --- | --- |');
+    delivery.turns.forEach((t, i) => {
+      const pause = t.pauseBeforeMs === null ? '–' : formatSeconds(t.pauseBeforeMs);
+      lines.push(`| ${i + 1}${t.interrupted ? ' (interrupted)' : ''} | ${t.words} | ${t.wpm ?? '–'} | ${pause} | ${t.fillerCount} |`);
+    });
+    lines.push('');
+  }
+
+  if (state.report) {
+    lines.push(reportToMarkdown(state.report));
+  }
+
+  return lines.join('\n');
+};
+
+// --- SUBTITLES (SRT / WebVTT) ---
+
+// Rough speaking rate used when a turn has no recorded end or following message to bound it
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1000;
+
+interface Cue {
+  start: number; // ms from session start
+  end: number;
+  text: string;
+}
+
+// A blank line ends a cue and a "-->" reads as a timing line, so cue text has neither
+const toCueText = (text: string) => text
+  .split(/\r?\n/)
+  .map(line => line.trim())
+  .filter(Boolean)
+  .join('\n')
+  .replace(/-->/g, '->');
+
+// WebVTT cue text is markup, where "&" and "<" start entities and tags
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+const buildCues = (allMessages: ChatMessage[]): Cue[] => {
+  const history = allMessages.filter(m => m.role !== 'system');
+  if (history.length === 0) return [];
+  const origin = history[0].timestamp.getTime();
+
+  return history.map((msg, i) => {
+    const start = msg.timestamp.getTime() - origin;
+    // Spoken turns know when they ended, unless only the finished transcript was timed
+    const spokenEnd = msg.timing ? msg.timing.endedAt.getTime() - origin : 0;
+    const estimated = spokenEnd - start >= MIN_CUE_MS
+      ? spokenEnd
+      : start + Math.max(MIN_CUE_MS, (msg.text.split(/\s+/).length / WORDS_PER_SECOND) * 1000);
+    const next = history[i + 1];
+    const end = next ? Math.min(estimated, next.timestamp.getTime() - origin) : estimated;
+    return {
+      start,
+      end: Math.max(end, start + 1),
+      text: toCueText(`${roleName(msg)}: ${msg.text}`),
+    };
+  });
+};
+
+const formatCueTime = (ms: number, separator: ',' | '.'): string => {
+  const pad = (n: number, w = 2) => String(Math.floor(n)).padStart(w, '0');
+  const hours = ms / 3600000;
+  const minutes = (ms % 3600000) / 60000;
+  const seconds = (ms % 60000) / 1000;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// How long the SRT delivery summary stays up at the start
+const SUMMARY_CUE_MS = 5000;
+
+// SRT has no comments, so the delivery summary is a leading cue (shown over the first turn)
+export const exportSessionSrt = (state: DojoState): string => {
+  const delivery = deliveryFor(state);
+  const summary: Cue[] = delivery
+    ? [{ start: 0, end: SUMMARY_CUE_MS, text: toCueText(['Delivery', ...deliverySummaryLines(delivery)].join('\n')) }]
+    : [];
+  return [...summary, ...buildCues(state.conversationHistory)]
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+};
+
+export const exportSessionVtt = (state: DojoState): string => {
+  const cues = buildCues(state.conversationHistory)
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${escapeVtt(cue.text)}\n`);
+  // WebVTT carries the delivery summary as a NOTE block
+  const delivery = deliveryFor(state);
+  const note = delivery ? ['NOTE Delivery', ...deliverySummaryLines(delivery).map(line => line.replace(/-->/g, '->')), ''] : [];
+  return ['WEBVTT', '', ...note, ...cues].join('\n');
+};
+
+// --- DOWNLOAD ---
+
+const FORMAT_META: Record<ExportFormat, { ext: string; mime: string }> = {
+  json: { ext: 'json', mime: 'application/json' },
+  markdown: { ext: 'md', mime: 'text/markdown' },
+  srt: { ext: 'srt', mime: 'application/x-subrip' },
+  vtt: { ext: 'vtt', mime: 'text/vtt' },
+};
+
+export const downloadFile = (content: string | Blob, filename: string, mime: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadSession = (format: ExportFormat, state: DojoState, title: string, createdAt?: Date) => {
+  let content: string;
+  switch (format) {
+    case 'json': content = exportSessionJson(state, title, createdAt); break;
+    case 'markdown': content = exportSessionMarkdown(state, title); break;
+    case 'srt': content = exportSessionSrt(state); break;
+    case 'vtt': content = exportSessionVtt(state); break;
+  }
+  const { ext, mime } = FORMAT_META[format];
+  const date = new Date().toISOString().split('T')[0];
+  downloadFile(content, `ContextDojo_Session_${date}.${ext}`, mime);
+};
@@ -0,0 +1,189 @@
+import { ChatMessage, DojoState, ReportJudgement, SessionReport, SkillEvidence, SkillId, SkillScore } from "../types";
+import { countFillers, totalFillers } from "../constants/fillerWords";
+import { judgeSession } from "./geminiService";
+
+export const SKILL_ORDER: SkillId[] = [
+  'active_listening',
+  'question_asking',
+  'turn_balance',
+  'topic_maintenance',
+  'filler_words',
+  'politeness_register',
+];
+
+const MAX_QUOTE_WORDS = 15;
+const CJK_PATTERN = /[぀-ヿ㐀-鿿]/;
+
+// Word count that stays meaningful for CJK text (counted per character)
+export const countWords = (text: string): number => {
+  const trimmed = text.trim();
+  if (!trimmed) return 0;
+  if (CJK_PATTERN.test(trimmed)) return trimmed.replace(/\s+/g, '').length;
+  return trimmed.split(/\s+/).length;
+};
+
+const toQuote = (text: string): string => {
+  const words = text.trim().split(/\s+/);
+  return words.length > MAX_QUOTE_WORDS ? `${words.slice(0, MAX_QUOTE_WORDS).join(' ')}…` : text.trim();
+};
+
+const clampScore = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+
+type IndexedMessage = { msg: ChatMessage; index: number };
+
+const evidenceFor = (items: IndexedMessage[]): SkillEvidence[] =>
+  items.map(({ msg, index }) => ({ messageIndex: index, quote: toQuote(msg.text) }));
+
+// --- METRIC-BASED SKILLS ---
+
+const scoreQuestionAsking = (userTurns: IndexedMessage[]): SkillScore => {
+  const asking = userTurns.filter(({ msg }) => /[?？]|吗/.test(msg.text));
+  const ratio = userTurns.length ? asking.length / userTurns.length : 0;
+  // Asking in roughly 40% of turns is a healthy conversational rhythm
+  return {
+    skill: 'question_asking',
+    score: clampScore((ratio / 0.4) * 100),
+    summary: `Asked questions in ${asking.length} of ${userTurns.length} turns.`,
+    evidence: evidenceFor(asking.length ? asking.slice(0, 2) : userTurns.slice(-1)),
+    source: 'metric',
+  };
+};
+
+const scoreTurnBalance = (userTurns: IndexedMessage[], agentTurns: IndexedMessage[]): SkillScore => {
+  const userWords = userTurns.reduce((sum, t) => sum + countWords(t.msg.text), 0);
+  const agentWords = agentTurns.reduce((sum, t) => sum + countWords(t.msg.text), 0);
+  const share = userWords + agentWords > 0 ? userWords / (userWords + agentWords) : 0;
+  const longest = [...userTurns].sort((a, b) => countWords(b.msg.text) - countWords(a.msg.text))[0];
+  return {
+    skill: 'turn_balance',
+    score: clampScore(100 - Math.abs(share - 0.5) * 200),
+    summary: `You spoke ${Math.round(share * 100)}% of the words (ideal is around 50%).`,
+    evidence: longest ? evidenceFor([longest]) : [],
+    source: 'metric',
+  };
+};
+
+const scoreTopicMaintenance = (state: DojoState, userTurns: IndexedMessage[]): SkillScore => {
+  const samples = state.focusHistory || [];
+  if (samples.length === 0) {
+    return { skill: 'topic_maintenance', score: 100, summary: 'No drift was measured this session.', evidence: [], source: 'metric' };
+  }
+  const avgDrift = samples.reduce((sum, f) => sum + f.score, 0) / samples.length;
+  const worst = samples.reduce((a, b) => (b.score > a.score ? b : a));
+  // The user turn that led to the biggest drift
+  const culprit = [...userTurns].reverse().find(t => t.msg.timestamp.getTime() <= worst.timestamp.getTime());
+  return {
+    skill: 'topic_maintenance',
+    score: clampScore(100 - avgDrift),
+    summary: `Average drift ${Math.round(avgDrift)}/100; biggest jump scored ${worst.score}.`,
+    evidence: culprit ? evidenceFor([culprit]) : [],
+    source: 'metric',
+  };
+};
+
+const scoreFillerWords = (userTurns: IndexedMessage[], language?: string): SkillScore => {
+  let fillers = 0;
+  let words = 0;
+  let worst: { turn: IndexedMessage; count: number } | null = null;
+
+  for (const turn of userTurns) {
+    const count = totalFillers(countFillers(turn.msg.text, language));
+    fillers += count;
+    words += countWords(turn.msg.text);
+    if (count > 0 && (!worst || count > worst.count)) worst = { turn, count };
+  }
+
+  const per100 = words ? (fillers / words) * 100 : 0;
+  return {
+    skill: 'filler_words',
+    score: clampScore(100 - per100 * 10),
+    summary: `${fillers} filler words (${per100.toFixed(1)} per 100 words).`,
+    evidence: worst ? evidenceFor([worst.turn]) : [],
+    source: 'metric',
+  };
+};
+
+// --- MODEL-JUDGED SKILLS ---
+
+// Keeps only evidence that points at a real user message; replaces misquotes with the actual text
+const sanitizeJudgement = (judgement: ReportJudgement, history: ChatMessage[]): SkillScore[] => {
+  return judgement.skills.map(s => ({
+    skill: s.skill,
+    score: clampScore(s.score),
+    summary: s.summary,
+    evidence: s.evidence
+      .filter(e => history[e.message_index]?.role === 'user')
+      .map(e => {
+        const text = history[e.message_index].text;
+        return { messageIndex: e.message_index, quote: text.includes(e.quote) ? e.quote : toQuote(text) };
+      }),
+    source: 'model' as const,
+  }));
+};
+
+export const generateSessionReport = async (state: DojoState): Promise<SessionReport> => {
+  const indexed = state.conversationHistory.map((msg, index) => ({ msg, index }));
+  const userTurns = indexed.filter(t => t.msg.role === 'user');
+  const agentTurns = indexed.filter(t => t.msg.role === 'model');
+
+  const judgement = await judgeSession(state.conversationHistory, state);
+  const modelSkills = judgement.source === 'model' ? sanitizeJudgement(judgement.data, state.conversationHistory) : [];
+
+  const skills = [
+    ...modelSkills,
+    scoreQuestionAsking(userTurns),
+    scoreTurnBalance(userTurns, agentTurns),
+    scoreTopicMaintenance(state, userTurns),
+    scoreFillerWords(userTurns, state.practiceLanguage),
+  ].sort((a, b) => SKILL_ORDER.indexOf(a.skill) - SKILL_ORDER.indexOf(b.skill));
+
+  // Without a model judgement, the lowest metric scores become the improvement list
+  const improvements = judgement.source === 'model' && judgement.data.improvements.length
+    ? judgement.data.improvements.slice(0, 3)
+    : [...skills].sort((a, b) => a.score - b.score).slice(0, 3).map(s => s.summary);
+
+  return {
+    generatedAt: new Date(),
+    skills,
+    strengths: judgement.source === 'model' ? judgement.data.strengths : [],
+    improvements,
+    topics: state.mindMapNodes
+      .filter(n => n.status === 'active' && n.type !== 'root' && n.type !== 'marker')
+      .map(n => n.label),
+  };
+};
+
+// --- EXPORT ---
+
+const SKILL_TITLES: Record<SkillId, string> = {
+  active_listening: 'Active Listening',
+  question_asking: 'Question Asking',
+  turn_balance: 'Turn Length Balance',
+  topic_maintenance: 'Topic Maintenance',
+  filler_words: 'Filler Words',
+  politeness_register: 'Politeness Register',
+};
+
+export const reportToMarkdown = (report: SessionReport): string => {
+  const lines: string[] = ['## Coaching Report', '', `*Generated ${report.generatedAt.toLocaleString()}*`, ''];
+
+  lines.push('| Skill | Score | Notes |', '| --- | --- | --- |');
+  report.skills.forEach(s => lines.push(`| ${SKILL_TITLES[s.skill]} | ${s.score} | ${s.summary.replace(/\|/g, '\\|')} |`));
+  lines.push('');
+
+  report.skills.forEach(s => {
+    if (s.evidence.length === 0) return;
+    lines.push(`**${SKILL_TITLES[s.skill]}**`, '');
+    s.evidence.forEach(e => lines.push(`> "${e.quote}" — message ${e.messageIndex + 1}`));
+    lines.push('');
+  });
+
+  if (report.strengths.length) {
+    lines.push('### Strengths', '', ...report.strengths.map(s => `- ${s}`), '');
+  }
+  lines.push('### Top 3 To Improve', '', ...report.improvements.map((s, i) => `${i + 1}. ${s}`), '');
+  if (report.topics.length) {
+    lines.push('### Topics Covered', '', ...report.topics.map(t => `- ${t}`), '');
+  }
+  return lines.join('\n');
+};
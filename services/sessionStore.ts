@@ -0,0 +1,152 @@
+import { DojoState, SavedSession, TurnAudio } from "../types";
+import { withMessageIds } from "./messageLinks";
+
+const DB_NAME = 'contextdojo';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'turnAudio';
+const LAST_SESSION_KEY = 'contextdojo_last_session_id';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+        const store = db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Wraps a single-request transaction in a Promise
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SESSION_STORE
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createSessionId = (): string => {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Derive a readable default title from the first thing the user said
+export const deriveSessionTitle = (state: DojoState): string => {
+  const firstUserMsg = state.conversationHistory.find(m => m.role === 'user');
+  if (!firstUserMsg) return 'New Session';
+  const text = (firstUserMsg.translatedText || firstUserMsg.text).trim();
+  return text.length > 48 ? `${text.slice(0, 45)}...` : text;
+};
+
+// Records written by older versions are brought up to the current shape as they are read
+const upgradeSession = (session: SavedSession): SavedSession => {
+  const state = withMessageIds(session.state);
+  return state === session.state ? session : { ...session, state };
+};
+
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const sessions = await withStore<SavedSession[]>('readonly', store => store.getAll());
+  return sessions.map(upgradeSession).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const loadSession = async (id: string): Promise<SavedSession | null> => {
+  const session = await withStore<SavedSession | undefined>('readonly', store => store.get(id));
+  return session ? upgradeSession(session) : null;
+};
+
+export const saveSession = async (session: SavedSession): Promise<void> => {
+  await withStore('readwrite', store => store.put(session));
+  localStorage.setItem(LAST_SESSION_KEY, session.id);
+};
+
+// Autosave entry point: keeps createdAt and any user-chosen title from the stored record
+export const persistSessionState = async (id: string, state: DojoState): Promise<SavedSession> => {
+  const existing = await loadSession(id);
+  const now = new Date();
+  const session: SavedSession = {
+    id,
+    title: existing?.titleEdited ? existing.title : deriveSessionTitle(state),
+    titleEdited: existing?.titleEdited,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    state,
+  };
+  await saveSession(session);
+  return session;
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const session = await loadSession(id);
+  if (!session) return;
+  await withStore('readwrite', store => store.put({ ...session, title, titleEdited: true }));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  const audioKeys = await withStore<IDBValidKey[]>('readonly', store => store.index('sessionId').getAllKeys(id), AUDIO_STORE);
+  await Promise.all(audioKeys.map(key => withStore('readwrite', store => store.delete(key), AUDIO_STORE)));
+  if (localStorage.getItem(LAST_SESSION_KEY) === id) {
+    localStorage.removeItem(LAST_SESSION_KEY);
+  }
+};
+
+// --- TURN AUDIO ---
+
+export const turnAudioId = (sessionId: string, messageId: string, take: number) => `${sessionId}:${messageId}:${take}`;
+
+export const listTurnAudio = (sessionId: string): Promise<TurnAudio[]> =>
+  withStore<TurnAudio[]>('readonly', store => store.index('sessionId').getAll(sessionId), AUDIO_STORE);
+
+export const saveTurnAudio = async (audio: TurnAudio): Promise<void> => {
+  await withStore('readwrite', store => store.put(audio), AUDIO_STORE);
+};
+
+export const deleteTurnAudio = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id), AUDIO_STORE);
+};
+
+export const getLastSessionId = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(LAST_SESSION_KEY);
+};
+
+// Case-insensitive match against the title and the message texts (original + English)
+export const searchSessions = (sessions: SavedSession[], query: string): SavedSession[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return sessions;
+  return sessions.filter(s =>
+    s.title.toLowerCase().includes(q) ||
+    s.state.conversationHistory.some(m =>
+      m.text.toLowerCase().includes(q) ||
+      (m.translatedText || '').toLowerCase().includes(q)
+    )
+  );
+};
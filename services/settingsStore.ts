@@ -0,0 +1,387 @@
+import { DEFAULT_MODELS, LlmSettings, ProviderId, getProvider } from "./llmProvider";
+import { VoiceTransportId } from "./voiceTransport";
+import { EncryptedEnvelope, VaultError, VaultKey, MAX_PBKDF2_ITERATIONS, MIN_PBKDF2_ITERATIONS, decryptJson, deriveVaultKey, encryptJson, isEncryptedEnvelope } from "./secretVault";
+import { PRACTICE_LANGUAGES } from "../constants/languages";
+
+// Every credential and option the app reads at runtime. Secrets are kept apart so they can be
+// encrypted with a passphrase; everything else is stored as plain JSON.
+
+export interface AppSettings {
+  provider: ProviderId;
+  models: Record<ProviderId, string>; // Remembered per provider
+  temperature: number;                // Conversation replies and openers
+  analysisTemperature: number;        // Analysis, corrections, graph updates, tangent scoring, merges and reports
+  openAiBaseUrl: string;
+  elevenLabsAgentId: string;
+  voiceTransport: VoiceTransportId | null; // null = ElevenLabs when an agent is set, else browser speech
+  defaultPracticeLanguage: string;
+}
+
+export interface SettingsSecrets {
+  geminiApiKey: string;
+  openAiApiKey: string;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  models: { ...DEFAULT_MODELS },
+  temperature: 0.7,
+  analysisTemperature: 0.1,
+  openAiBaseUrl: 'https://api.openai.com/v1',
+  elevenLabsAgentId: '',
+  voiceTransport: null,
+  defaultPracticeLanguage: 'auto',
+};
+
+export const EMPTY_SECRETS: SettingsSecrets = { geminiApiKey: '', openAiApiKey: '' };
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
+// OpenAI-compatible stand-in served by the dev server (see standInPlugin.ts)
+export const LOCAL_STAND_IN_PATH = '/standin/v1';
+
+const SETTINGS_KEY = 'contextdojo_settings';
+const LEGACY_LLM_KEY = 'contextdojo_llm_settings';
+const LEGACY_AGENT_KEY = 'elevenlabs_agent_id';
+const LEGACY_TRANSPORT_KEY = 'contextdojo_voice_transport';
+
+interface StoredSettings {
+  version: 1;
+  settings: AppSettings;
+  secrets?: SettingsSecrets;  // Plain, when no passphrase is set
+  vault?: EncryptedEnvelope;  // The secrets, encrypted with the passphrase
+}
+
+let settings: AppSettings | null = null;
+let secrets: SettingsSecrets = EMPTY_SECRETS;
+let vault: EncryptedEnvelope | null = null;
+let vaultKey: VaultKey | null = null; // Present once unlocked (or right after setting a passphrase)
+const listeners = new Set<() => void>();
+
+const isProvider = (value: unknown): value is ProviderId => value === 'gemini' || value === 'openai' || value === 'mock';
+const isTransport = (value: unknown): value is VoiceTransportId => value === 'elevenlabs' || value === 'browser' || value === 'scripted';
+const asString = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+const asNumber = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+// Fills gaps and drops wrongly typed values, so older or hand-edited records still load
+const normalizeSettings = (raw: any): AppSettings => {
+  const models = { ...DEFAULT_SETTINGS.models };
+  (Object.keys(models) as ProviderId[]).forEach(id => { models[id] = asString(raw?.models?.[id], models[id]); });
+  return {
+    provider: isProvider(raw?.provider) ? raw.provider : DEFAULT_SETTINGS.provider,
+    models,
+    temperature: asNumber(raw?.temperature, DEFAULT_SETTINGS.temperature),
+    analysisTemperature: asNumber(raw?.analysisTemperature, DEFAULT_SETTINGS.analysisTemperature),
+    openAiBaseUrl: asString(raw?.openAiBaseUrl, DEFAULT_SETTINGS.openAiBaseUrl),
+    elevenLabsAgentId: asString(raw?.elevenLabsAgentId, ''),
+    voiceTransport: isTransport(raw?.voiceTransport) ? raw.voiceTransport : null,
+    defaultPracticeLanguage: PRACTICE_LANGUAGES.some(l => l.code === raw?.defaultPracticeLanguage) ? raw.defaultPracticeLanguage : 'auto',
+  };
+};
+
+const normalizeSecrets = (raw: any): SettingsSecrets => ({
+  geminiApiKey: asString(raw?.geminiApiKey, ''),
+  openAiApiKey: asString(raw?.openAiApiKey, ''),
+});
+
+// Settings from before this store: the LLM panel, the voice widget's agent ID and backend choice
+const readLegacySettings = (): StoredSettings | null => {
+  const llmRaw = localStorage.getItem(LEGACY_LLM_KEY);
+  const agentId = localStorage.getItem(LEGACY_AGENT_KEY);
+  const transport = localStorage.getItem(LEGACY_TRANSPORT_KEY);
+  if (!llmRaw && !agentId && !transport) return null;
+
+  let llm: any = {};
+  try {
+    llm = llmRaw ? JSON.parse(llmRaw) : {};
+  } catch {
+    console.warn("Ignoring unreadable legacy LLM settings");
+  }
+  const provider = isProvider(llm.provider) ? llm.provider : DEFAULT_SETTINGS.provider;
+  return {
+    version: 1,
+    settings: normalizeSettings({
+      provider,
+      models: typeof llm.model === 'string' ? { [provider]: llm.model } : undefined,
+      temperature: llm.temperature,
+      openAiBaseUrl: llm.baseUrl,
+      elevenLabsAgentId: agentId || '',
+      voiceTransport: transport,
+    }),
+    secrets: { ...EMPTY_SECRETS, openAiApiKey: asString(llm.apiKey, '') },
+  };
+};
+
+const writeStored = () => {
+  const record: StoredSettings = { version: 1, settings: settings! };
+  if (vault) record.vault = vault;
+  else record.secrets = secrets;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(record));
+};
+
+const ensureLoaded = (): AppSettings => {
+  if (settings) return settings;
+  settings = { ...DEFAULT_SETTINGS };
+  if (typeof window === 'undefined') return settings;
+
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const stored: StoredSettings | null = raw ? JSON.parse(raw) : readLegacySettings();
+    if (stored) {
+      settings = normalizeSettings(stored.settings);
+      vault = isEncryptedEnvelope(stored.vault) ? stored.vault : null;
+      secrets = vault ? EMPTY_SECRETS : normalizeSecrets(stored.secrets);
+      if (!raw) {
+        writeStored();
+        [LEGACY_LLM_KEY, LEGACY_AGENT_KEY, LEGACY_TRANSPORT_KEY].forEach(key => localStorage.removeItem(key));
+      }
+    }
+  } catch (err) {
+    console.warn("Ignoring unreadable settings", err);
+  }
+  return settings;
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// --- ACCESS ---
+
+export const getSettings = (): AppSettings => ensureLoaded();
+
+// Empty while the stored secrets are locked
+export const getSecrets = (): SettingsSecrets => {
+  ensureLoaded();
+  return secrets;
+};
+
+export interface SettingsLockState {
+  encrypted: boolean; // Secrets are stored under a passphrase
+  locked: boolean;    // ...and haven't been unlocked in this tab yet
+}
+
+export const getLockState = (): SettingsLockState => {
+  ensureLoaded();
+  return { encrypted: vault !== null, locked: vault !== null && vaultKey === null };
+};
+
+export const subscribeSettings = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const toLlmSettings = (app: AppSettings, keys: SettingsSecrets): LlmSettings => ({
+  provider: app.provider,
+  model: app.models[app.provider],
+  temperature: app.temperature,
+  analysisTemperature: app.analysisTemperature,
+  baseUrl: app.openAiBaseUrl,
+  apiKey: app.provider === 'gemini' ? keys.geminiApiKey : app.provider === 'openai' ? keys.openAiApiKey : '',
+});
+
+export const getLlmSettings = (): LlmSettings => toLlmSettings(getSettings(), getSecrets());
+
+// --- SAVING ---
+
+// Secrets are left alone while locked; they can only change once the passphrase has been entered
+export const saveSettings = async (next: AppSettings, nextSecrets?: SettingsSecrets): Promise<void> => {
+  ensureLoaded();
+  settings = normalizeSettings(next);
+  if (nextSecrets && !getLockState().locked) {
+    secrets = normalizeSecrets(nextSecrets);
+    if (vaultKey) vault = await encryptJson(secrets, vaultKey);
+  }
+  writeStored();
+  notify();
+};
+
+export const updateSettings = (patch: Partial<AppSettings>) => saveSettings({ ...getSettings(), ...patch });
+
+// --- PASSPHRASE ---
+
+// Throws a VaultError on a wrong passphrase
+export const unlockSettings = async (passphrase: string): Promise<void> => {
+  ensureLoaded();
+  if (!vault) return;
+  const { value, vaultKey: key } = await decryptJson<SettingsSecrets>(vault, passphrase);
+  secrets = normalizeSecrets(value);
+  vaultKey = key;
+  notify();
+};
+
+// Forgets the decrypted secrets until the passphrase is entered again
+export const lockSettings = () => {
+  if (!vault) return;
+  vaultKey = null;
+  secrets = EMPTY_SECRETS;
+  notify();
+};
+
+// A passphrase encrypts the stored secrets; null stores them in plain text again
+export const setPassphrase = async (passphrase: string | null): Promise<void> => {
+  ensureLoaded();
+  if (getLockState().locked) throw new VaultError('Unlock the settings first');
+  if (passphrase) {
+    vaultKey = await deriveVaultKey(passphrase);
+    vault = await encryptJson(secrets, vaultKey);
+  } else {
+    vaultKey = null;
+    vault = null;
+  }
+  writeStored();
+  notify();
+};
+
+// --- VALIDATION ---
+
+export type SettingsField =
+  | 'model' | 'temperature' | 'analysisTemperature' | 'openAiBaseUrl'
+  | 'geminiApiKey' | 'openAiApiKey' | 'elevenLabsAgentId' | 'defaultPracticeLanguage';
+
+export type SettingsIssue = 'required' | 'invalid_url' | 'invalid_format' | 'out_of_range';
+
+const KEY_PATTERN = /^[A-Za-z0-9_\-.]{20,}$/;
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Only what the chosen provider needs is required; optional fields are checked when filled in
+export const validateSettings = (app: AppSettings, keys: SettingsSecrets, { locked = false } = {}): Partial<Record<SettingsField, SettingsIssue>> => {
+  const issues: Partial<Record<SettingsField, SettingsIssue>> = {};
+  const inRange = (n: number) => n >= TEMPERATURE_RANGE.min && n <= TEMPERATURE_RANGE.max;
+  const model = app.models[app.provider].trim();
+
+  if (!model) issues.model = 'required';
+  else if (/\s/.test(model)) issues.model = 'invalid_format';
+  if (!inRange(app.temperature)) issues.temperature = 'out_of_range';
+  if (!inRange(app.analysisTemperature)) issues.analysisTemperature = 'out_of_range';
+
+  if (app.provider === 'openai' && !isHttpUrl(app.openAiBaseUrl)) issues.openAiBaseUrl = 'invalid_url';
+  // Locked secrets can't be checked, and aren't being edited
+  if (!locked) {
+    if (app.provider === 'gemini' && !keys.geminiApiKey) issues.geminiApiKey = 'required';
+    else if (keys.geminiApiKey && !KEY_PATTERN.test(keys.geminiApiKey)) issues.geminiApiKey = 'invalid_format';
+    // Local OpenAI-compatible servers usually need no key
+    if (keys.openAiApiKey && /\s/.test(keys.openAiApiKey)) issues.openAiApiKey = 'invalid_format';
+  }
+
+  if (app.voiceTransport === 'elevenlabs' && !app.elevenLabsAgentId) issues.elevenLabsAgentId = 'required';
+  else if (app.elevenLabsAgentId && !AGENT_ID_PATTERN.test(app.elevenLabsAgentId)) issues.elevenLabsAgentId = 'invalid_format';
+  if (!PRACTICE_LANGUAGES.some(l => l.code === app.defaultPracticeLanguage)) issues.defaultPracticeLanguage = 'invalid_format';
+
+  return issues;
+};
+
+// --- CONNECTIVITY ---
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+const PING_TIMEOUT_MS = 15000;
+
+// One tiny structured request through the same provider code the app uses. Point the
+// OpenAI-compatible provider at LOCAL_STAND_IN_PATH to check the request path without a real service.
+export const testConnection = async (app: AppSettings, keys: SettingsSecrets): Promise<ConnectionTestResult> => {
+  const started = Date.now();
+  const provider = getProvider(toLlmSettings(app, keys));
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new Error('Timed out')), PING_TIMEOUT_MS); });
+  try {
+    const raw = await Promise.race([
+      provider.generateJson({
+        task: 'connection_test',
+        prompt: 'Reply with {"ok": true}.',
+        schema: { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] },
+        temperature: 0, // Pinned: a connectivity ping, not a task the settings tune
+      }),
+      timeout,
+    ]);
+    JSON.parse(raw);
+    return { ok: true, latencyMs: Date.now() - started };
+  } catch (err) {
+    return { ok: false, latencyMs: Date.now() - started, error: err instanceof Error ? err.message : String(err) };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// --- PROFILES ---
+
+export const SETTINGS_PROFILE_FORMAT = 'contextdojo-settings';
+export const SETTINGS_PROFILE_VERSION = 1;
+
+interface SettingsProfileFile {
+  format: typeof SETTINGS_PROFILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  settings: AppSettings;
+  secrets?: SettingsSecrets;
+  vault?: EncryptedEnvelope;
+}
+
+export class SettingsImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SettingsImportError';
+  }
+}
+
+// With includeSecrets, keys go along as stored: still encrypted when a passphrase is set
+export const exportSettingsProfile = (name: string, includeSecrets: boolean): string => {
+  const file: SettingsProfileFile = {
+    format: SETTINGS_PROFILE_FORMAT,
+    version: SETTINGS_PROFILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    settings: getSettings(),
+  };
+  if (includeSecrets) {
+    if (vault) file.vault = vault;
+    else file.secrets = secrets;
+  }
+  return JSON.stringify(file, null, 2);
+};
+
+// Replaces the current settings. Encrypted keys in the profile replace the stored ones and need
+// the profile's passphrase to unlock; plain keys are encrypted with the current passphrase if one is set.
+export const importSettingsProfile = async (raw: string): Promise<{ name: string; locked: boolean }> => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new SettingsImportError('File is not valid JSON');
+  }
+  if (!data || data.format !== SETTINGS_PROFILE_FORMAT) throw new SettingsImportError('Not a ContextDojo settings profile');
+  if (typeof data.version !== 'number' || data.version > SETTINGS_PROFILE_VERSION) {
+    throw new SettingsImportError(`Unsupported profile version: ${data.version}`);
+  }
+  if (!data.settings || typeof data.settings !== 'object') throw new SettingsImportError('Profile has no settings');
+  if (data.vault !== undefined && !isEncryptedEnvelope(data.vault)) {
+    throw new SettingsImportError(`Profile's encrypted keys are unreadable or use an unsupported key derivation (${MIN_PBKDF2_ITERATIONS}–${MAX_PBKDF2_ITERATIONS} iterations)`);
+  }
+
+  ensureLoaded();
+  if (data.secrets && getLockState().locked) throw new SettingsImportError('Unlock your settings before importing keys');
+
+  settings = normalizeSettings(data.settings);
+  if (data.vault) {
+    vault = data.vault;
+    vaultKey = null;
+    secrets = EMPTY_SECRETS;
+  } else if (data.secrets) {
+    secrets = normalizeSecrets(data.secrets);
+    if (vaultKey) vault = await encryptJson(secrets, vaultKey);
+  }
+  writeStored();
+  notify();
+  return { name: typeof data.name === 'string' ? data.name : '', locked: getLockState().locked };
+};
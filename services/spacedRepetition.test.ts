@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewGrade, initialReviewState, isDue, scheduleReview } from './spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = new Date(Date.UTC(2026, 0, 1));
+const daysLater = (days: number) => new Date(start.getTime() + days * DAY_MS);
+
+// Reviews on the day each one falls due, starting from a new entry
+const reviewAll = (grades: ReviewGrade[]) =>
+  grades.reduce((state, grade) => scheduleReview(state, grade, state.due), initialReviewState(start));
+
+describe('scheduleReview', () => {
+  it('climbs the 1, 6, then interval × easiness ladder on passing grades', () => {
+    const first = scheduleReview(initialReviewState(start), 4, start);
+    expect(first).toEqual({ easiness: 2.5, intervalDays: 1, repetitions: 1, due: daysLater(1), lastReviewed: start });
+    expect(reviewAll([4, 4]).intervalDays).toBe(6);
+    const third = reviewAll([4, 4, 4]);
+    expect(third.intervalDays).toBe(15);
+    expect(third.due).toEqual(daysLater(1 + 6 + 15));
+  });
+
+  it('raises easiness on a perfect grade and lowers it on a hard pass', () => {
+    expect(scheduleReview(initialReviewState(start), 5, start).easiness).toBeCloseTo(2.6);
+    expect(scheduleReview(initialReviewState(start), 3, start).easiness).toBeCloseTo(2.36);
+  });
+
+  it('sends a failed entry back to tomorrow but keeps the lowered easiness', () => {
+    const failed = scheduleReview(reviewAll([5, 5, 5]), 2, start);
+    expect(failed.repetitions).toBe(0);
+    expect(failed.intervalDays).toBe(1);
+    expect(failed.due).toEqual(daysLater(1));
+    expect(failed.easiness).toBeCloseTo(2.8 - 0.32);
+  });
+
+  it('never lets easiness drop below 1.3', () => {
+    const state = reviewAll([0, 0, 0, 0]);
+    expect(state.easiness).toBe(1.3);
+    expect(scheduleReview(state, 1, start).easiness).toBe(1.3);
+  });
+});
+
+describe('isDue', () => {
+  it('is due from the scheduled moment on', () => {
+    const state = scheduleReview(initialReviewState(start), 4, start);
+    expect(isDue(state, new Date(daysLater(1).getTime() - 1))).toBe(false);
+    expect(isDue(state, daysLater(1))).toBe(true);
+    expect(isDue(initialReviewState(start), start)).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { ReviewState } from "../types";
+
+// SM-2 (SuperMemo 2) scheduling. Grades run 0-5; anything below 3 counts as forgotten.
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASINESS = 1.3;
+const PASSING_GRADE = 3;
+
+export const initialReviewState = (now: Date = new Date()): ReviewState => ({
+  easiness: 2.5,
+  intervalDays: 0,
+  repetitions: 0,
+  due: now,
+});
+
+export const scheduleReview = (state: ReviewState, grade: ReviewGrade, now: Date = new Date()): ReviewState => {
+  const easiness = Math.max(
+    MIN_EASINESS,
+    state.easiness + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade < PASSING_GRADE) {
+    // Forgotten: start the ladder again tomorrow, but keep the lowered easiness
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) intervalDays = 1;
+    else if (repetitions === 2) intervalDays = 6;
+    else intervalDays = Math.round(state.intervalDays * easiness);
+  }
+
+  return {
+    easiness,
+    intervalDays,
+    repetitions,
+    due: new Date(now.getTime() + intervalDays * DAY_MS),
+    lastReviewed: now,
+  };
+};
+
+export const isDue = (state: ReviewState, now: Date = new Date()) => state.due.getTime() <= now.getTime();
@@ -0,0 +1,169 @@
+import { ChatMessage } from "../../types";
+import { generateDojoResponse } from "../geminiService";
+import { VoiceAgentContext, VoiceTransport, VoiceTransportCallbacks } from "../voiceTransport";
+import { createTurnSegmenter, TurnSegmenter } from "../turnSegmenter";
+
+// The Web Speech recognizer isn't in TypeScript's DOM typings yet; this is the part we use
+interface Recognizer {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+type RecognizerConstructor = new () => Recognizer;
+
+const getRecognizerConstructor = (): RecognizerConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const w = window as any;
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+};
+
+export const isBrowserSpeechSupported = () =>
+  getRecognizerConstructor() !== null && typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+export interface BrowserSpeechTransportConfig {
+  language: string; // BCP-47 tag; '' leaves the choice to the browser
+  getContext: () => VoiceAgentContext;
+}
+
+// Recognition errors that just mean "nothing heard"; listening starts again
+const QUIET_ERRORS = new Set(['no-speech', 'aborted']);
+
+// Sentences are spoken (and shown) one at a time so the transcript keeps pace with the voice
+const splitSentences = (text: string) => text.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [text];
+
+// Local fallback with no agent service: the browser transcribes, generateDojoResponse answers,
+// speechSynthesis reads the answer out. Recognition stopping after a pause ends the learner's turn;
+// the learner talks again once the agent has finished speaking. Turns are cut by a turn segmenter.
+export const createBrowserSpeechTransport = (config: BrowserSpeechTransportConfig): VoiceTransport => {
+  let recognizer: Recognizer | null = null;
+  let live = false;
+  let callbacks: VoiceTransportCallbacks | null = null;
+  let turns: TurnSegmenter | null = null;
+  let heard = false; // Anything recognized since listening started
+  let mic: MediaStream | null = null;
+  // Contextual updates wait for the next reply and are passed to the agent as session notes
+  let pendingNotes: string[] = [];
+
+  const listen = () => {
+    if (!live || !recognizer) return;
+    heard = false;
+    callbacks?.onStatusChange('listening');
+    recognizer.start();
+  };
+
+  const speak = (text: string) => new Promise<void>(resolve => {
+    const sentences = splitSentences(text).filter(s => s.trim());
+    if (sentences.length === 0) return resolve();
+    sentences.forEach((sentence, i) => {
+      const utterance = new SpeechSynthesisUtterance(sentence);
+      if (config.language) utterance.lang = config.language;
+      utterance.onstart = () => { if (live) turns?.push({ type: 'agent_speech', text: sentence, at: Date.now() }); };
+      if (i === sentences.length - 1) {
+        utterance.onend = () => resolve();
+        utterance.onerror = () => resolve();
+      }
+      window.speechSynthesis.speak(utterance);
+    });
+  });
+
+  const reply = async (userText: string) => {
+    callbacks?.onStatusChange('thinking');
+    const { history, session } = config.getContext();
+    const notes: ChatMessage[] = pendingNotes.map((text, i) => ({ id: `note-${i}`, role: 'system', text, timestamp: new Date() }));
+    pendingNotes = [];
+
+    const result = await generateDojoResponse(userText, [...history, ...notes], session);
+    const replyText = result.data.reply_text || '';
+    if (!live) return;
+
+    callbacks?.onStatusChange('speaking');
+    turns?.push({ type: 'agent_speaking', at: Date.now() });
+    await speak(replyText);
+    if (!live) return;
+    turns?.push({ type: 'agent_listening', at: Date.now() });
+    listen();
+  };
+
+  return {
+    id: 'browser',
+
+    async start(handlers: VoiceTransportCallbacks) {
+      const Recognizer = getRecognizerConstructor();
+      if (!Recognizer || !('speechSynthesis' in window)) {
+        throw new Error('This browser has no speech recognition or synthesis');
+      }
+      callbacks = handlers;
+      // The agent answers each learner turn as soon as it is committed
+      turns = createTurnSegmenter({
+        ...handlers,
+        onUserTurnComplete: turn => {
+          handlers.onUserTurnComplete(turn);
+          reply(turn.text).catch(err => {
+            handlers.onError(err instanceof Error ? err : new Error(String(err)));
+            listen();
+          });
+        },
+      });
+      callbacks.onStatusChange('connecting');
+      // Ask for the mic up front so a refusal fails the start instead of the first turn; it stays open for recording
+      mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+      handlers.onMicStream?.(mic);
+
+      recognizer = new Recognizer();
+      recognizer.lang = config.language;
+      recognizer.continuous = false;
+      recognizer.interimResults = true;
+
+      recognizer.onresult = event => {
+        const results = Array.from(event.results);
+        const text = results.map(r => r[0].transcript).join('');
+        if (text.trim()) heard = true;
+        turns?.push({ type: 'user_speech', text, final: results.every(r => r.isFinal), at: Date.now() });
+      };
+
+      // Recognition stops by itself after a pause: that ends the learner's turn. Nothing heard, listen again.
+      recognizer.onend = () => {
+        if (!live) return;
+        if (!heard) return listen();
+        turns?.push({ type: 'user_silence', at: Date.now() });
+      };
+
+      recognizer.onerror = event => {
+        if (QUIET_ERRORS.has(event.error)) return;
+        // Anything else (mic blocked, network, unsupported language) ends the session
+        live = false;
+        turns?.end();
+        mic?.getTracks().forEach(track => track.stop());
+        callbacks?.onError(new Error(`Speech recognition error: ${event.error}`));
+        callbacks?.onStatusChange('disconnected');
+      };
+
+      live = true;
+      listen();
+    },
+
+    async stop() {
+      live = false;
+      recognizer?.abort();
+      recognizer = null;
+      window.speechSynthesis.cancel();
+      turns?.end();
+      turns = null;
+      mic?.getTracks().forEach(track => track.stop());
+      mic = null;
+      pendingNotes = [];
+      callbacks?.onStatusChange('disconnected');
+      callbacks = null;
+    },
+
+    sendContextualUpdate(text: string) {
+      pendingNotes.push(text);
+    },
+  };
+};
@@ -0,0 +1,93 @@
+import { Conversation } from '@11labs/client';
+import { VoiceTransport, VoiceTransportCallbacks } from "../voiceTransport";
+import { createTurnSegmenter, TurnSegmenter } from "../turnSegmenter";
+
+export interface ElevenLabsTransportConfig {
+  agentId: string;
+}
+
+// Hosted conversational agent. Its transcripts and mode changes are fed to a turn segmenter, which
+// decides where turns end. Each user transcript is a finished utterance, so several before a reply are
+// kept together. A barge-in is reported as an agent_response_correction (the reply cut to what was
+// actually spoken), which only reaches onDebug.
+export const createElevenLabsTransport = (config: ElevenLabsTransportConfig): VoiceTransport => {
+  let conversation: Conversation | null = null;
+  let segmenter: TurnSegmenter | null = null;
+  let mic: MediaStream | null = null;
+
+  return {
+    id: 'elevenlabs',
+
+    async start(callbacks: VoiceTransportCallbacks) {
+      if (!config.agentId) throw new Error('No ElevenLabs agent ID configured');
+
+      const turns = createTurnSegmenter(callbacks);
+      segmenter = turns;
+
+      callbacks.onStatusChange('connecting');
+      // Explicitly ask for mic permission first to avoid SDK timeout issues. The stream is also what gets recorded.
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      mic = stream;
+      callbacks.onMicStream?.(stream);
+
+      console.log("[ContextDojo] Starting Session with Agent ID:", config.agentId);
+      try {
+        conversation = await Conversation.startSession({
+          agentId: config.agentId,
+          connectionType: 'websocket',
+          onConnect: () => {
+            console.log("[ContextDojo] Connected to ElevenLabs");
+            callbacks.onStatusChange('listening');
+          },
+          onDisconnect: () => {
+            console.log("[ContextDojo] Disconnected");
+            turns.end();
+            callbacks.onStatusChange('disconnected');
+          },
+          onError: (message: string) => {
+            console.error("[ContextDojo] ElevenLabs Error:", message);
+            callbacks.onError(new Error(message));
+          },
+          onModeChange: ({ mode }) => {
+            callbacks.onStatusChange(mode === 'speaking' ? 'speaking' : 'listening');
+            turns.push({ type: mode === 'speaking' ? 'agent_speaking' : 'agent_listening', at: Date.now() });
+          },
+          onMessage: ({ message, source }) => {
+            if (!message) return;
+            if (source === 'user') {
+              turns.push({ type: 'user_speech', text: message, final: true, at: Date.now() });
+            } else {
+              turns.push({ type: 'agent_speech', text: message, at: Date.now() });
+            }
+          },
+          onDebug: (event: any) => {
+            if (event?.type !== 'agent_response_correction') return;
+            console.log("[ContextDojo] Agent interrupted");
+            const heardText = event.agent_response_correction_event?.corrected_agent_response;
+            turns.push({ type: 'interruption', heardText: typeof heardText === 'string' ? heardText : undefined, at: Date.now() });
+          },
+        });
+      } catch (err) {
+        // A bad agent ID or a failed connection must not leave the mic live
+        stream.getTracks().forEach(track => track.stop());
+        if (mic === stream) mic = null;
+        if (segmenter === turns) segmenter = null;
+        throw err;
+      }
+    },
+
+    async stop() {
+      const live = conversation;
+      conversation = null;
+      segmenter?.end();
+      segmenter = null;
+      mic?.getTracks().forEach(track => track.stop());
+      mic = null;
+      if (live) await live.endSession();
+    },
+
+    sendContextualUpdate(text: string) {
+      conversation?.sendContextualUpdate(text);
+    },
+  };
+};
@@ -0,0 +1,79 @@
+import { VoiceStatus, VoiceTransport, VoiceTransportCallbacks } from "../voiceTransport";
+import { createTurnSegmenter, TurnSegmenter, VoiceSignal } from "../turnSegmenter";
+
+export interface ScriptedTransportConfig {
+  timeScale?: number; // Multiplier on the recorded gaps; 0 plays the recording as fast as possible
+}
+
+export interface ScriptedTransport extends VoiceTransport {
+  sentUpdates: string[];  // Contextual updates the app sent, for assertions
+  finished: Promise<void>; // Resolves when the recording has played out (or the session stopped)
+}
+
+const CONNECT_DELAY_MS = 120;
+
+const STATUS_FOR_SIGNAL: Partial<Record<VoiceSignal['type'], VoiceStatus>> = {
+  agent_speaking: 'speaking',
+  agent_listening: 'listening',
+  user_speech: 'listening',
+};
+
+// Deterministic stand-in for a live agent: plays recorded signals through the turn segmenter, no mic
+// or network. A recorded session_end is skipped; the session stays connected until it is stopped.
+export const createScriptedTransport = (recording: VoiceSignal[], config: ScriptedTransportConfig = {}): ScriptedTransport => {
+  const scale = config.timeScale ?? 1;
+  let live = false;
+  let turns: TurnSegmenter | null = null;
+  let markFinished = () => {};
+  const sentUpdates: string[] = [];
+  const finished = new Promise<void>(resolve => { markFinished = resolve; });
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const play = async (callbacks: VoiceTransportCallbacks) => {
+    let previousAt = recording[0]?.at ?? 0;
+    for (const signal of recording) {
+      await wait(Math.max(0, signal.at - previousAt) * scale);
+      previousAt = signal.at;
+      if (!live) break;
+      if (signal.type === 'session_end') continue;
+
+      const status = STATUS_FOR_SIGNAL[signal.type];
+      if (status) callbacks.onStatusChange(status);
+      turns?.push({ ...signal, at: Date.now() });
+    }
+    markFinished();
+  };
+
+  let activeCallbacks: VoiceTransportCallbacks | null = null;
+
+  return {
+    id: 'scripted',
+    sentUpdates,
+    finished,
+
+    async start(callbacks: VoiceTransportCallbacks) {
+      activeCallbacks = callbacks;
+      turns = createTurnSegmenter(callbacks);
+      live = true;
+      callbacks.onStatusChange('connecting');
+      await wait(CONNECT_DELAY_MS * scale);
+      callbacks.onStatusChange('listening');
+      play(callbacks).catch(err => callbacks.onError(err instanceof Error ? err : new Error(String(err))));
+    },
+
+    async stop() {
+      if (!live) return;
+      live = false;
+      turns?.end();
+      turns = null;
+      activeCallbacks?.onStatusChange('disconnected');
+      activeCallbacks = null;
+      markFinished();
+    },
+
+    sendContextualUpdate(text: string) {
+      sentUpdates.push(text);
+    },
+  };
+};
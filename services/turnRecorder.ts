@@ -0,0 +1,91 @@
+// Local mic recording with MediaRecorder. Nothing leaves the browser.
+
+export interface AudioClip {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  recordedAt: Date;
+}
+
+export const isAudioRecordingSupported = () =>
+  typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+interface Piece {
+  stop(): Promise<AudioClip | null>; // null when nothing was captured
+}
+
+// One MediaRecorder run. Each run is a self-contained file, which is why turns are cut by restarting.
+const startPiece = (stream: MediaStream): Piece => {
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+
+  return {
+    stop: () => new Promise(resolve => {
+      if (recorder.state === 'inactive') return resolve(null);
+      recorder.onstop = () => {
+        if (chunks.length === 0) return resolve(null);
+        const mimeType = recorder.mimeType || chunks[0].type || 'audio/webm';
+        resolve({ blob: new Blob(chunks, { type: mimeType }), mimeType, durationMs: Date.now() - startedAt, recordedAt: new Date(startedAt) });
+      };
+      recorder.stop();
+    }),
+  };
+};
+
+export interface TurnRecorder {
+  beginTurn(): void;                     // The agent handed the floor back; drops what was recorded since the last cut
+  takeTurn(): Promise<AudioClip | null>; // A learner turn was committed; resolves to its audio
+  stop(): void;
+}
+
+// Records a live session's mic stream in pieces, cut at turn boundaries: a piece starts when the agent
+// goes back to listening and ends when the learner's turn commits. Pieces in between hold the agent's
+// reply (or silence) and are dropped.
+export const createTurnRecorder = (stream: MediaStream): TurnRecorder => {
+  let piece = startPiece(stream);
+  let stopped = false;
+
+  const cut = () => {
+    const finished = piece;
+    piece = startPiece(stream);
+    return finished.stop();
+  };
+
+  return {
+    beginTurn() {
+      if (!stopped) cut();
+    },
+    takeTurn() {
+      return stopped ? Promise.resolve(null) : cut();
+    },
+    stop() {
+      if (stopped) return;
+      stopped = true;
+      piece.stop();
+    },
+  };
+};
+
+export interface ClipRecording {
+  stop(): Promise<AudioClip | null>;
+  cancel(): void;
+}
+
+// Standalone recording on its own mic stream, for re-recording a turn outside a live session
+export const recordClip = async (): Promise<ClipRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const piece = startPiece(stream);
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  return {
+    stop: () => piece.stop().finally(release),
+    cancel: () => {
+      piece.stop();
+      release();
+    },
+  };
+};
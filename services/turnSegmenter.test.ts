@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { SegmenterOutput, VoiceSignal, replaySignals } from './turnSegmenter';
+import {
+  BARGE_IN_RECORDING, DEMO_VOICE_RECORDING, DOUBLE_UTTERANCE_RECORDING, EMPTY_AGENT_TURN_RECORDING,
+} from '../fixtures/voiceRecordings';
+
+// Committed turns only, with times back in recording ms so they read like the fixtures
+const committedTurns = (signals: VoiceSignal[]) =>
+  replaySignals(signals)
+    .filter((o): o is Extract<SegmenterOutput, { kind: 'user_turn' | 'agent_turn' }> => o.kind === 'user_turn' || o.kind === 'agent_turn')
+    .map(({ kind, turn }) => ({
+      kind,
+      text: turn.text,
+      startedAt: turn.startedAt.getTime(),
+      endedAt: turn.endedAt.getTime(),
+      interrupted: turn.interrupted,
+    }));
+
+describe('replaySignals', () => {
+  it('cuts the demo recording into alternating turns', () => {
+    expect(committedTurns(DEMO_VOICE_RECORDING)).toEqual([
+      { kind: 'agent_turn', text: 'Hi! What have you been up to lately?', startedAt: 0, endedAt: 2600, interrupted: false },
+      { kind: 'user_turn', text: 'I have been learning to cook recently.', startedAt: 3600, endedAt: 5100, interrupted: false },
+      { kind: 'agent_turn', text: 'That sounds interesting! What got you started with it?', startedAt: 6000, endedAt: 9000, interrupted: false },
+      { kind: 'user_turn', text: 'I have a job interview next week and I am nervous.', startedAt: 10400, endedAt: 12400, interrupted: false },
+      { kind: 'agent_turn', text: 'I see. How do you usually prepare for something like that?', startedAt: 13300, endedAt: 16800, interrupted: false },
+    ]);
+  });
+
+  it('commits a barged-in agent turn as interrupted, with only the part that was heard', () => {
+    expect(committedTurns(BARGE_IN_RECORDING)).toEqual([
+      { kind: 'user_turn', text: 'Can you recommend a book?', startedAt: 0, endedAt: 0, interrupted: false },
+      { kind: 'agent_turn', text: 'Sure! One I really like is', startedAt: 900, endedAt: 2400, interrupted: true },
+      { kind: 'user_turn', text: 'Sorry, something shorter please.', startedAt: 3600, endedAt: 3600, interrupted: false },
+      { kind: 'agent_turn', text: 'Then try a short story collection.', startedAt: 4300, endedAt: 6100, interrupted: false },
+    ]);
+  });
+
+  it('keeps both utterances before a reply in one learner turn', () => {
+    expect(committedTurns(DOUBLE_UTTERANCE_RECORDING)).toEqual([
+      {
+        kind: 'user_turn',
+        text: 'Yesterday I went to the market. And then I cooked dinner for my friends.',
+        startedAt: 0,
+        endedAt: 2900,
+        interrupted: false,
+      },
+      { kind: 'agent_turn', text: 'What did you cook?', startedAt: 3700, endedAt: 5000, interrupted: false },
+    ]);
+  });
+
+  it('drops an agent turn without text and keeps a resumed reply as one turn', () => {
+    expect(committedTurns(EMPTY_AGENT_TURN_RECORDING)).toEqual([
+      { kind: 'user_turn', text: 'Hmm, let me think.', startedAt: 0, endedAt: 0, interrupted: false },
+      { kind: 'user_turn', text: 'I think I prefer the mountains.', startedAt: 3200, endedAt: 3200, interrupted: false },
+      { kind: 'agent_turn', text: 'Why the mountains?', startedAt: 4000, endedAt: 5600, interrupted: false },
+    ]);
+  });
+
+  it('marks the agent interrupted when the learner talks over a reply that is still playing', () => {
+    expect(committedTurns([
+      { type: 'agent_speaking', at: 0 },
+      { type: 'agent_speech', text: 'Let me tell you about', at: 100 },
+      { type: 'user_speech', text: 'Wait', final: false, at: 700 },
+      { type: 'agent_speaking', at: 1500 },
+    ])).toEqual([
+      { kind: 'agent_turn', text: 'Let me tell you about', startedAt: 0, endedAt: 700, interrupted: true },
+      { kind: 'user_turn', text: 'Wait', startedAt: 700, endedAt: 700, interrupted: true },
+    ]);
+  });
+});
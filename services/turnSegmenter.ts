@@ -0,0 +1,224 @@
+import { TurnTiming } from "../types";
+
+// Raw voice-session observations, in arrival order. `at` is epoch ms.
+export type VoiceSignal =
+  | { type: 'user_speech'; text: string; final: boolean; at: number } // final = this utterance won't change again
+  | { type: 'user_silence'; at: number }                              // The recognizer decided the learner is done
+  | { type: 'agent_speech'; text: string; at: number }                // Next piece of the agent's reply text
+  | { type: 'agent_speaking'; at: number }
+  | { type: 'agent_listening'; at: number }
+  | { type: 'interruption'; heardText?: string; at: number }          // The learner cut the agent off; heardText = what was said before that
+  | { type: 'tick'; at: number }
+  | { type: 'session_end'; at: number };
+
+export interface VoiceTurn extends TurnTiming {
+  text: string;
+}
+
+export type SegmenterOutput =
+  | { kind: 'user_transcript'; text: string } // Whole learner turn so far
+  | { kind: 'agent_chunk'; text: string }
+  | { kind: 'user_turn'; turn: VoiceTurn }
+  | { kind: 'agent_turn'; turn: VoiceTurn };
+
+interface OpenUserTurn {
+  utterances: string[]; // Finished utterances, kept in order
+  partial: string;      // The utterance still being recognized
+  startedAt: number;
+  lastHeardAt: number;
+}
+
+interface OpenAgentTurn {
+  text: string;
+  startedAt: number;
+  stoppedAt: number | null; // Set once the agent goes quiet; the turn commits after AGENT_SETTLE_MS
+  interrupted: boolean;
+}
+
+export interface SegmenterState {
+  user: OpenUserTurn | null;
+  agent: OpenAgentTurn | null;
+}
+
+// How long a quiet agent turn stays open, so a late interruption notice or a resumed reply lands on it
+export const AGENT_SETTLE_MS = 800;
+
+export const INITIAL_SEGMENTER_STATE: SegmenterState = { user: null, agent: null };
+
+const userText = (turn: OpenUserTurn) => [...turn.utterances, turn.partial].filter(Boolean).join(' ');
+
+const toTurn = (text: string, startedAt: number, endedAt: number, interrupted: boolean): VoiceTurn => ({
+  text,
+  startedAt: new Date(startedAt),
+  endedAt: new Date(Math.max(startedAt, endedAt)),
+  interrupted,
+});
+
+// Appends with a space unless either side already has one (full responses vs. sentence pieces)
+const joinSpeech = (soFar: string, next: string) =>
+  !soFar || /\s$/.test(soFar) || /^\s/.test(next) ? next : ` ${next}`;
+
+// Pure transition: one signal in, the new state and whatever it completed out.
+// - The learner talking while the agent still speaks is a barge-in: the agent turn commits as interrupted.
+// - Several learner utterances before the agent answers make one turn; none of them is overwritten.
+// - The agent starting to answer commits the learner turn, interrupted if an utterance was still in progress.
+// - Agent turns without any text are dropped instead of committed.
+export const stepSegmenter = (state: SegmenterState, signal: VoiceSignal): { state: SegmenterState; outputs: SegmenterOutput[] } => {
+  const outputs: SegmenterOutput[] = [];
+  let { user, agent } = state;
+
+  const closeUser = (interrupted: boolean) => {
+    if (user) {
+      const text = userText(user);
+      if (text) outputs.push({ kind: 'user_turn', turn: toTurn(text, user.startedAt, user.lastHeardAt, interrupted) });
+    }
+    user = null;
+  };
+
+  const closeAgent = (at: number, interrupted: boolean) => {
+    if (agent) {
+      const text = agent.text.trim();
+      if (text) {
+        outputs.push({ kind: 'agent_turn', turn: toTurn(text, agent.startedAt, agent.stoppedAt ?? at, agent.interrupted || interrupted) });
+      }
+    }
+    agent = null;
+  };
+
+  const openAgent = (at: number) => {
+    // The learner's turn ends when the agent starts answering
+    if (user) closeUser(Boolean(user.partial));
+    if (agent?.stoppedAt != null) closeAgent(at, false);
+    if (!agent) agent = { text: '', startedAt: at, stoppedAt: null, interrupted: false };
+  };
+
+  switch (signal.type) {
+    case 'user_speech': {
+      const text = signal.text.trim();
+      if (!text) break;
+      if (agent) closeAgent(signal.at, agent.stoppedAt === null);
+      const turn: OpenUserTurn = user
+        ? { ...user, utterances: [...user.utterances] }
+        : { utterances: [], partial: '', startedAt: signal.at, lastHeardAt: signal.at };
+      if (signal.final) {
+        turn.utterances.push(text);
+        turn.partial = '';
+      } else {
+        turn.partial = text;
+      }
+      turn.lastHeardAt = signal.at;
+      user = turn;
+      outputs.push({ kind: 'user_transcript', text: userText(turn) });
+      break;
+    }
+
+    case 'user_silence':
+      closeUser(false);
+      break;
+
+    case 'agent_speech': {
+      if (!signal.text.trim()) break;
+      openAgent(signal.at);
+      const piece = joinSpeech(agent!.text, signal.text);
+      agent = { ...agent!, text: agent!.text + piece };
+      outputs.push({ kind: 'agent_chunk', text: piece });
+      break;
+    }
+
+    case 'agent_speaking':
+      // Audio resuming while the last turn settles is the same reply (new reply text opens a new turn)
+      if (agent?.stoppedAt != null) agent = { ...agent, stoppedAt: null };
+      else openAgent(signal.at);
+      break;
+
+    case 'agent_listening':
+      if (agent && agent.stoppedAt === null) agent = { ...agent, stoppedAt: signal.at };
+      break;
+
+    case 'interruption':
+      if (agent) {
+        agent = {
+          ...agent,
+          text: signal.heardText?.trim() || agent.text,
+          stoppedAt: agent.stoppedAt ?? signal.at,
+          interrupted: true,
+        };
+        closeAgent(signal.at, true);
+      }
+      break;
+
+    case 'tick':
+      if (agent?.stoppedAt != null && signal.at - agent.stoppedAt >= AGENT_SETTLE_MS) closeAgent(signal.at, false);
+      break;
+
+    case 'session_end':
+      // A reply still playing when the session ends was cut off
+      if (agent) closeAgent(signal.at, agent.stoppedAt === null);
+      closeUser(false);
+      break;
+  }
+
+  return { state: { user, agent }, outputs };
+};
+
+// Runs a recorded signal sequence and returns everything it produced, for replaying sessions offline
+export const replaySignals = (signals: VoiceSignal[]): SegmenterOutput[] => {
+  let state = INITIAL_SEGMENTER_STATE;
+  const outputs: SegmenterOutput[] = [];
+  for (const signal of signals) {
+    const step = stepSegmenter(state, signal);
+    state = step.state;
+    outputs.push(...step.outputs);
+  }
+  return outputs;
+};
+
+export interface TurnSegmenterHandlers {
+  onUserTranscript: (text: string) => void;
+  onAgentResponse: (text: string) => void;
+  onUserTurnComplete: (turn: VoiceTurn) => void;
+  onTurnComplete: (turn: VoiceTurn) => void;
+}
+
+export interface TurnSegmenter {
+  push(signal: VoiceSignal): void;
+  // Commits whatever is still open and stops the settle timer
+  end(at?: number): void;
+}
+
+// Live wrapper used by the transports: feeds signals through stepSegmenter and ticks while an agent turn settles
+export const createTurnSegmenter = (handlers: TurnSegmenterHandlers): TurnSegmenter => {
+  let state = INITIAL_SEGMENTER_STATE;
+  let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const emit = (output: SegmenterOutput) => {
+    switch (output.kind) {
+      case 'user_transcript': return handlers.onUserTranscript(output.text);
+      case 'agent_chunk': return handlers.onAgentResponse(output.text);
+      case 'user_turn': return handlers.onUserTurnComplete(output.turn);
+      case 'agent_turn': return handlers.onTurnComplete(output.turn);
+    }
+  };
+
+  const push = (signal: VoiceSignal) => {
+    if (settleTimer) clearTimeout(settleTimer);
+    settleTimer = null;
+
+    const step = stepSegmenter(state, signal);
+    state = step.state;
+    step.outputs.forEach(emit);
+
+    if (state.agent?.stoppedAt != null) {
+      settleTimer = setTimeout(() => push({ type: 'tick', at: Date.now() }), AGENT_SETTLE_MS);
+    }
+  };
+
+  return {
+    push,
+    end(at = Date.now()) {
+      push({ type: 'session_end', at });
+      if (settleTimer) clearTimeout(settleTimer);
+      settleTimer = null;
+    },
+  };
+};
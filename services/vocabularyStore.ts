@@ -0,0 +1,131 @@
+import { VocabEntry } from "../types";
+import { ReviewGrade, initialReviewState, isDue, scheduleReview } from "./spacedRepetition";
+
+const VOCABULARY_KEY = 'contextdojo_vocabulary';
+
+// Dismissed suggestions are remembered so the same word isn't proposed every session
+const DISMISSED_KEY = 'contextdojo_vocabulary_dismissed';
+
+export interface VocabDraft {
+  term: string;
+  gloss: string;
+  sourceSentence: string;
+  sessionId: string;
+}
+
+const createVocabId = () => `vocab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const termKey = (term: string) => term.trim().toLowerCase();
+
+const reviveEntry = (raw: any): VocabEntry => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  review: {
+    ...raw.review,
+    due: new Date(raw.review.due),
+    lastReviewed: raw.review.lastReviewed ? new Date(raw.review.lastReviewed) : undefined,
+  },
+});
+
+export const loadVocabulary = (): VocabEntry[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(VOCABULARY_KEY);
+    return stored ? JSON.parse(stored).map(reviveEntry) : [];
+  } catch (err) {
+    console.warn("Ignoring unreadable vocabulary notebook", err);
+    return [];
+  }
+};
+
+const saveVocabulary = (entries: VocabEntry[]) => {
+  localStorage.setItem(VOCABULARY_KEY, JSON.stringify(entries));
+};
+
+const loadDismissed = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const newEntry = (draft: VocabDraft, origin: VocabEntry['origin']): VocabEntry => ({
+  id: createVocabId(),
+  term: draft.term.trim(),
+  gloss: draft.gloss.trim(),
+  sourceSentence: draft.sourceSentence,
+  sessionId: draft.sessionId,
+  origin,
+  status: origin === 'manual' ? 'active' : 'suggested',
+  createdAt: new Date(),
+  review: initialReviewState(),
+});
+
+// An accepted suggestion enters review from scratch, however it was accepted
+const accepted = (entry: VocabEntry): VocabEntry => ({ ...entry, status: 'active', review: initialReviewState() });
+
+// Saves a word the user picked. Saving a pending suggestion accepts it instead of duplicating it;
+// saving a word already in review changes nothing.
+export const addVocabEntry = (draft: VocabDraft): VocabEntry[] => {
+  const all = loadVocabulary();
+  const existing = all.find(e => termKey(e.term) === termKey(draft.term));
+  if (existing?.status === 'active') return all;
+  const entries = existing
+    ? all.map(e => e === existing ? accepted(e) : e)
+    : [...all, newEntry(draft, 'manual')];
+  saveVocabulary(entries);
+  return entries;
+};
+
+// Queues words proposed by the analysis. Known or dismissed terms are skipped.
+export const proposeVocabulary = (drafts: VocabDraft[]): VocabEntry[] => {
+  const entries = loadVocabulary();
+  const known = new Set([...entries.map(e => termKey(e.term)), ...loadDismissed()]);
+  let added = false;
+  drafts.forEach(draft => {
+    const key = termKey(draft.term);
+    if (!key || known.has(key)) return;
+    known.add(key);
+    entries.push(newEntry(draft, 'suggested'));
+    added = true;
+  });
+  if (added) saveVocabulary(entries);
+  return entries;
+};
+
+export const acceptSuggestion = (id: string): VocabEntry[] => {
+  const entries = loadVocabulary().map(e => e.id === id ? accepted(e) : e);
+  saveVocabulary(entries);
+  return entries;
+};
+
+export const deleteVocabEntry = (id: string): VocabEntry[] => {
+  const all = loadVocabulary();
+  const removed = all.find(e => e.id === id);
+  if (removed?.status === 'suggested') {
+    localStorage.setItem(DISMISSED_KEY, JSON.stringify([...loadDismissed(), termKey(removed.term)]));
+  }
+  const entries = all.filter(e => e.id !== id);
+  saveVocabulary(entries);
+  return entries;
+};
+
+export const reviewVocabEntry = (id: string, grade: ReviewGrade): VocabEntry[] => {
+  const entries = loadVocabulary().map(e => e.id === id ? { ...e, review: scheduleReview(e.review, grade) } : e);
+  saveVocabulary(entries);
+  return entries;
+};
+
+// Active entries whose review is due, most overdue first
+export const getDueEntries = (entries: VocabEntry[], now: Date = new Date()): VocabEntry[] =>
+  entries
+    .filter(e => e.status === 'active' && isDue(e.review, now))
+    .sort((a, b) => a.review.due.getTime() - b.review.due.getTime());
+
+// The sentence of `text` that contains `term`, falling back to the whole text
+export const sentenceContaining = (text: string, term: string): string => {
+  const needle = termKey(term);
+  const sentences = text.split(/(?<=[.!?。！？])\s*/);
+  return sentences.find(s => s.toLowerCase().includes(needle))?.trim() || text;
+};
@@ -0,0 +1,68 @@
+import { ChatMessage } from "../types";
+import { PromptContext } from "./geminiService";
+import { createElevenLabsTransport } from "./transports/elevenLabsTransport";
+import { createBrowserSpeechTransport, isBrowserSpeechSupported } from "./transports/browserSpeechTransport";
+import { createScriptedTransport } from "./transports/scriptedTransport";
+import { VoiceTurn } from "./turnSegmenter";
+import { DEMO_VOICE_RECORDING } from "../fixtures/voiceRecordings";
+import { getSettings, updateSettings } from "./settingsStore";
+
+export type VoiceTransportId = 'elevenlabs' | 'browser' | 'scripted';
+
+export const VOICE_TRANSPORTS: VoiceTransportId[] = ['elevenlabs', 'browser', 'scripted'];
+
+export type VoiceStatus = 'disconnected' | 'connecting' | 'listening' | 'thinking' | 'speaking';
+
+// The four turn callbacks the app consumes, whichever backend produces them.
+// Transports don't call the turn callbacks themselves: their signals go through a turn segmenter.
+export interface VoiceTransportCallbacks {
+  onUserTranscript: (text: string) => void;        // Live transcript of the learner's turn so far
+  onAgentResponse: (text: string) => void;         // Next piece of the agent's reply
+  onUserTurnComplete: (turn: VoiceTurn) => void;   // The learner finished speaking (never empty)
+  onTurnComplete: (turn: VoiceTurn) => void;       // The agent finished or was cut off (never empty)
+  onStatusChange: (status: VoiceStatus) => void;
+  onError: (error: Error) => void;
+  onMicStream?: (stream: MediaStream) => void;     // The open mic, for local recording; the transport closes it on stop
+}
+
+export interface VoiceTransport {
+  id: VoiceTransportId;
+  // Resolves once the session is live; rejects when it can't start (no mic, no agent, unsupported browser)
+  start(callbacks: VoiceTransportCallbacks): Promise<void>;
+  stop(): Promise<void>;
+  // Background information for the agent; it isn't spoken and doesn't count as a user turn
+  sendContextualUpdate(text: string): void;
+}
+
+// What a locally run agent needs to answer in context
+export interface VoiceAgentContext {
+  history: ChatMessage[];
+  session: PromptContext;
+}
+
+export interface VoiceTransportOptions {
+  agentId: string;       // ElevenLabs agent
+  language: string;      // BCP-47 tag for browser recognition and synthesis; '' = browser default
+  getContext: () => VoiceAgentContext;
+}
+
+// The chosen backend; without a choice, ElevenLabs when an agent is configured, otherwise the browser's own speech engine
+export const getVoiceTransportId = (): VoiceTransportId => {
+  const { voiceTransport, elevenLabsAgentId } = getSettings();
+  if (voiceTransport) return voiceTransport;
+  return elevenLabsAgentId || !isBrowserSpeechSupported() ? 'elevenlabs' : 'browser';
+};
+
+export const saveVoiceTransportId = (id: VoiceTransportId) => updateSettings({ voiceTransport: id });
+
+export const createVoiceTransport = (id: VoiceTransportId, options: VoiceTransportOptions): VoiceTransport => {
+  switch (id) {
+    case 'browser':
+      return createBrowserSpeechTransport({ language: options.language, getContext: options.getContext });
+    case 'scripted':
+      return createScriptedTransport(DEMO_VOICE_RECORDING);
+    case 'elevenlabs':
+    default:
+      return createElevenLabsTransport({ agentId: options.agentId });
+  }
+};
@@ -0,0 +1,47 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+// A tiny OpenAI-compatible endpoint at /standin/v1 on the dev server, for the settings panel's connection test.
+// It answers every JSON request with {"ok":true} and streams a fixed reply, so the request
+// path can be checked without a real model server.
+export const standInPlugin = (): Plugin => {
+  const handle = (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const url = req.url?.split('?')[0];
+    if (req.method === 'GET' && url === '/standin/v1/models') {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ object: 'list', data: [{ id: 'stand-in', object: 'model' }] }));
+      return;
+    }
+    if (req.method !== 'POST' || url !== '/standin/v1/chat/completions') return next();
+
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let stream = false;
+      try {
+        stream = JSON.parse(body).stream === true;
+      } catch {
+        res.statusCode = 400;
+        res.end('Invalid JSON');
+        return;
+      }
+      if (stream) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        for (const word of ['Stand-in ', 'reply.']) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: '{"ok":true}' } }] }));
+    });
+  };
+
+  return {
+    name: 'contextdojo-stand-in',
+    // Dev server only: `npm start` serves the built app on the network with `vite preview`
+    apply: 'serve',
+    configureServer: server => { server.middlewares.use(handle); },
+  };
+};
@@ -2,9 +2,11 @@ export interface MindMapNode {
   id: string;
   label: string;
   group: number; 
-  type: 'root' | 'concept' | 'entity' | 'action' | 'emotion';
+  type: 'root' | 'concept' | 'entity' | 'action' | 'emotion' | 'marker'; // 'marker' = session event, e.g. a mode switch
   status: 'active' | 'potential';
   description?: string; // Why this node is here / What to discuss
+  activatedAt?: Date; // When the node first became active; orders the timeline layout
+  messageIds?: string[]; // Messages that introduced or discussed this node
 }
 
 export interface MindMapLink {
@@ -14,8 +16,28 @@ export interface MindMapLink {
 
 export type ConversationMode = 'topical' | 'social' | 'debate' | 'adaptive' | null;
 
+export type ScenarioDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export interface Scenario {
+  id: string;
+  title: string;
+  mode: Exclude<ConversationMode, null>;
+  persona: string;       // Who the agent plays
+  setting: string;       // Where / when the conversation happens
+  goals: string[];       // What the learner should practice
+  difficulty: ScenarioDifficulty;
+  openingLine: string;   // First line spoken by the persona
+  successCriteria: string[];
+  builtIn?: boolean;
+}
+
 export interface DojoState {
   mode: ConversationMode;
+  scenario?: Scenario | null;
+  practiceLanguage?: string; // PRACTICE_LANGUAGES code, 'auto' = follow the user
+  sessionGoal?: string | null;
+  focusHistory?: FocusSample[];
+  report?: SessionReport | null;
   currentTopic: string;
   mindMapNodes: MindMapNode[];
   mindMapLinks: MindMapLink[];
@@ -23,10 +45,135 @@ export interface DojoState {
   lastGuidance: string | null;
 }
 
+// One tangent measurement per exchange; higher = further off topic
+export interface FocusSample {
+  score: number;            // 0-100 combined drift
+  structuralScore: number;  // From the mind map shape alone
+  modelScore: number | null; // Model judgement, null when unavailable
+  nodeId: string;           // Node the exchange landed on (becomes the next reference point)
+  reason?: string;
+  redirect?: string | null; // Suggested way back, set when drift is high
+  timestamp: Date;
+}
+
+export type SkillId =
+  | 'active_listening'
+  | 'question_asking'
+  | 'turn_balance'
+  | 'topic_maintenance'
+  | 'filler_words'
+  | 'politeness_register';
+
+export interface SkillEvidence {
+  messageIndex: number; // Index into conversationHistory
+  quote: string;
+}
+
+export interface SkillScore {
+  skill: SkillId;
+  score: number; // 0-100, higher is better
+  summary: string;
+  evidence: SkillEvidence[];
+  source: 'metric' | 'model';
+}
+
+export interface SessionReport {
+  generatedAt: Date;
+  skills: SkillScore[];
+  strengths: string[];
+  improvements: string[]; // Top three, most important first
+  topics: string[];       // Active MindMap nodes
+}
+
+// SM-2 scheduling state for one notebook entry
+export interface ReviewState {
+  easiness: number;    // E-Factor, never below 1.3
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  due: Date;
+  lastReviewed?: Date;
+}
+
+export interface VocabEntry {
+  id: string;
+  term: string;
+  gloss: string;          // English meaning (or the sentence's English translation for manual saves)
+  sourceSentence: string;
+  sessionId: string;
+  origin: 'manual' | 'suggested';
+  status: 'active' | 'suggested'; // Suggestions wait for the user before entering review
+  createdAt: Date;
+  review: ReviewState;
+}
+
+export interface SavedSession {
+  id: string;
+  title: string;
+  titleEdited?: boolean; // Stop auto-titling once the user has renamed it
+  createdAt: Date;
+  updatedAt: Date;
+  state: DojoState;
+}
+
+export interface ModeChange {
+  from: ConversationMode;
+  to: ConversationMode;
+}
+
+export type GuidanceCategory = 'tone' | 'clarity' | 'grammar' | 'engagement';
+
+// Coach feedback pinned to the message it refers to
+export interface Guidance {
+  text: string;
+  category: GuidanceCategory;
+  timestamp: Date;
+}
+
+export type CorrectionCategory = 'grammar' | 'word_choice' | 'register';
+
+export interface CorrectionError {
+  original: string;  // Excerpt of what the learner said
+  corrected: string; // What it should have been
+  category: CorrectionCategory;
+  explanation: string;
+}
+
+// Practice-language correction of a user turn
+export interface Correction {
+  correctedText: string;
+  errors: CorrectionError[];
+}
+
+// When a spoken turn started and ended; interrupted = cut off before it was finished
+export interface TurnTiming {
+  startedAt: Date;
+  endedAt: Date;
+  interrupted: boolean;
+}
+
+// A local recording of one learner turn. Take 0 is what was said in the session; later takes are re-recordings.
+export interface TurnAudio {
+  id: string;
+  sessionId: string;
+  messageId: string;
+  take: number;
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+  recordedAt: Date;
+}
+
 export interface ChatMessage {
-  role: 'user' | 'model';
+  id: string;
+  role: 'user' | 'model' | 'system'; // 'system' = session event shown inline, not spoken
   text: string;
+  modeChange?: ModeChange;
   translatedText?: string; 
+  guidance?: Guidance;
+  correction?: Correction;
+  correctionUnavailable?: boolean; // The correction request failed; the turn is shown without one
+  nodeIds?: string[]; // Mind map nodes this message introduced or discussed
+  timing?: TurnTiming; // Voice turns only
   timestamp: Date;
 }
 
@@ -35,9 +182,52 @@ export interface BrainResponse {
   english_user_translation: string;
   english_agent_translation: string;
   coach_guidance: string | null;
+  guidance_category?: GuidanceCategory | null;
   key_concept: string | null; 
+  new_vocabulary?: { term: string; gloss: string }[];
 }
 
+// Raw model output for the parts of the report that need judgement
+export interface ReportJudgement {
+  skills: {
+    skill: 'active_listening' | 'politeness_register';
+    score: number;
+    summary: string;
+    evidence: { message_index: number; quote: string }[];
+  }[];
+  strengths: string[];
+  improvements: string[];
+}
+
+export interface CorrectionJudgement {
+  corrected_text: string;
+  errors: {
+    original: string;
+    corrected: string;
+    category: CorrectionCategory;
+    explanation: string;
+  }[];
+}
+
+export interface NodeMergeJudgement {
+  groups: { keep_id: string; duplicate_ids: string[] }[];
+}
+
+export interface TopicOpener {
+  opener: string;
+}
+
+export interface TangentJudgement {
+  drift_score: number;
+  reason: string;
+  redirect_suggestion: string | null;
+}
+
+// Distinguishes a validated model answer from the locally built fallback
+export type ModelResult<T> =
+  | { source: 'model'; data: T; attempts: number }
+  | { source: 'fallback'; data: T; error: string };
+
 export interface GraphUpdate {
   nodes: { 
     label: string; 
@@ -1,8 +1,9 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { standInPlugin } from './standInPlugin';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), standInPlugin()],
   server: {
     port: 8080,
     host: true
@@ -10,8 +11,5 @@ export default defineConfig({
   preview: {
     port: 8080,
     host: true
-  },
-  define: {
-    'process.env': process.env
   }
 });
\ No newline at end of file